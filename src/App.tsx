@@ -4,11 +4,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
-import { useEffect, useState } from "react";
-import { getProfile } from "@/lib/storage";
+import { useProfile } from "@/hooks/use-profile";
+import { subscribeRemoteChanges } from "@/lib/sync";
+import { StorageError } from "@/lib/errors";
+import LoadError from "@/components/LoadError";
 import Layout from "@/components/Layout";
 import Dashboard from "@/pages/Dashboard";
 import Training from "@/pages/Training";
+import Records from "@/pages/Records";
 import Nutrition from "@/pages/Nutrition";
 import Profile from "@/pages/Profile";
 import Auth from "@/pages/Auth";
@@ -16,20 +19,38 @@ import Onboarding from "@/pages/Onboarding";
 import NotFound from "./pages/NotFound";
 import { Loader2 } from "lucide-react";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Only transient network failures are worth retrying automatically;
+      // anything else is shown right away with a manual retry.
+      retry: (failureCount, error) =>
+        error instanceof StorageError && error.kind === "network" && failureCount < 2,
+    },
+  },
+});
+
+// Query keys start with the table name, so a background sync that changes
+// cached rows refetches every query reading that table.
+subscribeRemoteChanges(table => queryClient.invalidateQueries({ queryKey: [table] }));
 
 function AuthGuard({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
-  const [onboardingDone, setOnboardingDone] = useState<boolean | null>(null);
+  const { data: profile, isPending, error, refetch, isFetching } = useProfile();
+  const onboardingDone = profile?.onboardingComplete ?? false;
 
-  useEffect(() => {
-    if (!user) return;
-    getProfile(user.id).then(profile => {
-      setOnboardingDone(profile?.onboardingComplete ?? false);
-    });
-  }, [user]);
+  // A failed load must not be mistaken for a missing profile (which would send the user to onboarding)
+  if (user && error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <div className="w-full max-w-sm">
+          <LoadError error={error} onRetry={() => refetch()} retrying={isFetching} />
+        </div>
+      </div>
+    );
+  }
 
-  if (loading || (user && onboardingDone === null)) {
+  if (loading || (user && isPending)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -61,6 +82,7 @@ function AppRoutes() {
         <Route path="/" element={<Navigate to="/dashboard" replace />} />
         <Route path="/dashboard" element={<Dashboard />} />
         <Route path="/training" element={<Training />} />
+        <Route path="/records" element={<Records />} />
         <Route path="/nutrition" element={<Nutrition />} />
         <Route path="/profile" element={<Profile />} />
       </Route>
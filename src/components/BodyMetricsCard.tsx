@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { Scale, Plus, Pencil, Trash2, Save } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { BodyMetricEntry, BodyMetricField } from '@/types';
+import { generateId } from '@/lib/storage';
+import { getErrorMessage } from '@/lib/errors';
+import { useBodyMetrics, useSaveBodyMetric, useDeleteBodyMetric } from '@/hooks/use-body-metrics';
+import { useProfile, useSaveProfile } from '@/hooks/use-profile';
+import LoadError from '@/components/LoadError';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+const metricFields: { field: BodyMetricField; label: string; unit: string }[] = [
+  { field: 'weight', label: 'Peso', unit: 'kg' },
+  { field: 'bodyFat', label: 'Grasa corporal', unit: '%' },
+  { field: 'waist', label: 'Cintura', unit: 'cm' },
+  { field: 'hips', label: 'Cadera', unit: 'cm' },
+  { field: 'chest', label: 'Pecho', unit: 'cm' },
+  { field: 'arms', label: 'Brazos', unit: 'cm' },
+];
+
+const RECENT_ENTRIES = 5;
+
+function describeEntry(entry: BodyMetricEntry): string {
+  return metricFields
+    .filter(({ field }) => entry[field] !== undefined)
+    .map(({ field, unit }) => `${entry[field]} ${unit}`)
+    .join(' · ');
+}
+
+// Dated log of weight and body measurements. The newest weigh-in also
+// becomes the profile weight used for today's targets.
+export default function BodyMetricsCard() {
+  const metricsQuery = useBodyMetrics();
+  const profileQuery = useProfile();
+  const saveEntry = useSaveBodyMetric();
+  const deleteEntry = useDeleteBodyMetric();
+  const saveProfile = useSaveProfile();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<BodyMetricEntry | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const entries = metricsQuery.data ?? [];
+  const visible = showAll ? entries : entries.slice(0, RECENT_ENTRIES);
+
+  const openForm = (entry: BodyMetricEntry | null) => {
+    setEditingEntry(entry);
+    setFormOpen(true);
+  };
+
+  const handleSave = async (entry: BodyMetricEntry) => {
+    // One entry per day: logging a day that already has one updates it
+    const sameDay = entries.find(e => e.date === entry.date && e.id !== entry.id);
+    const saved = sameDay ? { ...entry, id: sameDay.id } : entry;
+    try {
+      await saveEntry.mutateAsync(saved);
+      if (sameDay && editingEntry) await deleteEntry.mutateAsync(editingEntry.id);
+
+      const profile = profileQuery.data;
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const isLatestWeighIn = saved.date <= today
+        && !entries.some(e => e.weight !== undefined && e.id !== saved.id && e.date > saved.date);
+      if (profile && saved.weight !== undefined && isLatestWeighIn && saved.weight !== profile.weight) {
+        await saveProfile.mutateAsync({ ...profile, weight: saved.weight });
+      }
+    } catch (err) {
+      console.error('[handleSave]', err);
+      toast.error(`No se pudo guardar la medición. ${getErrorMessage(err)}`);
+      return;
+    }
+    setFormOpen(false);
+    setEditingEntry(null);
+    toast.success(editingEntry ? 'Medición actualizada' : 'Medición registrada');
+  };
+
+  const handleDelete = async (entry: BodyMetricEntry) => {
+    try {
+      await deleteEntry.mutateAsync(entry.id);
+      toast.success('Medición eliminada', {
+        action: { label: 'Deshacer', onClick: () => handleUndo(entry) },
+      });
+    } catch (err) {
+      console.error('[handleDelete]', err);
+      toast.error(`No se pudo eliminar la medición. ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleUndo = async (entry: BodyMetricEntry) => {
+    try {
+      await saveEntry.mutateAsync(entry);
+    } catch (err) {
+      console.error('[handleUndo]', err);
+      toast.error(`No se pudo restaurar la medición. ${getErrorMessage(err)}`);
+    }
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+          <Scale className="w-4 h-4" /> Medidas corporales
+        </h2>
+        <button
+          onClick={() => openForm(null)}
+          className="text-xs text-primary hover:text-primary/80 transition-colors font-medium flex items-center gap-1"
+        >
+          <Plus className="w-3.5 h-3.5" /> Registrar
+        </button>
+      </div>
+
+      {metricsQuery.error ? (
+        <LoadError error={metricsQuery.error} onRetry={() => metricsQuery.refetch()} retrying={metricsQuery.isFetching} />
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-2">Aún no has registrado medidas</p>
+      ) : (
+        <div className="space-y-2">
+          {visible.map(entry => (
+            <div key={entry.id} className="bg-muted rounded-xl p-3 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium">{format(parseISO(entry.date), "d MMM yyyy", { locale: es })}</p>
+                <p className="text-[10px] text-muted-foreground truncate">{describeEntry(entry)}</p>
+              </div>
+              <button onClick={() => openForm(entry)} className="p-1.5 rounded hover:bg-background" aria-label="Editar">
+                <Pencil className="w-4 h-4 text-muted-foreground" />
+              </button>
+              <button onClick={() => handleDelete(entry)} className="p-1.5 rounded hover:bg-background" aria-label="Eliminar">
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </button>
+            </div>
+          ))}
+          {entries.length > RECENT_ENTRIES && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="w-full text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {showAll ? 'Ver menos' : `Ver las ${entries.length} mediciones`}
+            </button>
+          )}
+        </div>
+      )}
+
+      <BodyMetricFormDialog
+        open={formOpen}
+        editing={editingEntry}
+        defaultWeight={profileQuery.data?.weight}
+        onClose={() => { setFormOpen(false); setEditingEntry(null); }}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
+
+function BodyMetricFormDialog({
+  open, editing, defaultWeight, onClose, onSave,
+}: {
+  open: boolean;
+  editing: BodyMetricEntry | null;
+  defaultWeight?: number;
+  onClose: () => void;
+  onSave: (entry: BodyMetricEntry) => void;
+}) {
+  const [date, setDate] = useState('');
+  const [dateDisplay, setDateDisplay] = useState('');
+  const [values, setValues] = useState<Partial<Record<BodyMetricField, string>>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    const initialDate = editing?.date ?? format(new Date(), 'yyyy-MM-dd');
+    setDate(initialDate);
+    setDateDisplay(initialDate.split('-').reverse().join('/'));
+    setValues(editing
+      ? Object.fromEntries(metricFields.map(({ field }) => [field, editing[field]?.toString() ?? '']))
+      : { weight: defaultWeight?.toString() ?? '' });
+  }, [open, editing, defaultWeight]);
+
+  const parsed: Partial<Record<BodyMetricField, number>> = Object.fromEntries(
+    metricFields
+      .map(({ field }) => [field, parseFloat(values[field] ?? '')] as const)
+      .filter(([, value]) => Number.isFinite(value) && value > 0)
+  );
+  const canSave = /^\d{4}-\d{2}-\d{2}$/.test(date) && Object.keys(parsed).length > 0;
+
+  const handleSubmit = () => {
+    onSave({ id: editing?.id ?? generateId(), date, ...parsed });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="bg-card border-border max-w-sm mx-auto max-h-[85vh] overflow-y-auto p-6">
+        <DialogHeader>
+          <DialogTitle>{editing ? 'Editar medición' : 'Nueva medición'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Fecha</Label>
+            <Input
+              type="text"
+              inputMode="numeric"
+              placeholder="DD/MM/AAAA"
+              value={dateDisplay}
+              onChange={e => {
+                let v = e.target.value.replace(/[^\d]/g, '');
+                if (v.length >= 3) v = v.slice(0, 2) + '/' + v.slice(2);
+                if (v.length >= 6) v = v.slice(0, 5) + '/' + v.slice(5, 9);
+                if (v.length > 10) v = v.slice(0, 10);
+                setDateDisplay(v);
+                const parts = v.split('/');
+                setDate(parts.length === 3 && parts[2]?.length === 4 ? `${parts[2]}-${parts[1]}-${parts[0]}` : '');
+              }}
+              maxLength={10}
+              className="bg-muted border-border"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {metricFields.map(({ field, label, unit }) => (
+              <div key={field} className="space-y-1.5">
+                <Label className="text-xs">{label} ({unit})</Label>
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  step="0.1"
+                  min={0}
+                  value={values[field] ?? ''}
+                  onChange={e => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                  className="bg-muted border-border"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-muted-foreground">Rellena solo las medidas que hayas tomado.</p>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={!canSave}
+            className="w-full gradient-training text-primary-foreground font-semibold rounded-xl"
+          >
+            <Save className="w-4 h-4 mr-2" /> Guardar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { Equipment, LibraryExercise, MuscleGroup } from '@/types';
+import { generateId } from '@/lib/storage';
+import { equipmentLabels, muscleGroupLabels } from '@/lib/exercises';
+import { getErrorMessage } from '@/lib/errors';
+import { useSaveCustomExercise } from '@/hooks/use-custom-exercises';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+const muscleGroups = Object.keys(muscleGroupLabels) as MuscleGroup[];
+
+// Adds an exercise to the user's catalogue and hands it back once saved
+export default function CustomExerciseDialog({
+  open, initialName, onClose, onCreated,
+}: {
+  open: boolean;
+  initialName: string;
+  onClose: () => void;
+  onCreated: (exercise: LibraryExercise) => void;
+}) {
+  const saveExercise = useSaveCustomExercise();
+  const [name, setName] = useState('');
+  const [primary, setPrimary] = useState<MuscleGroup[]>([]);
+  const [secondary, setSecondary] = useState<MuscleGroup[]>([]);
+  const [equipment, setEquipment] = useState<Equipment>('other');
+
+  useEffect(() => {
+    if (!open) return;
+    setName(initialName);
+    setPrimary([]);
+    setSecondary([]);
+    setEquipment('other');
+  }, [open, initialName]);
+
+  // A muscle is either primary or secondary, never both
+  const toggle = (muscle: MuscleGroup, asPrimary: boolean) => {
+    const flip = (list: MuscleGroup[]) => list.includes(muscle) ? list.filter(m => m !== muscle) : [...list, muscle];
+    const drop = (list: MuscleGroup[]) => list.filter(m => m !== muscle);
+    setPrimary(asPrimary ? flip : drop);
+    setSecondary(asPrimary ? drop : flip);
+  };
+
+  const handleSubmit = async () => {
+    const exercise: LibraryExercise = {
+      id: generateId(),
+      name: name.trim(),
+      primaryMuscles: primary,
+      secondaryMuscles: secondary,
+      equipment,
+      custom: true,
+    };
+    try {
+      await saveExercise.mutateAsync(exercise);
+    } catch (err) {
+      console.error('[handleSubmit]', err);
+      toast.error(`No se pudo guardar el ejercicio. ${getErrorMessage(err)}`);
+      return;
+    }
+    onCreated(exercise);
+  };
+
+  const muscleChips = (selected: MuscleGroup[], asPrimary: boolean) => (
+    <div className="flex flex-wrap gap-1.5">
+      {muscleGroups.map(m => (
+        <button
+          key={m}
+          type="button"
+          onClick={() => toggle(m, asPrimary)}
+          className={`px-2.5 py-1 rounded-lg text-[10px] font-semibold transition-all ${selected.includes(m)
+            ? 'bg-primary text-primary-foreground'
+            : 'bg-muted text-muted-foreground hover:text-foreground'
+            }`}
+        >
+          {muscleGroupLabels[m]}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="bg-card border-border max-w-sm mx-auto max-h-[85vh] overflow-y-auto p-6">
+        <DialogHeader>
+          <DialogTitle>Nuevo ejercicio</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Nombre</Label>
+            <Input value={name} onChange={e => setName(e.target.value)} className="bg-muted border-border" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Músculos principales</Label>
+            {muscleChips(primary, true)}
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Músculos secundarios</Label>
+            {muscleChips(secondary, false)}
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Material</Label>
+            <Select value={equipment} onValueChange={v => setEquipment(v as Equipment)}>
+              <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(equipmentLabels) as Equipment[]).map(e => (
+                  <SelectItem key={e} value={e}>{equipmentLabels[e]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={!name.trim() || primary.length === 0 || saveExercise.isPending}
+            className="w-full gradient-training text-primary-foreground font-semibold rounded-xl"
+          >
+            <Save className="w-4 h-4 mr-2" /> Guardar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { ChevronsUpDown, Plus } from 'lucide-react';
+import { LibraryExercise } from '@/types';
+import { muscleGroupLabels, searchExercises } from '@/lib/exercises';
+import CustomExerciseDialog from '@/components/CustomExerciseDialog';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+
+// Searchable exercise catalogue; anything not in it can be added on the spot
+export default function ExercisePicker({
+  library, value, onPick,
+}: {
+  library: LibraryExercise[];
+  value: string; // name of the exercise picked so far
+  onPick: (exercise: LibraryExercise) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const results = searchExercises(library, query);
+
+  const pick = (exercise: LibraryExercise) => {
+    onPick(exercise);
+    setOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button className="flex-1 min-w-0 flex items-center justify-between gap-2 h-8 px-3 rounded-md bg-muted border border-border text-sm text-left">
+            <span className={`truncate ${value ? '' : 'text-muted-foreground'}`}>{value || 'Elegir ejercicio'}</span>
+            <ChevronsUpDown className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-72" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Buscar por nombre, músculo o material" value={query} onValueChange={setQuery} />
+            <CommandList>
+              <CommandEmpty>Sin resultados</CommandEmpty>
+              <CommandGroup>
+                {results.map(exercise => (
+                  <CommandItem key={exercise.id} value={exercise.id} onSelect={() => pick(exercise)}>
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{exercise.name}</p>
+                      <p className="text-[10px] text-muted-foreground truncate">
+                        {exercise.primaryMuscles.map(m => muscleGroupLabels[m]).join(', ')}
+                        {exercise.custom && ' · propio'}
+                      </p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+            <button
+              onClick={() => { setOpen(false); setCreating(true); }}
+              className="w-full flex items-center gap-1.5 px-3 py-2 border-t border-border text-xs text-primary hover:bg-muted"
+            >
+              <Plus className="w-3.5 h-3.5" /> {query.trim() ? `Crear «${query.trim()}»` : 'Crear ejercicio'}
+            </button>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      <CustomExerciseDialog
+        open={creating}
+        initialName={query.trim()}
+        onClose={() => setCreating(false)}
+        onCreated={exercise => { setCreating(false); pick(exercise); }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { RecordVersion } from '@/types';
+import { VersionValues } from '@/lib/storage';
+import { SyncedTable } from '@/lib/localdb';
+import { getErrorMessage } from '@/lib/errors';
+import { changedFieldsLabel, operationLabel } from '@/lib/versions';
+import { useVersions } from '@/hooks/use-versions';
+import LoadError from '@/components/LoadError';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+interface HistoryDialogProps<T extends SyncedTable> {
+  table: T;
+  recordId: string | null; // the dialog is open while set
+  title: string;
+  onClose: () => void;
+  describe: (value: VersionValues[T]) => string;
+  onRevert: (value: VersionValues[T]) => Promise<void>;
+}
+
+// Versions of one record, newest first; any older one can be restored
+export default function HistoryDialog<T extends SyncedTable>({ table, recordId, title, onClose, describe, onRevert }: HistoryDialogProps<T>) {
+  const versionsQuery = useVersions(table, recordId);
+  const [reverting, setReverting] = useState<string | null>(null);
+
+  const handleRevert = async (version: RecordVersion<VersionValues[T]>) => {
+    setReverting(version.id);
+    try {
+      await onRevert(version.value);
+      toast.success('Versión restaurada');
+      onClose();
+    } catch (err) {
+      console.error('[handleRevert]', err);
+      toast.error(`No se pudo restaurar la versión. ${getErrorMessage(err)}`);
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!recordId} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="glass-card border-border max-w-sm mx-auto max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" /> {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        {versionsQuery.isPending ? (
+          <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto my-6" />
+        ) : versionsQuery.error ? (
+          <LoadError error={versionsQuery.error} onRetry={() => versionsQuery.refetch()} retrying={versionsQuery.isFetching} />
+        ) : versionsQuery.data.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Todavía no hay cambios registrados</p>
+        ) : (
+          <ol className="space-y-2">
+            {versionsQuery.data.map((version, i) => (
+              <li key={version.id} className="bg-muted rounded-xl p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs font-semibold">
+                    {operationLabel(version)}
+                    {i === 0 && <span className="text-primary font-normal"> · actual</span>}
+                  </p>
+                  <span className="text-[10px] text-muted-foreground">
+                    {format(parseISO(version.changedAt), "d MMM yyyy, HH:mm", { locale: es })}
+                  </span>
+                </div>
+                {version.operation === 'update' && changedFieldsLabel(version.changedFields) && (
+                  <p className="text-[10px] text-muted-foreground mt-0.5">Cambios: {changedFieldsLabel(version.changedFields)}</p>
+                )}
+                <p className="text-xs mt-1">{describe(version.value)}</p>
+                {i > 0 && version.operation !== 'delete' && (
+                  <Button
+                    onClick={() => handleRevert(version)}
+                    disabled={reverting !== null}
+                    variant="outline"
+                    size="sm"
+                    className="mt-2 h-7 rounded-lg text-xs"
+                  >
+                    <RotateCcw className={`w-3 h-3 mr-1 ${reverting === version.id ? 'animate-spin' : ''}`} />
+                    Restaurar esta versión
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,9 @@
 import { Outlet, useLocation, useNavigate } from 'react-router-dom';
-import { Dumbbell, UtensilsCrossed, LayoutDashboard, User } from 'lucide-react';
+import { Dumbbell, UtensilsCrossed, LayoutDashboard, User, CloudOff, RefreshCw } from 'lucide-react';
+import { useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { useSyncStatus } from '@/hooks/use-sync-status';
 
 const navItems = [
   { path: '/training', icon: Dumbbell, label: 'Entreno', color: 'text-training' },
@@ -12,9 +15,25 @@ const navItems = [
 export default function Layout() {
   const location = useLocation();
   const navigate = useNavigate();
+  const sync = useSyncStatus();
+
+  // A change saved offline that Supabase later refused has been undone locally
+  useEffect(() => {
+    if (sync.rejected) toast.error(`No se pudo sincronizar un cambio. ${sync.rejected.message}`);
+  }, [sync.rejected]);
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
+      {/* Pending Sync Indicator */}
+      {(!sync.online || sync.pending > 0) && (
+        <div className="fixed top-3 right-3 z-50 glass-card px-2.5 py-1 flex items-center gap-1.5 text-[10px] font-medium text-muted-foreground">
+          {sync.online
+            ? <RefreshCw className={`w-3 h-3 ${sync.syncing ? 'animate-spin' : ''}`} />
+            : <CloudOff className="w-3 h-3" />}
+          {sync.pending > 0 ? `${sync.pending} sin sincronizar` : 'Sin conexión'}
+        </div>
+      )}
+
       <main className="flex-1 pb-20 overflow-y-auto">
         <Outlet />
       </main>
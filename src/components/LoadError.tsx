@@ -0,0 +1,26 @@
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getErrorMessage } from '@/lib/errors';
+
+interface LoadErrorProps {
+  error: unknown;
+  onRetry: () => void;
+  retrying?: boolean;
+}
+
+// Shown in place of a screen's data when it couldn't be loaded
+export default function LoadError({ error, onRetry, retrying = false }: LoadErrorProps) {
+  return (
+    <div className="glass-card p-6 mb-4 flex flex-col items-center text-center gap-3">
+      <AlertTriangle className="w-8 h-8 text-destructive" />
+      <div>
+        <p className="text-sm font-semibold">No se pudieron cargar tus datos</p>
+        <p className="text-xs text-muted-foreground mt-1">{getErrorMessage(error)}</p>
+      </div>
+      <Button onClick={onRetry} disabled={retrying} variant="outline" size="sm" className="rounded-xl">
+        <RefreshCw className={`w-4 h-4 mr-1.5 ${retrying ? 'animate-spin' : ''}`} />
+        Reintentar
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { DailyTargets, MacroSettings, UserProfile } from '@/types';
+import { goalMacroSplits } from '@/lib/macros';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+type MacroMode = MacroSettings['mode'] | 'goal';
+
+const modeLabels: Record<MacroMode, string> = {
+  goal: 'Según mi objetivo',
+  percent: 'Porcentajes',
+  grams: 'Gramos fijos',
+  protein_per_kg: 'Proteína por kg',
+};
+
+const macroFields = [
+  { key: 'protein', label: 'Proteínas' },
+  { key: 'carbs', label: 'Carbohidratos' },
+  { key: 'fat', label: 'Grasas' },
+] as const;
+
+type MacroValues = Record<'protein' | 'carbs' | 'fat', number>;
+
+// % more calories on training days; 0 turns cycling off
+const boostOptions = [0, 10, 15, 20, 25, 30];
+
+// Overrides the goal's default macro split ("Según mi objetivo" removes the
+// override) and sets the training-day calorie cycling
+export default function MacroSettingsDialog({
+  open, profile, targets, onClose, onSave,
+}: {
+  open: boolean;
+  profile: UserProfile;
+  targets: DailyTargets; // current targets, used as starting grams
+  onClose: () => void;
+  onSave: (macros: MacroSettings | undefined, trainingDayBoost: number) => void;
+}) {
+  const [mode, setMode] = useState<MacroMode>('goal');
+  const [percent, setPercent] = useState<MacroValues>({ protein: 0, carbs: 0, fat: 0 });
+  const [grams, setGrams] = useState<MacroValues>({ protein: 0, carbs: 0, fat: 0 });
+  const [gramsPerKg, setGramsPerKg] = useState(2);
+  const [basis, setBasis] = useState<'bodyweight' | 'lean_mass'>('bodyweight');
+  const [boost, setBoost] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+    const macros = profile.macros;
+    const split = goalMacroSplits[profile.goal];
+    setMode(macros?.mode ?? 'goal');
+    setPercent(macros?.mode === 'percent'
+      ? { protein: macros.protein, carbs: macros.carbs, fat: macros.fat }
+      : { protein: split.protein * 100, carbs: split.carbs * 100, fat: split.fat * 100 });
+    setGrams(macros?.mode === 'grams'
+      ? { protein: macros.protein, carbs: macros.carbs, fat: macros.fat }
+      : { protein: targets.protein, carbs: targets.carbs, fat: targets.fat });
+    setGramsPerKg(macros?.mode === 'protein_per_kg' ? macros.gramsPerKg : 2);
+    setBasis(macros?.mode === 'protein_per_kg' ? macros.basis : 'bodyweight');
+    setBoost(profile.trainingDayBoost ?? 0);
+  }, [open, profile, targets]);
+
+  const percentTotal = percent.protein + percent.carbs + percent.fat;
+  const gramsCalories = grams.protein * 4 + grams.carbs * 4 + grams.fat * 9;
+  const valid =
+    mode === 'goal' ||
+    (mode === 'percent' && Math.round(percentTotal) === 100) ||
+    (mode === 'grams' && gramsCalories > 0) ||
+    (mode === 'protein_per_kg' && gramsPerKg > 0 && gramsPerKg <= 4);
+
+  const handleSubmit = () => {
+    if (mode === 'goal') onSave(undefined, boost);
+    else if (mode === 'percent') onSave({ mode, ...percent }, boost);
+    else if (mode === 'grams') onSave({ mode, ...grams }, boost);
+    else onSave({ mode, gramsPerKg, basis }, boost);
+  };
+
+  const macroInputs = (values: MacroValues, setValues: (v: MacroValues) => void, unit: string) => (
+    <div className="grid grid-cols-3 gap-2">
+      {macroFields.map(({ key, label }) => (
+        <div key={key} className="space-y-1.5">
+          <Label className="text-xs">{label} ({unit})</Label>
+          <Input
+            type="number"
+            min={0}
+            value={values[key]}
+            onChange={e => setValues({ ...values, [key]: parseFloat(e.target.value) || 0 })}
+            className="bg-muted border-border"
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="bg-card border-border max-w-sm mx-auto max-h-[85vh] overflow-y-auto p-6">
+        <DialogHeader>
+          <DialogTitle>Macros y ciclado</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Cómo fijar tus macros</Label>
+            <Select value={mode} onValueChange={v => setMode(v as MacroMode)}>
+              <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(modeLabels) as MacroMode[]).map(m => (
+                  <SelectItem key={m} value={m}>{modeLabels[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === 'goal' && (
+            <p className="text-xs text-muted-foreground">El reparto se ajusta automáticamente a tu objetivo.</p>
+          )}
+
+          {mode === 'percent' && (
+            <>
+              {macroInputs(percent, setPercent, '%')}
+              <p className={`text-xs ${Math.round(percentTotal) === 100 ? 'text-muted-foreground' : 'text-destructive'}`}>
+                Total: {percentTotal}% (debe sumar 100%)
+              </p>
+            </>
+          )}
+
+          {mode === 'grams' && (
+            <>
+              {macroInputs(grams, setGrams, 'g')}
+              <p className="text-xs text-muted-foreground">
+                Suman {Math.round(gramsCalories)} kcal, que pasan a ser tu objetivo de calorías.
+              </p>
+            </>
+          )}
+
+          {mode === 'protein_per_kg' && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Proteína (g/kg)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={4}
+                    step="0.1"
+                    value={gramsPerKg}
+                    onChange={e => setGramsPerKg(parseFloat(e.target.value) || 0)}
+                    className="bg-muted border-border"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Por kg de</Label>
+                  <Select value={basis} onValueChange={v => setBasis(v as 'bodyweight' | 'lean_mass')}>
+                    <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="bodyweight">Peso corporal</SelectItem>
+                      <SelectItem value="lean_mass">Masa magra</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Las calorías restantes se reparten entre carbohidratos y grasas.
+                {basis === 'lean_mass' && ' La masa magra se calcula con tu último % de grasa corporal.'}
+              </p>
+            </>
+          )}
+
+          <div className="space-y-1.5 pt-2 border-t border-border">
+            <Label className="text-xs">Ciclado de calorías</Label>
+            <Select value={String(boost)} onValueChange={v => setBoost(parseInt(v))}>
+              <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {boostOptions.map(b => (
+                  <SelectItem key={b} value={String(b)}>
+                    {b === 0 ? 'Igual todos los días' : `+${b}% los días de entreno`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {boost > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Los días con entreno en el calendario comen más, sobre todo carbohidratos, y los de descanso menos.
+                El total de la semana no cambia.
+              </p>
+            )}
+          </div>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={!valid}
+            className="w-full gradient-training text-primary-foreground font-semibold rounded-xl"
+          >
+            <Save className="w-4 h-4 mr-2" /> Guardar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
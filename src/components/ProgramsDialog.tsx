@@ -0,0 +1,331 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Play, Square, Trash2 } from 'lucide-react';
+import { addWeeks, differenceInCalendarWeeks, format, parseISO, startOfWeek } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ProgramDay, TrainingProgram } from '@/types';
+import { generateId } from '@/lib/storage';
+import { findException } from '@/lib/recurrence';
+import { isDeloadWeek, programWorkouts } from '@/lib/programs';
+import { getErrorMessage } from '@/lib/errors';
+import { useAllWorkouts, useSaveWorkout, useDeleteWorkout, usePurgeWorkout } from '@/hooks/use-workouts';
+import { useWorkoutTemplates, useDeleteWorkoutTemplate } from '@/hooks/use-workout-templates';
+import { useTrainingPrograms, useSaveTrainingProgram, useDeleteTrainingProgram } from '@/hooks/use-training-programs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+// Monday first, like the week strip
+const weekdays = [
+  { value: 1, label: 'Lunes' },
+  { value: 2, label: 'Martes' },
+  { value: 3, label: 'Miércoles' },
+  { value: 4, label: 'Jueves' },
+  { value: 5, label: 'Viernes' },
+  { value: 6, label: 'Sábado' },
+  { value: 0, label: 'Domingo' },
+];
+
+const REST = 'rest';
+const START_WEEKS = 4; // how far ahead a program can be scheduled to start
+const deloadOptions = [0, 3, 4, 5, 6];
+const deloadPercents = [50, 60, 70, 80];
+
+function programStatus(program: TrainingProgram, today: Date): string {
+  const week = differenceInCalendarWeeks(today, parseISO(program.startDate), { weekStartsOn: 1 }) + 1;
+  if (week < 1) return `Empieza el ${format(parseISO(program.startDate), "d 'de' MMMM", { locale: es })}`;
+  if (week > program.weeks) return 'Terminado';
+  return `Semana ${week} de ${program.weeks}${isDeloadWeek(program, week) ? ' · descarga' : ''}`;
+}
+
+// Builds programs out of the user's templates, starts them and stops them
+export default function ProgramsDialog({
+  open, onClose, weight,
+}: {
+  open: boolean;
+  onClose: () => void;
+  weight: number; // kg, for the sessions' calorie estimates
+}) {
+  const templatesQuery = useWorkoutTemplates();
+  const programsQuery = useTrainingPrograms();
+  const historyQuery = useAllWorkouts();
+  const saveProgram = useSaveTrainingProgram();
+  const deleteProgram = useDeleteTrainingProgram();
+  const deleteTemplate = useDeleteWorkoutTemplate();
+  const saveWorkout = useSaveWorkout();
+  const deleteWorkout = useDeleteWorkout();
+  const purgeWorkout = usePurgeWorkout();
+  const templates = useMemo(() => templatesQuery.data ?? [], [templatesQuery.data]);
+  const programs = programsQuery.data ?? [];
+
+  const today = new Date();
+  const firstMonday = startOfWeek(today, { weekStartsOn: 1 });
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState(format(firstMonday, 'yyyy-MM-dd'));
+  const [weeks, setWeeks] = useState(8);
+  const [schedule, setSchedule] = useState<Record<number, string>>({});
+  const [weeklyIncrease, setWeeklyIncrease] = useState(2.5);
+  const [deloadEvery, setDeloadEvery] = useState(4);
+  const [deloadPercent, setDeloadPercent] = useState(60);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    setStartDate(format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd'));
+    setWeeks(8);
+    setSchedule({});
+    setWeeklyIncrease(2.5);
+    setDeloadEvery(4);
+    setDeloadPercent(60);
+  }, [open]);
+
+  const days: ProgramDay[] = weekdays
+    .filter(d => schedule[d.value] && schedule[d.value] !== REST)
+    .map(d => ({ weekday: d.value, templateId: schedule[d.value] }));
+
+  const program: TrainingProgram = {
+    id: '',
+    name: name.trim(),
+    startDate,
+    weeks,
+    days,
+    weeklyIncrease,
+    deloadEvery: deloadEvery || undefined,
+    deloadPercent,
+  };
+  const sessions = program.weeks > 0 ? programWorkouts(program, templates, weight) : [];
+  const validWeeks = weeks >= 1 && weeks <= 52;
+
+  // A program that couldn't be written whole is taken back out, along with
+  // the sessions already created, rather than left half scheduled
+  const undoStart = async (programId: string, sessionIds: string[]) => {
+    try {
+      for (const id of sessionIds) await purgeWorkout.mutateAsync(id);
+      await deleteProgram.mutateAsync(programId);
+    } catch (err) {
+      console.error('[undoStart]', err);
+    }
+  };
+
+  const handleStart = async () => {
+    const started = { ...program, id: generateId() };
+    const created: string[] = [];
+    setBusy(true);
+    try {
+      await saveProgram.mutateAsync(started);
+      for (const w of programWorkouts(started, templates, weight)) {
+        await saveWorkout.mutateAsync(w);
+        created.push(w.id);
+      }
+    } catch (err) {
+      console.error('[handleStart]', err);
+      toast.error(`No se pudo empezar el programa. ${getErrorMessage(err)}`);
+      await undoStart(started.id, created);
+      return;
+    } finally {
+      setBusy(false);
+    }
+    toast.success(`Programa «${started.name}» empezado: ${sessions.length} sesiones`);
+    onClose();
+  };
+
+  // Sessions already done or marked missed stay in the log; the rest go to
+  // the trash
+  const handleStop = async (stopped: TrainingProgram) => {
+    const todayStr = format(new Date(), 'yyyy-MM-dd');
+    const pending = (historyQuery.data ?? []).filter(w =>
+      w.programId === stopped.id && w.date >= todayStr && !findException(w, w.date)?.status
+    );
+    setBusy(true);
+    try {
+      for (const w of pending) await deleteWorkout.mutateAsync(w);
+      await deleteProgram.mutateAsync(stopped.id);
+      toast.success(`Programa detenido: ${pending.length} sesiones pendientes movidas a la papelera`);
+    } catch (err) {
+      console.error('[handleStop]', err);
+      toast.error(`No se pudo detener el programa. ${getErrorMessage(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    try {
+      await deleteTemplate.mutateAsync(id);
+    } catch (err) {
+      console.error('[handleDeleteTemplate]', err);
+      toast.error(`No se pudo eliminar la plantilla. ${getErrorMessage(err)}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="bg-card border-border max-w-sm mx-auto max-h-[85vh] overflow-y-auto p-6">
+        <DialogHeader>
+          <DialogTitle>Programas de entrenamiento</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5 mt-2">
+          {programs.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-xs">Tus programas</Label>
+              {programs.map(p => (
+                <div key={p.id} className="flex items-center justify-between gap-2 bg-muted/50 rounded-xl p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{p.name}</p>
+                    <p className="text-[10px] text-muted-foreground">{programStatus(p, today)}</p>
+                  </div>
+                  <Button
+                    onClick={() => handleStop(p)}
+                    disabled={busy || historyQuery.isLoading}
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl shrink-0"
+                  >
+                    <Square className="w-3.5 h-3.5 mr-1" /> Detener
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <Label className="text-xs">Nuevo programa</Label>
+            {templates.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Guarda un entrenamiento como plantilla desde su formulario para poder programarlo.
+              </p>
+            ) : (
+              <>
+                <Input
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  placeholder="Ej: Empuje / Tirón / Pierna"
+                  className="bg-muted border-border"
+                />
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Empieza</Label>
+                    <Select value={startDate} onValueChange={setStartDate}>
+                      <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: START_WEEKS }, (_, i) => addWeeks(firstMonday, i)).map(monday => (
+                          <SelectItem key={monday.toISOString()} value={format(monday, 'yyyy-MM-dd')}>
+                            {format(monday, "'Lun' d MMM", { locale: es })}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Semanas</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={52}
+                      value={weeks || ''}
+                      onChange={e => setWeeks(parseInt(e.target.value) || 0)}
+                      className="bg-muted border-border h-10 text-center"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-1.5">
+                  {weekdays.map(d => (
+                    <div key={d.value} className="grid grid-cols-[5.5rem_1fr] items-center gap-2">
+                      <span className="text-xs text-muted-foreground">{d.label}</span>
+                      <Select
+                        value={schedule[d.value] ?? REST}
+                        onValueChange={v => setSchedule(prev => ({ ...prev, [d.value]: v }))}
+                      >
+                        <SelectTrigger className="bg-muted border-border h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={REST}>Descanso</SelectItem>
+                          {templates.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Progresión (kg/sem.)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.5"
+                      value={weeklyIncrease}
+                      onChange={e => setWeeklyIncrease(Math.max(parseFloat(e.target.value) || 0, 0))}
+                      className="bg-muted border-border h-10 text-center"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Descarga</Label>
+                    <Select value={String(deloadEvery)} onValueChange={v => setDeloadEvery(Number(v))}>
+                      <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {deloadOptions.map(n => (
+                          <SelectItem key={n} value={String(n)}>{n ? `Cada ${n} semanas` : 'Sin descarga'}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {deloadEvery > 0 && (
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Carga en la semana de descarga</Label>
+                    <Select value={String(deloadPercent)} onValueChange={v => setDeloadPercent(Number(v))}>
+                      <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {deloadPercents.map(p => <SelectItem key={p} value={String(p)}>{p}%</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {sessions.length > 0 && validWeeks && (
+                  <p className="text-[10px] text-muted-foreground">
+                    {sessions.length} sesiones, del {format(parseISO(sessions[0].date), 'd MMM', { locale: es })} al{' '}
+                    {format(parseISO(sessions[sessions.length - 1].date), 'd MMM', { locale: es })}.
+                    {' '}Las cargas suben {weeklyIncrease} kg cada semana
+                    {deloadEvery > 0 && ` y bajan al ${deloadPercent}% cada ${deloadEvery} semanas`}.
+                  </p>
+                )}
+
+                <Button
+                  onClick={handleStart}
+                  disabled={!program.name || !days.length || !validWeeks || busy}
+                  className="w-full gradient-training text-primary-foreground font-semibold rounded-xl"
+                >
+                  <Play className="w-4 h-4 mr-2" /> Empezar programa
+                </Button>
+              </>
+            )}
+          </div>
+
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-xs">Plantillas</Label>
+              {templates.map(t => (
+                <div key={t.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{t.name}</span>
+                  <button
+                    onClick={() => handleDeleteTemplate(t.id)}
+                    className="p-1.5 rounded-lg hover:bg-muted text-muted-foreground hover:text-destructive"
+                    aria-label="Eliminar plantilla"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
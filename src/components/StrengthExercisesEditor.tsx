@@ -0,0 +1,125 @@
+import { Plus, Trash2, X } from 'lucide-react';
+import { StrengthExercise, StrengthSet } from '@/types';
+import { generateId } from '@/lib/storage';
+import { setsVolume } from '@/lib/strength';
+import { exerciseLibrary } from '@/lib/exercises';
+import { useCustomExercises } from '@/hooks/use-custom-exercises';
+import ExercisePicker from '@/components/ExercisePicker';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const newSet: StrengthSet = { reps: 10, weight: 0 };
+
+const setFields = [
+  { key: 'reps', label: 'Reps', step: '1' },
+  { key: 'weight', label: 'kg', step: '0.5' },
+  { key: 'rpe', label: 'RPE', step: '0.5' },
+  { key: 'rest', label: 'Desc. (s)', step: '15' },
+] as const;
+
+// Exercises of a gym session, each with its sets; the volume shown is the one
+// saved with the workout
+export default function StrengthExercisesEditor({
+  exercises, onChange,
+}: {
+  exercises: StrengthExercise[];
+  onChange: (exercises: StrengthExercise[]) => void;
+}) {
+  const { data: customExercises = [] } = useCustomExercises();
+  const library = exerciseLibrary(customExercises);
+
+  const updateExercise = (id: string, changes: Partial<StrengthExercise>) =>
+    onChange(exercises.map(e => e.id === id ? { ...e, ...changes } : e));
+
+  const updateSet = (exercise: StrengthExercise, index: number, key: keyof StrengthSet, value: string) => {
+    const parsed = parseFloat(value);
+    const optional = key === 'rpe' || key === 'rest';
+    const sets = exercise.sets.map((s, i) => i === index
+      ? { ...s, [key]: Number.isFinite(parsed) ? parsed : optional ? undefined : 0 }
+      : s);
+    updateExercise(exercise.id, { sets, volume: setsVolume(sets) });
+  };
+
+  // A new set repeats the last one, which is what usually comes next
+  const addSet = (exercise: StrengthExercise) => {
+    const sets = [...exercise.sets, { ...(exercise.sets[exercise.sets.length - 1] ?? newSet) }];
+    updateExercise(exercise.id, { sets, volume: setsVolume(sets) });
+  };
+
+  const removeSet = (exercise: StrengthExercise, index: number) => {
+    const sets = exercise.sets.filter((_, i) => i !== index);
+    updateExercise(exercise.id, { sets, volume: setsVolume(sets) });
+  };
+
+  const addExercise = () =>
+    onChange([...exercises, { id: generateId(), name: '', sets: [{ ...newSet }], volume: 0 }]);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Ejercicios</Label>
+      {exercises.map(exercise => (
+        <div key={exercise.id} className="bg-muted/50 rounded-xl p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <ExercisePicker
+              library={library}
+              value={exercise.name}
+              onPick={picked => updateExercise(exercise.id, { exerciseId: picked.id, name: picked.name })}
+            />
+            <button
+              onClick={() => onChange(exercises.filter(e => e.id !== exercise.id))}
+              className="p-1.5 rounded-lg hover:bg-muted text-muted-foreground hover:text-destructive"
+              aria-label="Quitar ejercicio"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-[1.25rem_repeat(4,1fr)_1.5rem] gap-1 items-center text-[10px] text-muted-foreground text-center">
+            <span>#</span>
+            {setFields.map(f => <span key={f.key}>{f.label}</span>)}
+            <span />
+            {exercise.sets.map((set, i) => (
+              <div key={i} className="contents">
+                <span>{i + 1}</span>
+                {setFields.map(f => (
+                  <Input
+                    key={f.key}
+                    type="number"
+                    min={0}
+                    step={f.step}
+                    value={set[f.key] ?? ''}
+                    onChange={e => updateSet(exercise, i, f.key, e.target.value)}
+                    className="bg-muted border-border h-7 text-xs px-1 text-center"
+                  />
+                ))}
+                <button
+                  onClick={() => removeSet(exercise, i)}
+                  className="p-1 rounded hover:bg-muted hover:text-destructive"
+                  aria-label="Quitar serie"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => addSet(exercise)}
+              className="flex items-center gap-1 text-[10px] text-primary hover:text-primary/80 font-medium"
+            >
+              <Plus className="w-3 h-3" /> Serie
+            </button>
+            <span className="text-[10px] text-muted-foreground">Volumen: {exercise.volume.toLocaleString()} kg</span>
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={addExercise}
+        className="w-full flex items-center justify-center gap-1 py-2 rounded-xl border border-dashed border-border text-xs text-muted-foreground hover:text-foreground"
+      >
+        <Plus className="w-3.5 h-3.5" /> Añadir ejercicio
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Gauge } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { MIN_INTAKE_DAYS, MIN_WEIGH_INS, MIN_WEIGHT_SPAN_DAYS, TDEE_WINDOW_DAYS } from '@/lib/tdee';
+import { useAdaptiveTdee } from '@/hooks/use-adaptive-tdee';
+import LoadError from '@/components/LoadError';
+
+interface TdeeCardProps {
+  formula: number; // kcal/day from the profile formula
+  adaptive: ReturnType<typeof useAdaptiveTdee>;
+}
+
+// Formula vs. data-driven maintenance calories, with the estimate's 95% band
+export default function TdeeCard({ formula, adaptive }: TdeeCardProps) {
+  const result = adaptive.data;
+  const estimate = result?.estimate;
+
+  // Scale of the band chart: both estimates and the band, with some margin
+  const scaleMin = estimate ? Math.min(estimate.low, formula) - 100 : 0;
+  const scaleMax = estimate ? Math.max(estimate.high, formula) + 100 : 1;
+  const position = (kcal: number) => `${((kcal - scaleMin) / (scaleMax - scaleMin)) * 100}%`;
+  const shortDate = (date: string) => format(parseISO(date), 'd MMM', { locale: es });
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+        <Gauge className="w-4 h-4" /> Gasto Energético
+      </h2>
+
+      {adaptive.error ? (
+        <LoadError error={adaptive.error} onRetry={adaptive.refetch} retrying={adaptive.isFetching} />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="bg-muted rounded-xl p-3 text-center">
+              <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Fórmula</p>
+              <p className="stat-number text-muted-foreground">{formula}</p>
+              <p className="text-[10px] text-muted-foreground">kcal/día</p>
+            </div>
+            <div className="bg-muted rounded-xl p-3 text-center">
+              <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Según tus datos</p>
+              <p className="stat-number text-primary">{estimate ? estimate.tdee : '—'}</p>
+              <p className="text-[10px] text-muted-foreground">
+                {estimate ? `${estimate.low}–${estimate.high} kcal` : 'kcal/día'}
+              </p>
+            </div>
+          </div>
+
+          {estimate && (
+            <div className="space-y-1.5">
+              <div className="relative h-3 rounded-full bg-muted">
+                <div
+                  className="absolute inset-y-0 rounded-full bg-primary/25"
+                  style={{ left: position(estimate.low), right: `calc(100% - ${position(estimate.high)})` }}
+                />
+                <div className="absolute inset-y-0 w-1 -ml-0.5 rounded-full bg-primary" style={{ left: position(estimate.tdee) }} />
+                <div className="absolute -inset-y-0.5 w-0.5 bg-muted-foreground" style={{ left: position(formula) }} />
+              </div>
+              <div className="flex justify-center gap-4">
+                <div className="flex items-center gap-1.5 text-[10px]">
+                  <div className="w-2.5 h-2.5 rounded-sm bg-primary/25" />
+                  <span className="text-muted-foreground">Rango probable (95%)</span>
+                </div>
+                <div className="flex items-center gap-1.5 text-[10px]">
+                  <div className="w-0.5 h-2.5 bg-muted-foreground" />
+                  <span className="text-muted-foreground">Fórmula</span>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <p className="text-[10px] text-muted-foreground">
+              {estimate
+                ? `Calculado con tus comidas y pesajes del ${shortDate(result.from)} al ${shortDate(result.to)}. Tus objetivos usan este valor y se actualizan cada lunes.`
+                : `Para estimarlo necesitamos ${MIN_INTAKE_DAYS} días con comidas registradas (llevas ${result.intakeDays}) y ${MIN_WEIGH_INS} pesajes repartidos en ${MIN_WEIGHT_SPAN_DAYS} días (llevas ${result.weighIns}) en las últimas ${TDEE_WINDOW_DAYS / 7} semanas. Mientras tanto tus objetivos usan la fórmula.`}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Trash2, RotateCcw, Dumbbell, UtensilsCrossed, Repeat } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Workout, Meal, ExerciseType, MealType } from '@/types';
+import { useDeletedWorkouts, useRestoreWorkout, usePurgeWorkout } from '@/hooks/use-workouts';
+import { useDeletedMeals, useRestoreMeal, usePurgeMeal } from '@/hooks/use-meals';
+import { getErrorMessage } from '@/lib/errors';
+import LoadError from '@/components/LoadError';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+
+const exerciseLabels: Record<ExerciseType, string> = {
+  gym: 'Gimnasio',
+  running: 'Correr',
+  cycling: 'Bicicleta',
+  yoga: 'Yoga',
+  swimming: 'Natación',
+  hiking: 'Senderismo',
+  other: 'Otro',
+};
+
+const mealTypeLabels: Record<MealType, string> = {
+  breakfast: 'Desayuno',
+  lunch: 'Almuerzo',
+  dinner: 'Cena',
+  snack: 'Snack',
+};
+
+type TrashItem =
+  | { kind: 'workout'; id: string; deletedAt: string; workout: Workout }
+  | { kind: 'meal'; id: string; deletedAt: string; meal: Meal };
+
+// Deleted meals and workouts, newest first, with restore and permanent delete
+export default function TrashCard() {
+  const workoutsQuery = useDeletedWorkouts();
+  const mealsQuery = useDeletedMeals();
+  const restoreWorkout = useRestoreWorkout();
+  const purgeWorkout = usePurgeWorkout();
+  const restoreMeal = useRestoreMeal();
+  const purgeMeal = usePurgeMeal();
+  // Items awaiting confirmation before being deleted for good
+  const [confirmPurge, setConfirmPurge] = useState<TrashItem[] | null>(null);
+
+  const items: TrashItem[] = [
+    ...(workoutsQuery.data ?? []).map(w => ({ kind: 'workout' as const, id: w.id, deletedAt: w.deletedAt ?? '', workout: w })),
+    ...(mealsQuery.data ?? []).map(m => ({ kind: 'meal' as const, id: m.id, deletedAt: m.deletedAt ?? '', meal: m })),
+  ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+  const loadError = workoutsQuery.error ?? mealsQuery.error;
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      if (item.kind === 'workout') await restoreWorkout.mutateAsync(item.workout);
+      else await restoreMeal.mutateAsync(item.meal);
+      toast.success(item.kind === 'workout' ? 'Entrenamiento restaurado' : 'Comida restaurada');
+    } catch (err) {
+      console.error('[handleRestore]', err);
+      toast.error(`No se pudo restaurar. ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handlePurge = async (toPurge: TrashItem[]) => {
+    setConfirmPurge(null);
+    try {
+      for (const item of toPurge) {
+        if (item.kind === 'workout') await purgeWorkout.mutateAsync(item.id);
+        else await purgeMeal.mutateAsync(item.id);
+      }
+      toast.success(toPurge.length === 1 ? 'Eliminado definitivamente' : 'Papelera vaciada');
+    } catch (err) {
+      console.error('[handlePurge]', err);
+      toast.error(`No se pudo eliminar. ${getErrorMessage(err)}`);
+    }
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+          <Trash2 className="w-4 h-4" /> Papelera
+        </h2>
+        {items.length > 0 && (
+          <button
+            onClick={() => setConfirmPurge(items)}
+            className="text-xs text-destructive hover:text-destructive/80 transition-colors font-medium"
+          >
+            Vaciar
+          </button>
+        )}
+      </div>
+
+      {loadError ? (
+        <LoadError
+          error={loadError}
+          onRetry={() => { workoutsQuery.refetch(); mealsQuery.refetch(); }}
+          retrying={workoutsQuery.isFetching || mealsQuery.isFetching}
+        />
+      ) : items.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-2">La papelera está vacía</p>
+      ) : (
+        <div className="space-y-2">
+          {items.map(item => (
+            <div key={item.id} className="bg-muted rounded-xl p-3 flex items-center gap-3">
+              {item.kind === 'workout'
+                ? <Dumbbell className="w-4 h-4 text-training shrink-0" />
+                : <UtensilsCrossed className="w-4 h-4 text-nutrition shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate flex items-center gap-1">
+                  {item.kind === 'workout' ? exerciseLabels[item.workout.exerciseType] : mealTypeLabels[item.meal.mealType]}
+                  {item.kind === 'workout' && item.workout.recurring && <Repeat className="w-3 h-3 text-muted-foreground" />}
+                </p>
+                <p className="text-[10px] text-muted-foreground">
+                  {format(parseISO(item.kind === 'workout' ? item.workout.date : item.meal.date), "d MMM yyyy", { locale: es })}
+                  {item.kind === 'workout' && item.workout.recurring && ' · serie recurrente'}
+                  {item.kind === 'meal' && ` · ${item.meal.totalCalories} kcal`}
+                </p>
+              </div>
+              <button onClick={() => handleRestore(item)} className="p-1.5 rounded hover:bg-background" aria-label="Restaurar">
+                <RotateCcw className="w-4 h-4 text-primary" />
+              </button>
+              <button onClick={() => setConfirmPurge([item])} className="p-1.5 rounded hover:bg-background" aria-label="Eliminar definitivamente">
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={!!confirmPurge} onOpenChange={open => !open && setConfirmPurge(null)}>
+        <AlertDialogContent className="glass-card border-border max-w-sm mx-auto">
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar definitivamente?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmPurge && confirmPurge.length > 1
+                ? `Se borrarán ${confirmPurge.length} elementos de la papelera. No se puede deshacer.`
+                : 'Este elemento se borrará para siempre. No se puede deshacer.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-xl">Cancelar</AlertDialogCancel>
+            <AlertDialogAction asChild>
+              <Button
+                onClick={() => confirmPurge && handlePurge(confirmPurge)}
+                className="rounded-xl bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Eliminar
+              </Button>
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -48,7 +48,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             await supabase.from('profiles').upsert({
                 id: newUser.id,
                 onboarding_complete: false,
-            } as any);
+            });
         }
 
         return { error: null };
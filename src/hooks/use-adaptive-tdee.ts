@@ -0,0 +1,35 @@
+import { useMemo } from "react";
+import { format, startOfWeek, subDays } from "date-fns";
+import { estimateAdaptiveTdee, TDEE_WINDOW_DAYS } from "@/lib/tdee";
+import { useMeals } from "@/hooks/use-meals";
+import { useBodyMetrics } from "@/hooks/use-body-metrics";
+
+/**
+ * Adaptive maintenance estimate in effect on `date`. It's recalculated once
+ * a week, from the window ending the Sunday before, so targets don't shift
+ * from one day to the next as meals are logged.
+ */
+export function useAdaptiveTdee(date: Date) {
+  const to = subDays(startOfWeek(date, { weekStartsOn: 1 }), 1);
+  const toStr = format(to, "yyyy-MM-dd");
+  const fromStr = format(subDays(to, TDEE_WINDOW_DAYS - 1), "yyyy-MM-dd");
+
+  const mealsQuery = useMeals(fromStr, toStr);
+  const bodyMetricsQuery = useBodyMetrics();
+  const ready = !!mealsQuery.data && !mealsQuery.isPlaceholderData && !!bodyMetricsQuery.data;
+
+  const data = useMemo(
+    () => (ready ? estimateAdaptiveTdee(mealsQuery.data!, bodyMetricsQuery.data!, toStr) : undefined),
+    [ready, mealsQuery.data, bodyMetricsQuery.data, toStr]
+  );
+
+  return {
+    data,
+    error: mealsQuery.error ?? bodyMetricsQuery.error,
+    isFetching: mealsQuery.isFetching || bodyMetricsQuery.isFetching,
+    refetch: () => {
+      mealsQuery.refetch();
+      bodyMetricsQuery.refetch();
+    },
+  };
+}
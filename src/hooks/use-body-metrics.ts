@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BodyMetricEntry } from "@/types";
+import { getBodyMetrics, saveBodyMetric, deleteBodyMetric } from "@/lib/storage";
+import { QuerySnapshot, updateQueries, restoreQueries, upsertByDate, removeById } from "@/lib/optimistic";
+import { useAuth } from "@/contexts/AuthContext";
+
+// The whole log is small enough to load at once: ["body_metrics", userId]
+
+/** Every body-metrics entry of the user, newest first. */
+export function useBodyMetrics() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["body_metrics", user?.id],
+    queryFn: () => getBodyMetrics(user!.id),
+    enabled: !!user,
+  });
+}
+
+export function useSaveBodyMetric() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["body_metrics", user?.id];
+
+  return useMutation<void, Error, BodyMetricEntry, QuerySnapshot<BodyMetricEntry[]>>({
+    mutationFn: (entry) => saveBodyMetric(user!.id, entry),
+    onMutate: (entry) => updateQueries<BodyMetricEntry[]>(queryClient, queryKey, (entries) => upsertByDate(entries, entry, true)),
+    onError: (_error, _entry, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
+
+export function useDeleteBodyMetric() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["body_metrics", user?.id];
+
+  return useMutation<void, Error, string, QuerySnapshot<BodyMetricEntry[]>>({
+    mutationFn: (id) => deleteBodyMetric(id),
+    onMutate: (id) => updateQueries<BodyMetricEntry[]>(queryClient, queryKey, (entries) => removeById(entries, id)),
+    onError: (_error, _id, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
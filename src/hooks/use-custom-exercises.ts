@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { LibraryExercise } from "@/types";
+import { getCustomExercises, saveCustomExercise } from "@/lib/storage";
+import { QuerySnapshot, updateQueries, restoreQueries, removeById } from "@/lib/optimistic";
+import { useAuth } from "@/contexts/AuthContext";
+
+// The user's own exercises, loaded all at once: ["custom_exercises", userId]
+
+/** The user's custom exercises, alphabetically. */
+export function useCustomExercises() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["custom_exercises", user?.id],
+    queryFn: () => getCustomExercises(user!.id),
+    enabled: !!user,
+  });
+}
+
+export function useSaveCustomExercise() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["custom_exercises", user?.id];
+
+  return useMutation<void, Error, LibraryExercise, QuerySnapshot<LibraryExercise[]>>({
+    mutationFn: (exercise) => saveCustomExercise(user!.id, exercise),
+    onMutate: (exercise) => updateQueries<LibraryExercise[]>(queryClient, queryKey, (exercises) =>
+      [...removeById(exercises, exercise.id), exercise].sort((a, b) => a.name.localeCompare(b.name, "es"))
+    ),
+    onError: (_error, _exercise, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
@@ -0,0 +1,89 @@
+import { QueryClient, keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Meal } from "@/types";
+import { getMealsInRange, getDeletedMeals, saveMeal, deleteMeal, restoreMeal, purgeMeal } from "@/lib/storage";
+import { QuerySnapshot, updateQueries, restoreQueries, upsertByDate, removeById } from "@/lib/optimistic";
+import { useAuth } from "@/contexts/AuthContext";
+
+// Cached per user: ["meals", userId, "range", from, to] for each loaded date
+// range and ["meals", userId, "deleted"] for the trash.
+
+/** Meals logged between `from` and `to` (YYYY-MM-DD, inclusive). */
+export function useMeals(from: string, to: string) {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["meals", user?.id, "range", from, to],
+    queryFn: () => getMealsInRange(user!.id, from, to),
+    enabled: !!user,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useDeletedMeals() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["meals", user?.id, "deleted"],
+    queryFn: () => getDeletedMeals(user!.id),
+    enabled: !!user,
+  });
+}
+
+// Put `meal` into every loaded range it belongs to (and out of the others)
+function updateRanges(queryClient: QueryClient, userId: string | undefined, meal: Meal) {
+  return updateQueries<Meal[]>(queryClient, ["meals", userId, "range"], (meals, [, , , from, to]) =>
+    upsertByDate(meals, meal, !meal.deletedAt && meal.date >= String(from) && meal.date <= String(to))
+  );
+}
+
+export function useSaveMeal() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, Meal, QuerySnapshot<Meal[]>>({
+    mutationFn: (meal) => saveMeal(user!.id, meal),
+    onMutate: (meal) => updateRanges(queryClient, user?.id, meal),
+    onError: (_error, _meal, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["meals", user?.id] }),
+  });
+}
+
+/** Moves a meal to the trash. */
+export function useDeleteMeal() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, Meal, QuerySnapshot<Meal[]>>({
+    mutationFn: (meal) => deleteMeal(user!.id, meal),
+    onMutate: (meal) =>
+      updateQueries<Meal[]>(queryClient, ["meals", user?.id, "range"], (meals) => removeById(meals, meal.id)),
+    onError: (_error, _meal, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["meals", user?.id] }),
+  });
+}
+
+export function useRestoreMeal() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, Meal, QuerySnapshot<Meal[]>>({
+    mutationFn: (meal) => restoreMeal(user!.id, meal),
+    onMutate: async (meal) => [
+      ...(await updateRanges(queryClient, user?.id, { ...meal, deletedAt: undefined })),
+      ...(await updateQueries<Meal[]>(queryClient, ["meals", user?.id, "deleted"], (meals) => removeById(meals, meal.id))),
+    ],
+    onError: (_error, _meal, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["meals", user?.id] }),
+  });
+}
+
+/** Permanently deletes a meal from the trash. */
+export function usePurgeMeal() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string, QuerySnapshot<Meal[]>>({
+    mutationFn: (id) => purgeMeal(id),
+    onMutate: (id) => updateQueries<Meal[]>(queryClient, ["meals", user?.id, "deleted"], (meals) => removeById(meals, id)),
+    onError: (_error, _id, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["meals", user?.id] }),
+  });
+}
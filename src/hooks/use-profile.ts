@@ -0,0 +1,33 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { UserProfile } from "@/types";
+import { getProfile, saveProfile } from "@/lib/storage";
+import { useAuth } from "@/contexts/AuthContext";
+
+export function useProfile() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["profiles", user?.id],
+    queryFn: () => getProfile(user!.id),
+    enabled: !!user,
+  });
+}
+
+export function useSaveProfile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["profiles", user?.id];
+
+  return useMutation({
+    mutationFn: (profile: UserProfile) => saveProfile(user!.id, profile),
+    onMutate: async (profile) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<UserProfile | null>(queryKey);
+      queryClient.setQueryData(queryKey, profile);
+      return { previous };
+    },
+    onError: (_error, _profile, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
@@ -0,0 +1,10 @@
+import * as React from "react";
+import { SyncStatus, getSyncStatus, subscribeSyncStatus } from "@/lib/sync";
+
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = React.useState<SyncStatus>(getSyncStatus);
+
+  React.useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  return status;
+}
@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { TrainingProgram } from "@/types";
+import { getTrainingPrograms, saveTrainingProgram, deleteTrainingProgram } from "@/lib/storage";
+import { QuerySnapshot, updateQueries, restoreQueries, removeById } from "@/lib/optimistic";
+import { useAuth } from "@/contexts/AuthContext";
+
+// All of the user's programs at once: ["training_programs", userId]. The
+// sessions a program generates are ordinary workouts.
+
+/** The user's training programs, latest start first. */
+export function useTrainingPrograms() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["training_programs", user?.id],
+    queryFn: () => getTrainingPrograms(user!.id),
+    enabled: !!user,
+  });
+}
+
+export function useSaveTrainingProgram() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["training_programs", user?.id];
+
+  return useMutation<void, Error, TrainingProgram, QuerySnapshot<TrainingProgram[]>>({
+    mutationFn: (program) => saveTrainingProgram(user!.id, program),
+    onMutate: (program) => updateQueries<TrainingProgram[]>(queryClient, queryKey, (programs) =>
+      [...removeById(programs, program.id), program].sort((a, b) => b.startDate.localeCompare(a.startDate))
+    ),
+    onError: (_error, _program, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
+
+export function useDeleteTrainingProgram() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["training_programs", user?.id];
+
+  return useMutation<void, Error, string, QuerySnapshot<TrainingProgram[]>>({
+    mutationFn: (id) => deleteTrainingProgram(id),
+    onMutate: (id) => updateQueries<TrainingProgram[]>(queryClient, queryKey, (programs) => removeById(programs, id)),
+    onError: (_error, _id, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { getVersions } from "@/lib/storage";
+import { SyncedTable } from "@/lib/localdb";
+
+/** Edit history of a profile (by user id), workout or meal; loads while `recordId` is set. */
+export function useVersions<T extends SyncedTable>(table: T, recordId: string | null) {
+  return useQuery({
+    queryKey: ["versions", table, recordId],
+    queryFn: () => getVersions(table, recordId!),
+    enabled: !!recordId,
+  });
+}
@@ -0,0 +1,45 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { WorkoutTemplate } from "@/types";
+import { getWorkoutTemplates, saveWorkoutTemplate, deleteWorkoutTemplate } from "@/lib/storage";
+import { QuerySnapshot, updateQueries, restoreQueries, removeById } from "@/lib/optimistic";
+import { useAuth } from "@/contexts/AuthContext";
+
+// A handful of templates per user, loaded all at once: ["workout_templates", userId]
+
+/** The user's workout templates, alphabetically. */
+export function useWorkoutTemplates() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["workout_templates", user?.id],
+    queryFn: () => getWorkoutTemplates(user!.id),
+    enabled: !!user,
+  });
+}
+
+export function useSaveWorkoutTemplate() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["workout_templates", user?.id];
+
+  return useMutation<void, Error, WorkoutTemplate, QuerySnapshot<WorkoutTemplate[]>>({
+    mutationFn: (template) => saveWorkoutTemplate(user!.id, template),
+    onMutate: (template) => updateQueries<WorkoutTemplate[]>(queryClient, queryKey, (templates) =>
+      [...removeById(templates, template.id), template].sort((a, b) => a.name.localeCompare(b.name, "es"))
+    ),
+    onError: (_error, _template, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
+
+export function useDeleteWorkoutTemplate() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["workout_templates", user?.id];
+
+  return useMutation<void, Error, string, QuerySnapshot<WorkoutTemplate[]>>({
+    mutationFn: (id) => deleteWorkoutTemplate(id),
+    onMutate: (id) => updateQueries<WorkoutTemplate[]>(queryClient, queryKey, (templates) => removeById(templates, id)),
+    onError: (_error, _id, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
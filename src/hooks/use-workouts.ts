@@ -0,0 +1,117 @@
+import { QueryClient, keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Workout } from "@/types";
+import {
+  getWorkouts, getWorkoutsInRange, getDeletedWorkouts, saveWorkout, deleteWorkout, restoreWorkout, purgeWorkout,
+} from "@/lib/storage";
+import { isWorkoutInRange } from "@/lib/recurrence";
+import { QuerySnapshot, updateQueries, restoreQueries, upsertByDate, removeById } from "@/lib/optimistic";
+import { useAuth } from "@/contexts/AuthContext";
+
+// Cached per user: ["workouts", userId, "range", from, to] for each loaded
+// date range, ["workouts", userId, "all"] for the whole history and
+// ["workouts", userId, "deleted"] for the trash.
+
+/** Workouts that can have an occurrence between `from` and `to` (YYYY-MM-DD, inclusive). */
+export function useWorkouts(from: string, to: string) {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["workouts", user?.id, "range", from, to],
+    queryFn: () => getWorkoutsInRange(user!.id, from, to),
+    enabled: !!user,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Every workout, for records and other all-time stats. */
+export function useAllWorkouts() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["workouts", user?.id, "all"],
+    queryFn: () => getWorkouts(user!.id),
+    enabled: !!user,
+  });
+}
+
+/**
+ * Loads every workout when called, through the same cache as useAllWorkouts,
+ * for screens that need the history only now and then (not on mount).
+ */
+export function useLoadAllWorkouts() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return () => queryClient.fetchQuery({
+    queryKey: ["workouts", user?.id, "all"],
+    queryFn: () => getWorkouts(user!.id),
+  });
+}
+
+export function useDeletedWorkouts() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["workouts", user?.id, "deleted"],
+    queryFn: () => getDeletedWorkouts(user!.id),
+    enabled: !!user,
+  });
+}
+
+// Put `workout` into every loaded range it belongs to (and out of the others)
+function updateRanges(queryClient: QueryClient, userId: string | undefined, workout: Workout) {
+  return updateQueries<Workout[]>(queryClient, ["workouts", userId, "range"], (workouts, [, , , from, to]) =>
+    upsertByDate(workouts, workout, !workout.deletedAt && isWorkoutInRange(workout, String(from), String(to)))
+  );
+}
+
+export function useSaveWorkout() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, Workout, QuerySnapshot<Workout[]>>({
+    mutationFn: (workout) => saveWorkout(user!.id, workout),
+    onMutate: (workout) => updateRanges(queryClient, user?.id, workout),
+    onError: (_error, _workout, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["workouts", user?.id] }),
+  });
+}
+
+/** Moves a workout (a whole series, for recurring ones) to the trash. */
+export function useDeleteWorkout() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, Workout, QuerySnapshot<Workout[]>>({
+    mutationFn: (workout) => deleteWorkout(user!.id, workout),
+    onMutate: (workout) =>
+      updateQueries<Workout[]>(queryClient, ["workouts", user?.id, "range"], (workouts) => removeById(workouts, workout.id)),
+    onError: (_error, _workout, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["workouts", user?.id] }),
+  });
+}
+
+export function useRestoreWorkout() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, Workout, QuerySnapshot<Workout[]>>({
+    mutationFn: (workout) => restoreWorkout(user!.id, workout),
+    onMutate: async (workout) => [
+      ...(await updateRanges(queryClient, user?.id, { ...workout, deletedAt: undefined })),
+      ...(await updateQueries<Workout[]>(queryClient, ["workouts", user?.id, "deleted"], (workouts) => removeById(workouts, workout.id))),
+    ],
+    onError: (_error, _workout, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["workouts", user?.id] }),
+  });
+}
+
+/** Permanently deletes a workout from the trash. */
+export function usePurgeWorkout() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string, QuerySnapshot<Workout[]>>({
+    mutationFn: (id) => purgeWorkout(id),
+    onMutate: (id) =>
+      updateQueries<Workout[]>(queryClient, ["workouts", user?.id, "deleted"], (workouts) => removeById(workouts, id)),
+    onError: (_error, _id, previous) => restoreQueries(queryClient, previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["workouts", user?.id] }),
+  });
+}
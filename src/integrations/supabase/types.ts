@@ -14,7 +14,411 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      body_metrics: {
+        Row: {
+          arms: number | null
+          body_fat: number | null
+          chest: number | null
+          created_at: string
+          date: string
+          hips: number | null
+          id: string
+          updated_at: string
+          user_id: string
+          waist: number | null
+          weight: number | null
+        }
+        Insert: {
+          arms?: number | null
+          body_fat?: number | null
+          chest?: number | null
+          created_at?: string
+          date: string
+          hips?: number | null
+          id?: string
+          updated_at?: string
+          user_id: string
+          waist?: number | null
+          weight?: number | null
+        }
+        Update: {
+          arms?: number | null
+          body_fat?: number | null
+          chest?: number | null
+          created_at?: string
+          date?: string
+          hips?: number | null
+          id?: string
+          updated_at?: string
+          user_id?: string
+          waist?: number | null
+          weight?: number | null
+        }
+        Relationships: []
+      }
+      custom_exercises: {
+        Row: {
+          created_at: string
+          equipment: string
+          id: string
+          name: string
+          primary_muscles: string[]
+          secondary_muscles: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          equipment?: string
+          id?: string
+          name: string
+          primary_muscles?: string[]
+          secondary_muscles?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          equipment?: string
+          id?: string
+          name?: string
+          primary_muscles?: string[]
+          secondary_muscles?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      meals: {
+        Row: {
+          created_at: string
+          date: string
+          deleted_at: string | null
+          foods: Json
+          id: string
+          image_url: string | null
+          meal_type: string
+          notes: string | null
+          time: string | null
+          total_calories: number
+          total_carbs: number
+          total_fat: number
+          total_protein: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          deleted_at?: string | null
+          foods?: Json
+          id?: string
+          image_url?: string | null
+          meal_type?: string
+          notes?: string | null
+          time?: string | null
+          total_calories?: number
+          total_carbs?: number
+          total_fat?: number
+          total_protein?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          deleted_at?: string | null
+          foods?: Json
+          id?: string
+          image_url?: string | null
+          meal_type?: string
+          notes?: string | null
+          time?: string | null
+          total_calories?: number
+          total_carbs?: number
+          total_fat?: number
+          total_protein?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          activity_level: string | null
+          age: number | null
+          bmr_formula: string
+          created_at: string
+          exercise_eat_back: number
+          goal: string | null
+          height: number | null
+          id: string
+          macros: Json | null
+          max_heart_rate: number | null
+          name: string | null
+          onboarding_complete: boolean
+          resting_heart_rate: number | null
+          sex: string | null
+          target_date: string | null
+          target_weight: number | null
+          training_day_boost: number
+          updated_at: string
+          weight: number | null
+        }
+        Insert: {
+          activity_level?: string | null
+          age?: number | null
+          bmr_formula?: string
+          created_at?: string
+          exercise_eat_back?: number
+          goal?: string | null
+          height?: number | null
+          id: string
+          macros?: Json | null
+          max_heart_rate?: number | null
+          name?: string | null
+          onboarding_complete?: boolean
+          resting_heart_rate?: number | null
+          sex?: string | null
+          target_date?: string | null
+          target_weight?: number | null
+          training_day_boost?: number
+          updated_at?: string
+          weight?: number | null
+        }
+        Update: {
+          activity_level?: string | null
+          age?: number | null
+          bmr_formula?: string
+          created_at?: string
+          exercise_eat_back?: number
+          goal?: string | null
+          height?: number | null
+          id?: string
+          macros?: Json | null
+          max_heart_rate?: number | null
+          name?: string | null
+          onboarding_complete?: boolean
+          resting_heart_rate?: number | null
+          sex?: string | null
+          target_date?: string | null
+          target_weight?: number | null
+          training_day_boost?: number
+          updated_at?: string
+          weight?: number | null
+        }
+        Relationships: []
+      }
+      record_versions: {
+        Row: {
+          changed_at: string
+          changed_fields: string[]
+          data: Json
+          id: string
+          operation: string
+          record_id: string
+          table_name: string
+          user_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_fields?: string[]
+          data: Json
+          id?: string
+          operation: string
+          record_id: string
+          table_name: string
+          user_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_fields?: string[]
+          data?: Json
+          id?: string
+          operation?: string
+          record_id?: string
+          table_name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      training_programs: {
+        Row: {
+          created_at: string
+          days: Json
+          deload_every: number | null
+          deload_percent: number
+          id: string
+          name: string
+          start_date: string
+          updated_at: string
+          user_id: string
+          weekly_increase: number
+          weeks: number
+        }
+        Insert: {
+          created_at?: string
+          days?: Json
+          deload_every?: number | null
+          deload_percent?: number
+          id?: string
+          name: string
+          start_date: string
+          updated_at?: string
+          user_id: string
+          weekly_increase?: number
+          weeks: number
+        }
+        Update: {
+          created_at?: string
+          days?: Json
+          deload_every?: number | null
+          deload_percent?: number
+          id?: string
+          name?: string
+          start_date?: string
+          updated_at?: string
+          user_id?: string
+          weekly_increase?: number
+          weeks?: number
+        }
+        Relationships: []
+      }
+      workouts: {
+        Row: {
+          avg_heart_rate: number | null
+          calories_burned: number
+          created_at: string
+          date: string
+          deleted_at: string | null
+          distance: number | null
+          duration: number
+          elevation_gain: number | null
+          exceptions: Json
+          exercise_type: string
+          exercises: Json
+          id: string
+          intensity: string
+          max_heart_rate: number | null
+          notes: string | null
+          program_id: string | null
+          recurrence_days: number[] | null
+          recurrence_end: string | null
+          recurrence_interval: number | null
+          recurrence_month_day: number | null
+          recurrence_monthly_mode: string | null
+          recurrence_type: string | null
+          recurrence_week_of_month: number | null
+          recurrence_weekday: number | null
+          recurring: boolean
+          time: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avg_heart_rate?: number | null
+          calories_burned?: number
+          created_at?: string
+          date: string
+          deleted_at?: string | null
+          distance?: number | null
+          duration?: number
+          elevation_gain?: number | null
+          exceptions?: Json
+          exercise_type?: string
+          exercises?: Json
+          id?: string
+          intensity?: string
+          max_heart_rate?: number | null
+          notes?: string | null
+          program_id?: string | null
+          recurrence_days?: number[] | null
+          recurrence_end?: string | null
+          recurrence_interval?: number | null
+          recurrence_month_day?: number | null
+          recurrence_monthly_mode?: string | null
+          recurrence_type?: string | null
+          recurrence_week_of_month?: number | null
+          recurrence_weekday?: number | null
+          recurring?: boolean
+          time?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avg_heart_rate?: number | null
+          calories_burned?: number
+          created_at?: string
+          date?: string
+          deleted_at?: string | null
+          distance?: number | null
+          duration?: number
+          elevation_gain?: number | null
+          exceptions?: Json
+          exercise_type?: string
+          exercises?: Json
+          id?: string
+          intensity?: string
+          max_heart_rate?: number | null
+          notes?: string | null
+          program_id?: string | null
+          recurrence_days?: number[] | null
+          recurrence_end?: string | null
+          recurrence_interval?: number | null
+          recurrence_month_day?: number | null
+          recurrence_monthly_mode?: string | null
+          recurrence_type?: string | null
+          recurrence_week_of_month?: number | null
+          recurrence_weekday?: number | null
+          recurring?: boolean
+          time?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      workout_templates: {
+        Row: {
+          created_at: string
+          duration: number
+          exercise_type: string
+          exercises: Json
+          id: string
+          intensity: string
+          name: string
+          notes: string | null
+          time: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          duration?: number
+          exercise_type?: string
+          exercises?: Json
+          id?: string
+          intensity?: string
+          name: string
+          notes?: string | null
+          time?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          duration?: number
+          exercise_type?: string
+          exercises?: Json
+          id?: string
+          intensity?: string
+          name?: string
+          notes?: string | null
+          time?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,37 @@
+import { BmrFormula, UserProfile } from '@/types';
+
+// Basal metabolic rate formulas. The lean-mass ones (Katch-McArdle,
+// Cunningham) suit lean and muscular people better but need a body-fat %;
+// without one they fall back to Mifflin-St Jeor.
+
+export const LEAN_MASS_FORMULAS: BmrFormula[] = ['katch_mcardle', 'cunningham'];
+
+export interface BmrResult {
+  bmr: number; // kcal/day
+  formula: BmrFormula; // the one actually used
+}
+
+/** BMR for the profile's chosen formula; `bodyFat` is a percentage. */
+export function calculateBmr(profile: UserProfile, bodyFat?: number): BmrResult {
+  const { weight, height, age, sex } = profile;
+  const formula = LEAN_MASS_FORMULAS.includes(profile.bmrFormula) && bodyFat === undefined ? 'mifflin' : profile.bmrFormula;
+  const leanMass = weight * (1 - (bodyFat ?? 0) / 100);
+
+  let bmr: number;
+  switch (formula) {
+    case 'harris_benedict': // revised by Roza and Shizgal, 1984
+      bmr = sex === 'male'
+        ? 88.362 + 13.397 * weight + 4.799 * height - 5.677 * age
+        : 447.593 + 9.247 * weight + 3.098 * height - 4.330 * age;
+      break;
+    case 'katch_mcardle':
+      bmr = 370 + 21.6 * leanMass;
+      break;
+    case 'cunningham':
+      bmr = 500 + 22 * leanMass;
+      break;
+    default:
+      bmr = 10 * weight + 6.25 * height - 5 * age + (sex === 'male' ? 5 : -161);
+  }
+  return { bmr: Math.round(bmr), formula };
+}
@@ -0,0 +1,89 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { BodyMetricEntry, BodyMetricField } from '@/types';
+
+// Calculations over the body-metrics log. Entries can arrive in any order and
+// any measurement may be missing, so each helper only looks at the entries
+// that have the measurement it needs.
+
+export interface WeightTrend {
+  slope: number; // kg per day
+  standardError: number; // of the slope
+  weighIns: number;
+  spanDays: number; // first to last weigh-in
+}
+
+export interface TrendPoint {
+  date: string; // YYYY-MM-DD
+  value: number; // as logged
+  trend: number; // moving average up to and including this day
+}
+
+// Entries that have `field`, oldest first
+function entriesWith(entries: BodyMetricEntry[], field: BodyMetricField): BodyMetricEntry[] {
+  return entries
+    .filter(e => e[field] !== undefined)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Value of `field` that was current on `date` (YYYY-MM-DD): the last one
+ * logged on or before that day. Days before the first measurement use the
+ * earliest one; undefined when it has never been logged.
+ */
+export function metricOnDate(entries: BodyMetricEntry[], field: BodyMetricField, date: string): number | undefined {
+  const logged = entriesWith(entries, field);
+  let value = logged[0]?.[field];
+  for (const entry of logged) {
+    if (entry.date > date) break;
+    value = entry[field];
+  }
+  return value;
+}
+
+/** Weight current on `date`, or `fallback` (the profile weight) if none was logged. */
+export function weightOnDate(entries: BodyMetricEntry[], date: string, fallback: number): number {
+  return metricOnDate(entries, 'weight', date) ?? fallback;
+}
+
+/**
+ * Logged values of `field`, oldest first, each with the average of the values
+ * logged in the `windowDays` days ending on its date. The average smooths out
+ * day-to-day swings (water, meals) so the underlying trend is visible.
+ */
+export function movingAverage(entries: BodyMetricEntry[], field: BodyMetricField, windowDays = 7): TrendPoint[] {
+  const logged = entriesWith(entries, field);
+  return logged.map((entry, i) => {
+    const day = parseISO(entry.date);
+    const window = logged
+      .slice(0, i + 1)
+      .filter(e => differenceInCalendarDays(day, parseISO(e.date)) < windowDays);
+    const average = window.reduce((sum, e) => sum + e[field]!, 0) / window.length;
+    return { date: entry.date, value: entry[field]!, trend: Math.round(average * 10) / 10 };
+  });
+}
+
+/**
+ * Least-squares trend of the weights logged between `from` and `to`
+ * (YYYY-MM-DD, inclusive), or null with fewer than three weigh-ins.
+ */
+export function weightTrend(entries: BodyMetricEntry[], from: string, to: string): WeightTrend | null {
+  const start = parseISO(from);
+  const points = entriesWith(entries, 'weight')
+    .filter(e => e.date >= from && e.date <= to)
+    .map(e => ({ x: differenceInCalendarDays(parseISO(e.date), start), y: e.weight! }));
+  const n = points.length;
+  if (n < 3) return null;
+
+  const meanX = points.reduce((s, p) => s + p.x, 0) / n;
+  const meanY = points.reduce((s, p) => s + p.y, 0) / n;
+  const sxx = points.reduce((s, p) => s + (p.x - meanX) ** 2, 0);
+  const slope = points.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+  const intercept = meanY - slope * meanX;
+  const residuals = points.reduce((s, p) => s + (p.y - (intercept + slope * p.x)) ** 2, 0);
+  return {
+    slope,
+    standardError: Math.sqrt(residuals / (n - 2) / sxx),
+    weighIns: n,
+    spanDays: points[n - 1].x - points[0].x,
+  };
+}
@@ -0,0 +1,109 @@
+import { addWeeks, format, parseISO, startOfWeek } from 'date-fns';
+import { ExerciseType, WorkoutOccurrence } from '@/types';
+
+// Distance-based workouts: speed and pace, calories from speed rather than a
+// rough intensity, and weekly distance totals.
+
+export type DistanceSport = Extract<ExerciseType, 'running' | 'cycling' | 'swimming' | 'hiking'>;
+
+export const DISTANCE_SPORTS: DistanceSport[] = ['running', 'cycling', 'swimming', 'hiking'];
+
+export function isDistanceSport(type: ExerciseType): type is DistanceSport {
+  return (DISTANCE_SPORTS as ExerciseType[]).includes(type);
+}
+
+// Speed (km/h) → MET, from the Compendium of Physical Activities (Ainsworth
+// et al. 2011). Speeds in between are interpolated.
+const speedMets: Record<DistanceSport, [number, number][]> = {
+  running: [
+    [6.4, 6.0], [8.0, 8.3], [8.4, 9.0], [9.7, 9.8], [10.8, 10.5], [11.3, 11.0], [12.1, 11.5],
+    [12.9, 11.8], [13.8, 12.3], [14.5, 12.8], [16.1, 14.5], [17.7, 16.0], [19.3, 19.0], [22.5, 23.0],
+  ],
+  cycling: [[12, 4.0], [17.7, 6.8], [20.9, 8.0], [24.1, 10.0], [28.2, 12.0], [32.2, 15.8]],
+  swimming: [[1.8, 4.8], [2.7, 5.8], [4.1, 9.8]],
+  hiking: [[3.2, 2.8], [4.0, 3.0], [4.8, 3.5], [5.6, 4.3], [6.4, 5.0], [7.2, 7.0], [8.0, 8.3]],
+};
+
+// Share of the energy spent climbing that becomes height
+const CLIMB_EFFICIENCY = 0.25;
+
+export function speedKmh(distance: number, duration: number): number {
+  return duration > 0 ? distance / (duration / 60) : 0;
+}
+
+/** MET for moving at `speed` km/h, clamped to the ends of the table. */
+export function speedMet(sport: DistanceSport, speed: number): number {
+  const table = speedMets[sport];
+  if (speed <= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    const [s1, m1] = table[i];
+    if (speed <= s1) {
+      const [s0, m0] = table[i - 1];
+      return m0 + ((m1 - m0) * (speed - s0)) / (s1 - s0);
+    }
+  }
+  return table[table.length - 1][1];
+}
+
+/** Extra calories for climbing `elevationGain` metres on top of the flat cost. */
+export function climbCalories(weight: number, elevationGain: number): number {
+  return (weight * 9.81 * elevationGain) / 4184 / CLIMB_EFFICIENCY;
+}
+
+/**
+ * Pace in the unit each sport uses: minutes per km for running and hiking,
+ * minutes per 100 m for swimming, km/h for cycling.
+ */
+export function paceValue(sport: DistanceSport, distance: number, duration: number): number {
+  if (sport === 'cycling') return speedKmh(distance, duration);
+  return sport === 'swimming' ? duration / (distance * 10) : duration / distance;
+}
+
+export const paceUnits: Record<DistanceSport, string> = {
+  running: 'min/km',
+  cycling: 'km/h',
+  swimming: 'min/100 m',
+  hiking: 'min/km',
+};
+
+/** Minutes as m:ss. */
+export function formatMinutes(minutes: number): string {
+  const total = Math.round(minutes * 60);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+export function formatPace(sport: DistanceSport, value: number): string {
+  return `${sport === 'cycling' ? value.toFixed(1) : formatMinutes(value)} ${paceUnits[sport]}`;
+}
+
+export interface WeeklyDistance {
+  weekStart: string; // YYYY-MM-DD, Monday
+  distance: number; // km
+  pace: number | null; // over the whole week's distance; null without any
+}
+
+/**
+ * Distance and pace of `sport` for `weeks` weeks starting on the week of
+ * `from`. Only completed sessions with a distance count.
+ */
+export function weeklyDistance(
+  occurrences: WorkoutOccurrence[], sport: DistanceSport, from: Date, weeks: number
+): WeeklyDistance[] {
+  const firstWeek = startOfWeek(from, { weekStartsOn: 1 });
+  const result: WeeklyDistance[] = [];
+  for (let i = 0; i < weeks; i++) {
+    const weekStart = format(addWeeks(firstWeek, i), 'yyyy-MM-dd');
+    const weekEnd = format(addWeeks(parseISO(weekStart), 1), 'yyyy-MM-dd');
+    const sessions = occurrences.filter(o =>
+      o.exerciseType === sport && o.status === 'completed' && o.distance && o.date >= weekStart && o.date < weekEnd
+    );
+    const distance = sessions.reduce((s, o) => s + o.distance!, 0);
+    const duration = sessions.reduce((s, o) => s + o.duration, 0);
+    result.push({
+      weekStart,
+      distance: Math.round(distance * 10) / 10,
+      pace: distance > 0 ? paceValue(sport, distance, duration) : null,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,42 @@
+import { endOfWeek, format, startOfWeek } from 'date-fns';
+import { DailyTargets, Workout } from '@/types';
+import { expandOccurrences } from '@/lib/recurrence';
+
+// Calorie and carb cycling: training days get more calories, rest days fewer,
+// and the week adds up to the same total as seven equal days. Protein and fat
+// stay the same every day; only carbs move.
+
+export interface WeekTraining {
+  trainingDay: boolean; // the date has a workout scheduled
+  trainingDays: number; // days with a workout in its Monday–Sunday week
+}
+
+/** Which days of `date`'s week have workouts, as planned in the calendar. */
+export function getWeekTraining(workouts: Workout[], date: Date): WeekTraining {
+  const days = new Set(
+    expandOccurrences(workouts, startOfWeek(date, { weekStartsOn: 1 }), endOfWeek(date, { weekStartsOn: 1 })).map(o => o.date)
+  );
+  return { trainingDay: days.has(format(date, 'yyyy-MM-dd')), trainingDays: days.size };
+}
+
+/**
+ * Targets for one day of a cycled week. Training days get `boostPct` % more
+ * calories than `base` and rest days give the difference back, but never
+ * drop below `minCalories` (the boost shrinks instead).
+ */
+export function cycleTargets(base: DailyTargets, week: WeekTraining, boostPct: number, minCalories: number): DailyTargets {
+  const { trainingDays } = week;
+  if (boostPct <= 0 || trainingDays === 0 || trainingDays === 7) return base;
+
+  const weekly = base.calories * 7;
+  const restDays = 7 - trainingDays;
+  const rest = Math.max(
+    (weekly - trainingDays * base.calories * (1 + boostPct / 100)) / restDays,
+    Math.min(base.calories, minCalories)
+  );
+  const training = (weekly - restDays * rest) / trainingDays;
+
+  const calories = Math.round(week.trainingDay ? training : rest);
+  const carbs = Math.max(Math.round(base.carbs + (calories - base.calories) / 4), 0);
+  return { ...base, calories, carbs };
+}
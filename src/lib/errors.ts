@@ -0,0 +1,54 @@
+// Errors raised by the storage layer. Reads and writes throw a StorageError
+// instead of returning empty data, so screens can tell "nothing saved" apart
+// from "couldn't load" and offer a retry.
+
+export type StorageErrorKind =
+  | 'offline'      // no connection and nothing cached yet
+  | 'network'      // the request didn't reach Supabase
+  | 'unauthorized' // session expired or row-level security rejected it
+  | 'rejected'     // Supabase refused the request (constraint, bad data…)
+  | 'local';       // the on-device cache (IndexedDB) failed
+
+const messages: Record<StorageErrorKind, string> = {
+  offline: 'Sin conexión. Conéctate para cargar tus datos.',
+  network: 'No se pudo conectar con el servidor.',
+  unauthorized: 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+  rejected: 'El servidor rechazó los datos.',
+  local: 'No se pudo acceder al almacenamiento del dispositivo.',
+};
+
+export class StorageError extends Error {
+  readonly kind: StorageErrorKind;
+  readonly cause: unknown;
+
+  constructor(kind: StorageErrorKind, cause?: unknown) {
+    super(messages[kind]);
+    this.name = 'StorageError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+
+  /** Whether trying again later may succeed without the user changing anything. */
+  get retryable(): boolean {
+    return this.kind === 'offline' || this.kind === 'network' || this.kind === 'local';
+  }
+}
+
+/** Classify a Supabase, fetch or IndexedDB failure. */
+export function toStorageError(error: unknown): StorageError {
+  if (error instanceof StorageError) return error;
+  if (typeof DOMException !== 'undefined' && error instanceof DOMException) return new StorageError('local', error);
+
+  const { message = '', code = '' } = (error ?? {}) as { message?: string; code?: string };
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return new StorageError('offline', error);
+  if (/failed to fetch|network|load failed/i.test(message)) return new StorageError('network', error);
+  if (code === '42501' || code === 'PGRST301' || /jwt|permission denied/i.test(message)) {
+    return new StorageError('unauthorized', error);
+  }
+  return new StorageError('rejected', error);
+}
+
+/** Message to show the user for any error thrown while loading or saving. */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof StorageError ? error.message : 'Ha ocurrido un error inesperado.';
+}
@@ -0,0 +1,139 @@
+import { endOfWeek, startOfWeek } from 'date-fns';
+import { Equipment, LibraryExercise, MuscleGroup, Workout } from '@/types';
+import { expandOccurrences } from '@/lib/recurrence';
+
+// Exercise catalogue: the built-in lifts and movements plus the user's own,
+// and the weekly training volume each muscle group gets from them.
+
+export const muscleGroupLabels: Record<MuscleGroup, string> = {
+  chest: 'Pecho',
+  back: 'Espalda',
+  shoulders: 'Hombros',
+  biceps: 'Bíceps',
+  triceps: 'Tríceps',
+  forearms: 'Antebrazos',
+  abs: 'Abdomen',
+  quads: 'Cuádriceps',
+  hamstrings: 'Isquiotibiales',
+  glutes: 'Glúteos',
+  calves: 'Gemelos',
+};
+
+export const equipmentLabels: Record<Equipment, string> = {
+  barbell: 'Barra',
+  dumbbell: 'Mancuernas',
+  machine: 'Máquina',
+  cable: 'Polea',
+  bodyweight: 'Peso corporal',
+  kettlebell: 'Kettlebell',
+  band: 'Banda elástica',
+  other: 'Otro',
+};
+
+const exercise = (
+  id: string, name: string, equipment: Equipment, primaryMuscles: MuscleGroup[], secondaryMuscles: MuscleGroup[] = []
+): LibraryExercise => ({ id, name, equipment, primaryMuscles, secondaryMuscles });
+
+// Ids are stored with logged exercises, so they must never change
+export const BUILT_IN_EXERCISES: LibraryExercise[] = [
+  // Legs
+  exercise('squat', 'Sentadilla', 'barbell', ['quads', 'glutes'], ['hamstrings', 'abs']),
+  exercise('front_squat', 'Sentadilla frontal', 'barbell', ['quads'], ['glutes', 'abs']),
+  exercise('goblet_squat', 'Sentadilla goblet', 'dumbbell', ['quads'], ['glutes']),
+  exercise('leg_press', 'Prensa de piernas', 'machine', ['quads'], ['glutes', 'hamstrings']),
+  exercise('lunge', 'Zancadas', 'dumbbell', ['quads', 'glutes'], ['hamstrings']),
+  exercise('bulgarian_split_squat', 'Sentadilla búlgara', 'dumbbell', ['quads', 'glutes'], ['hamstrings']),
+  exercise('leg_extension', 'Extensión de cuádriceps', 'machine', ['quads']),
+  exercise('deadlift', 'Peso muerto', 'barbell', ['hamstrings', 'glutes', 'back'], ['quads', 'forearms']),
+  exercise('romanian_deadlift', 'Peso muerto rumano', 'barbell', ['hamstrings', 'glutes'], ['back']),
+  exercise('hip_thrust', 'Hip thrust', 'barbell', ['glutes'], ['hamstrings']),
+  exercise('leg_curl', 'Curl femoral', 'machine', ['hamstrings'], ['calves']),
+  exercise('calf_raise', 'Elevación de gemelos', 'machine', ['calves']),
+  exercise('kettlebell_swing', 'Swing con kettlebell', 'kettlebell', ['glutes', 'hamstrings'], ['back', 'shoulders']),
+  // Chest
+  exercise('bench_press', 'Press de banca', 'barbell', ['chest'], ['triceps', 'shoulders']),
+  exercise('incline_bench_press', 'Press inclinado', 'barbell', ['chest'], ['shoulders', 'triceps']),
+  exercise('dumbbell_bench_press', 'Press de banca con mancuernas', 'dumbbell', ['chest'], ['triceps', 'shoulders']),
+  exercise('dumbbell_fly', 'Aperturas con mancuernas', 'dumbbell', ['chest'], ['shoulders']),
+  exercise('cable_crossover', 'Cruce de poleas', 'cable', ['chest'], ['shoulders']),
+  exercise('push_up', 'Flexiones', 'bodyweight', ['chest'], ['triceps', 'shoulders', 'abs']),
+  exercise('dip', 'Fondos en paralelas', 'bodyweight', ['chest', 'triceps'], ['shoulders']),
+  // Shoulders
+  exercise('overhead_press', 'Press militar', 'barbell', ['shoulders'], ['triceps']),
+  exercise('dumbbell_shoulder_press', 'Press de hombros con mancuernas', 'dumbbell', ['shoulders'], ['triceps']),
+  exercise('lateral_raise', 'Elevaciones laterales', 'dumbbell', ['shoulders']),
+  exercise('face_pull', 'Face pull', 'cable', ['shoulders'], ['back']),
+  // Back
+  exercise('pull_up', 'Dominadas', 'bodyweight', ['back'], ['biceps', 'forearms']),
+  exercise('chin_up', 'Dominadas supinas', 'bodyweight', ['back', 'biceps'], ['forearms']),
+  exercise('lat_pulldown', 'Jalón al pecho', 'cable', ['back'], ['biceps']),
+  exercise('barbell_row', 'Remo con barra', 'barbell', ['back'], ['biceps', 'shoulders']),
+  exercise('dumbbell_row', 'Remo con mancuerna', 'dumbbell', ['back'], ['biceps']),
+  exercise('seated_cable_row', 'Remo en polea baja', 'cable', ['back'], ['biceps']),
+  // Arms
+  exercise('barbell_curl', 'Curl con barra', 'barbell', ['biceps'], ['forearms']),
+  exercise('dumbbell_curl', 'Curl con mancuernas', 'dumbbell', ['biceps'], ['forearms']),
+  exercise('hammer_curl', 'Curl martillo', 'dumbbell', ['biceps', 'forearms']),
+  exercise('triceps_pushdown', 'Extensión de tríceps en polea', 'cable', ['triceps']),
+  exercise('skull_crusher', 'Press francés', 'barbell', ['triceps']),
+  exercise('overhead_triceps_extension', 'Extensión de tríceps sobre la cabeza', 'dumbbell', ['triceps']),
+  exercise('wrist_curl', 'Curl de muñeca', 'dumbbell', ['forearms']),
+  // Core
+  exercise('plank', 'Plancha', 'bodyweight', ['abs'], ['shoulders']),
+  exercise('crunch', 'Crunch abdominal', 'bodyweight', ['abs']),
+  exercise('hanging_leg_raise', 'Elevación de piernas colgado', 'bodyweight', ['abs'], ['forearms']),
+  exercise('cable_crunch', 'Crunch en polea', 'cable', ['abs']),
+];
+
+/** Built-in and custom exercises, alphabetically. */
+export function exerciseLibrary(custom: LibraryExercise[]): LibraryExercise[] {
+  return [...BUILT_IN_EXERCISES, ...custom].sort((a, b) => a.name.localeCompare(b.name, 'es'));
+}
+
+// Lowercase without accents, so "biceps" finds "Bíceps"
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+/** Exercises whose name, muscle groups or equipment contain every word of `query`. */
+export function searchExercises(library: LibraryExercise[], query: string): LibraryExercise[] {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (!words.length) return library;
+  return library.filter(e => {
+    const text = normalize([
+      e.name,
+      equipmentLabels[e.equipment],
+      ...[...e.primaryMuscles, ...e.secondaryMuscles].map(m => muscleGroupLabels[m]),
+    ].join(' '));
+    return words.every(w => text.includes(w));
+  });
+}
+
+// A set counts fully for the muscles an exercise targets and half for the
+// ones that assist
+const SECONDARY_SET_WEIGHT = 0.5;
+
+/**
+ * Sets per muscle group in the completed sessions of `date`'s week. Logged
+ * exercises not linked to the library can't be attributed and are skipped.
+ */
+export function weeklySetsByMuscle(
+  workouts: Workout[], library: LibraryExercise[], date: Date
+): Partial<Record<MuscleGroup, number>> {
+  const byId = new Map(library.map(e => [e.id, e]));
+  const sessions = expandOccurrences(
+    workouts, startOfWeek(date, { weekStartsOn: 1 }), endOfWeek(date, { weekStartsOn: 1 })
+  ).filter(o => o.status === 'completed');
+
+  const sets: Partial<Record<MuscleGroup, number>> = {};
+  const add = (muscle: MuscleGroup, count: number) => { sets[muscle] = (sets[muscle] ?? 0) + count; };
+  for (const session of sessions) {
+    for (const logged of session.exercises ?? []) {
+      const entry = logged.exerciseId ? byId.get(logged.exerciseId) : undefined;
+      if (!entry) continue;
+      entry.primaryMuscles.forEach(m => add(m, logged.sets.length));
+      entry.secondaryMuscles.forEach(m => add(m, logged.sets.length * SECONDARY_SET_WEIGHT));
+    }
+  }
+  return sets;
+}
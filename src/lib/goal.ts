@@ -0,0 +1,147 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { BodyMetricEntry, UserProfile } from '@/types';
+import { movingAverage, weightOnDate, weightTrend } from '@/lib/bodyMetrics';
+import { KCAL_PER_KG } from '@/lib/tdee';
+
+// Goal weight planning: the daily deficit or surplus needed to reach the
+// profile's target weight (by its deadline, if any), and how the logged
+// weight trend compares with that plan.
+
+// Fastest safe weekly change, as a fraction of bodyweight
+export const MAX_WEEKLY_LOSS = 0.01;
+export const MAX_WEEKLY_GAIN = 0.005;
+// Rate used when no deadline is set
+const DEFAULT_WEEKLY_LOSS = 0.005;
+const DEFAULT_WEEKLY_GAIN = 0.0025;
+
+// Targets never go below these, whatever the goal
+export const MIN_DAILY_CALORIES: Record<UserProfile['sex'], number> = { male: 1500, female: 1200 };
+
+// Closer than this to the target counts as reached
+const TARGET_TOLERANCE_KG = 0.5;
+
+// Weeks of weigh-ins used for the current trend
+const TREND_WINDOW_DAYS = 28;
+// The projection chart doesn't look further ahead than this
+const MAX_PROJECTION_DAYS = 365;
+
+// Fixed adjustments used before target weights existed
+const legacyAdjustments: Record<UserProfile['goal'], number> = { lose_fat: -400, gain_muscle: 300, maintain: 0 };
+
+export interface GoalPlan {
+  weeklyChange: number; // kg/week, negative when losing
+  dailyAdjustment: number; // kcal/day added to maintenance
+  clamped: boolean; // the deadline needed an unsafe rate, so it was limited
+}
+
+/**
+ * Plan on `date` (YYYY-MM-DD) for the profile's weight on that day. Without a
+ * target weight, the goal's fixed adjustment is used.
+ */
+export function planGoal(profile: UserProfile, date: string): GoalPlan {
+  if (profile.targetWeight === undefined) {
+    const dailyAdjustment = legacyAdjustments[profile.goal];
+    return { weeklyChange: (dailyAdjustment * 7) / KCAL_PER_KG, dailyAdjustment, clamped: false };
+  }
+
+  const remaining = profile.targetWeight - profile.weight;
+  if (Math.abs(remaining) < TARGET_TOLERANCE_KG) return { weeklyChange: 0, dailyAdjustment: 0, clamped: false };
+
+  const losing = remaining < 0;
+  const daysLeft = profile.targetDate ? differenceInCalendarDays(parseISO(profile.targetDate), parseISO(date)) : 0;
+  let weeklyChange = daysLeft > 0
+    ? (remaining / daysLeft) * 7
+    : (losing ? -DEFAULT_WEEKLY_LOSS : DEFAULT_WEEKLY_GAIN) * profile.weight;
+
+  const maxChange = (losing ? MAX_WEEKLY_LOSS : MAX_WEEKLY_GAIN) * profile.weight;
+  const clamped = Math.abs(weeklyChange) > maxChange;
+  if (clamped) weeklyChange = Math.sign(weeklyChange) * maxChange;
+
+  return { weeklyChange, dailyAdjustment: Math.round((weeklyChange * KCAL_PER_KG) / 7), clamped };
+}
+
+// The goal that matches heading from `weight` to `targetWeight`
+export function goalForTarget(weight: number, targetWeight: number): UserProfile['goal'] {
+  if (Math.abs(targetWeight - weight) < TARGET_TOLERANCE_KG) return 'maintain';
+  return targetWeight < weight ? 'lose_fat' : 'gain_muscle';
+}
+
+export type GoalProgress = 'on_track' | 'behind' | 'ahead' | 'off_course';
+
+export interface GoalProjection {
+  currentWeight: number; // smoothed, as of today
+  weeklyPlan: number; // kg/week the plan asks for from here
+  weeklyTrend: number | null; // kg/week over the last weeks; null without enough weigh-ins
+  plannedDate: string | null; // when the plan reaches the target
+  expectedDate: string | null; // when the current trend reaches it; null if it doesn't within a year
+  progress: GoalProgress | null; // trend vs. plan; null without a trend
+  series: { date: string; actual?: number; plan?: number; projection?: number }[];
+}
+
+/**
+ * Where the weight is heading compared with the plan, with a chart series
+ * of the smoothed log, the planned path and the trend extrapolated forward.
+ * Only meaningful when the profile has a target weight.
+ */
+export function projectGoal(profile: UserProfile, entries: BodyMetricEntry[], today: string): GoalProjection {
+  const target = profile.targetWeight ?? profile.weight;
+  const logged = movingAverage(entries, 'weight');
+  const currentWeight = logged.length ? logged[logged.length - 1].trend : weightOnDate(entries, today, profile.weight);
+  const plan = planGoal({ ...profile, weight: currentWeight }, today);
+
+  const trendFrom = format(addDays(parseISO(today), -(TREND_WINDOW_DAYS - 1)), 'yyyy-MM-dd');
+  const trend = weightTrend(entries, trendFrom, today);
+  const weeklyTrend = trend && trend.spanDays >= 7 ? trend.slope * 7 : null;
+
+  const remaining = target - currentWeight;
+  const daysToReach = (weeklyChange: number | null) => {
+    if (Math.abs(remaining) < TARGET_TOLERANCE_KG) return 0;
+    if (!weeklyChange || Math.sign(weeklyChange) !== Math.sign(remaining)) return null;
+    const days = Math.ceil((remaining / weeklyChange) * 7);
+    return days <= MAX_PROJECTION_DAYS ? days : null;
+  };
+  const plannedDays = daysToReach(plan.weeklyChange);
+  const expectedDays = daysToReach(weeklyTrend);
+  const dateIn = (days: number | null) => days === null ? null : format(addDays(parseISO(today), days), 'yyyy-MM-dd');
+
+  // Chart: the log since the trend window, then weekly points until both lines arrive
+  const horizon = Math.min(Math.max(plannedDays ?? 0, expectedDays ?? 0, 28), MAX_PROJECTION_DAYS);
+  const pathAt = (weeklyChange: number, days: number) => {
+    const weight = currentWeight + (weeklyChange / 7) * days;
+    return Math.round((remaining < 0 ? Math.max(weight, target) : Math.min(weight, target)) * 10) / 10;
+  };
+  const series: GoalProjection['series'] = logged
+    .filter(p => p.date >= trendFrom && p.date < today)
+    .map(p => ({ date: p.date, actual: p.trend }));
+  const offsets: number[] = [];
+  for (let days = 0; days < horizon; days += 7) offsets.push(days);
+  offsets.push(horizon);
+  for (const days of offsets) {
+    series.push({
+      date: dateIn(days)!,
+      actual: days === 0 ? currentWeight : undefined,
+      plan: pathAt(plan.weeklyChange, days),
+      projection: weeklyTrend !== null ? pathAt(weeklyTrend, days) : undefined,
+    });
+  }
+
+  return {
+    currentWeight,
+    weeklyPlan: plan.weeklyChange,
+    weeklyTrend,
+    plannedDate: dateIn(plannedDays),
+    expectedDate: dateIn(expectedDays),
+    progress: weeklyTrend === null ? null : compareWithPlan(weeklyTrend, plan.weeklyChange),
+    series,
+  };
+}
+
+function compareWithPlan(weeklyTrend: number, weeklyPlan: number): GoalProgress {
+  // Maintaining: anything beyond a quarter kilo a week is drifting
+  if (weeklyPlan === 0) return Math.abs(weeklyTrend) > 0.25 ? 'off_course' : 'on_track';
+  if (Math.sign(weeklyTrend) !== Math.sign(weeklyPlan) && Math.abs(weeklyTrend) > 0.1) return 'off_course';
+  const ratio = weeklyTrend / weeklyPlan;
+  if (ratio < 0.5) return 'behind';
+  if (ratio > 1.5) return 'ahead';
+  return 'on_track';
+}
@@ -0,0 +1,89 @@
+import { UserProfile, Workout } from '@/types';
+import { estimateCaloriesBurned } from '@/lib/storage';
+
+// Workout calories from heart rate. Heart rate follows the actual effort of
+// the session, so when it was recorded it replaces the MET table, which only
+// knows the exercise type and a rough intensity.
+
+// Used when the profile has no resting heart rate
+const DEFAULT_RESTING_HEART_RATE = 60;
+
+// Plausible readings, the same bounds the database checks
+export const HEART_RATE_LIMITS = {
+  workout: { min: 30, max: 240 },
+  resting: { min: 30, max: 120 },
+  max: { min: 100, max: 240 },
+} as const;
+
+/** Whether an optional reading is unset or within `limits`. */
+export function heartRateInRange(value: number | undefined, limits: { min: number; max: number }): boolean {
+  return value === undefined || (value >= limits.min && value <= limits.max);
+}
+
+export type CalorieMethod = 'heart_rate' | 'met';
+
+export interface CalorieEstimate {
+  calories: number;
+  method: CalorieMethod;
+}
+
+/** Age-predicted maximum heart rate (Tanaka, Monahan & Seals 2001). */
+export function estimatedMaxHeartRate(age: number): number {
+  return Math.round(208 - 0.7 * age);
+}
+
+/** The profile's resting and maximum heart rate, estimated where not set. */
+export function heartRateRange(profile: UserProfile): { resting: number; max: number } {
+  return {
+    resting: profile.restingHeartRate ?? DEFAULT_RESTING_HEART_RATE,
+    max: profile.maxHeartRate ?? estimatedMaxHeartRate(profile.age),
+  };
+}
+
+/**
+ * Share of the heart rate reserve (Karvonen) that `heartRate` uses: 0 at
+ * rest, 1 at maximum.
+ */
+export function heartRateReserve(heartRate: number, profile: UserProfile): number {
+  const { resting, max } = heartRateRange(profile);
+  return (heartRate - resting) / (max - resting);
+}
+
+/**
+ * Calories from the session's average heart rate with the Keytel et al. (2005)
+ * equations, which use age, sex and weight. Null when the heart rate is not
+ * above resting or exceeds the maximum, since the equations don't hold there.
+ */
+export function caloriesFromHeartRate(
+  avgHeartRate: number, duration: number, profile: UserProfile, weight: number
+): number | null {
+  const reserve = heartRateReserve(avgHeartRate, profile);
+  if (!(reserve > 0 && reserve <= 1)) return null;
+
+  const kjPerMinute = profile.sex === 'male'
+    ? -55.0969 + 0.6309 * avgHeartRate + 0.1988 * weight + 0.2017 * profile.age
+    : -20.4022 + 0.4472 * avgHeartRate - 0.1263 * weight + 0.074 * profile.age;
+  return Math.max(Math.round((kjPerMinute / 4.184) * duration), 0);
+}
+
+/**
+ * Best estimate for a workout: from heart rate when it was recorded and
+ * usable, otherwise from METs (by speed when the distance is known).
+ */
+export function estimateWorkoutCalories(
+  workout: Pick<Workout, 'exerciseType' | 'duration' | 'intensity' | 'avgHeartRate' | 'distance' | 'elevationGain'>,
+  profile: UserProfile,
+  weight: number
+): CalorieEstimate {
+  const fromHeartRate = workout.avgHeartRate
+    ? caloriesFromHeartRate(workout.avgHeartRate, workout.duration, profile, weight)
+    : null;
+  return fromHeartRate !== null
+    ? { calories: fromHeartRate, method: 'heart_rate' }
+    : {
+      calories: estimateCaloriesBurned(
+        workout.exerciseType, workout.duration, workout.intensity, weight, workout.distance, workout.elevationGain
+      ),
+      method: 'met',
+    };
+}
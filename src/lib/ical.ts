@@ -0,0 +1,466 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { ExerciseType, Intensity, Workout, WorkoutException } from '@/types';
+import { estimateCaloriesBurned, generateId } from '@/lib/storage';
+import { isRecurringWorkout, isWorkoutOnDate } from '@/lib/recurrence';
+
+const PRODID = '-//Balance Daily//Training//ES';
+const UID_DOMAIN = 'balance-daily';
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const EXERCISE_TYPES: ExerciseType[] = ['gym', 'running', 'cycling', 'yoga', 'swimming', 'hiking', 'other'];
+
+const summaryLabels: Record<ExerciseType, string> = {
+  gym: 'Gimnasio',
+  running: 'Correr',
+  cycling: 'Bicicleta',
+  yoga: 'Yoga',
+  swimming: 'Natación',
+  hiking: 'Senderismo',
+  other: 'Entrenamiento',
+};
+
+// ─── Export ───
+
+/**
+ * Serialise workouts as an iCalendar (RFC 5545) document. Recurrence maps to
+ * RRULE, skipped occurrences to EXDATE, and moved or overridden occurrences
+ * to extra VEVENTs with a RECURRENCE-ID.
+ */
+export function exportWorkoutsToICS(workouts: Workout[]): string {
+  const stamp = format(new Date(), "yyyyMMdd'T'HHmmss");
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+
+  for (const workout of workouts) {
+    lines.push(...eventLines(workout, workout.date, workout, stamp));
+
+    if (!isRecurringWorkout(workout)) continue;
+    for (const exception of workout.exceptions ?? []) {
+      if (exception.skipped || !hasOverride(exception)) continue;
+      lines.push(...eventLines(workout, exception.date, applyOverride(workout, exception), stamp));
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function eventLines(series: Workout, occurrenceDate: string, workout: Workout, stamp: string): string[] {
+  const isOverride = workout !== series;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${series.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${toICSDateTime(workout.date, workout.time)}`,
+    `DURATION:PT${workout.duration}M`,
+    `SUMMARY:${escapeText(summaryLabels[workout.exerciseType] ?? summaryLabels.other)}`,
+    `X-BALANCE-EXERCISE-TYPE:${workout.exerciseType}`,
+    `X-BALANCE-INTENSITY:${workout.intensity}`,
+    `X-BALANCE-CALORIES:${workout.caloriesBurned}`,
+  ];
+  if (workout.notes) lines.push(`DESCRIPTION:${escapeText(workout.notes)}`);
+
+  if (isOverride) {
+    lines.push(`RECURRENCE-ID:${toICSDateTime(occurrenceDate, series.time)}`);
+  } else if (isRecurringWorkout(series)) {
+    lines.push(`RRULE:${buildRRule(series)}`);
+    const skipped = (series.exceptions ?? []).filter(e => e.skipped);
+    if (skipped.length > 0) {
+      lines.push(`EXDATE:${skipped.map(e => toICSDateTime(e.date, series.time)).join(',')}`);
+    }
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function buildRRule(workout: Workout): string {
+  const parts: string[] = [];
+  switch (workout.recurrenceType) {
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'custom':
+      parts.push('FREQ=DAILY', `INTERVAL=${workout.recurrenceInterval ?? 1}`);
+      break;
+    case 'weekly': {
+      const days = workout.recurrenceDays?.length ? workout.recurrenceDays : [parseISO(workout.date).getDay()];
+      parts.push('FREQ=WEEKLY', `BYDAY=${days.map(d => WEEKDAYS[d]).join(',')}`);
+      break;
+    }
+    case 'monthly': {
+      const start = parseISO(workout.date);
+      parts.push('FREQ=MONTHLY');
+      if (workout.recurrenceMonthlyMode === 'nth_weekday') {
+        const week = workout.recurrenceWeekOfMonth ?? Math.ceil(start.getDate() / 7);
+        parts.push(`BYDAY=${week}${WEEKDAYS[workout.recurrenceWeekday ?? start.getDay()]}`);
+      } else {
+        parts.push(`BYMONTHDAY=${workout.recurrenceMonthDay ?? start.getDate()}`);
+      }
+      break;
+    }
+  }
+  if (workout.recurrenceEnd) parts.push(`UNTIL=${toICSDateTime(workout.recurrenceEnd, '23:59')}`);
+  return parts.join(';');
+}
+
+function hasOverride(exception: WorkoutException): boolean {
+  return [exception.movedTo, exception.time, exception.duration, exception.intensity, exception.caloriesBurned]
+    .some(v => v !== undefined);
+}
+
+function applyOverride(workout: Workout, exception: WorkoutException): Workout {
+  return {
+    ...workout,
+    date: exception.movedTo ?? exception.date,
+    time: exception.time ?? workout.time,
+    duration: exception.duration ?? workout.duration,
+    intensity: exception.intensity ?? workout.intensity,
+    caloriesBurned: exception.caloriesBurned ?? workout.caloriesBurned,
+  };
+}
+
+function toICSDateTime(date: string, time: string): string {
+  const [h = '00', m = '00'] = (time || '00:00').split(':');
+  return `${date.replace(/-/g, '')}T${h.padStart(2, '0')}${m.padStart(2, '0')}00`;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 characters are folded onto continuation lines
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+  const chunks = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) chunks.push(' ' + line.slice(i, i + 74));
+  return chunks.join('\r\n');
+}
+
+// ─── Import ───
+
+export interface ICSImportResult {
+  workouts: Workout[];
+  warnings: string[];
+}
+
+interface ICSProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document into workouts. Anything that
+ * can't be represented (unsupported RRULE parts, RDATE, ...) is reported in
+ * `warnings` rather than dropped silently. `weightOn` gives the user's weight
+ * on a date, for estimating calories of events that don't carry them.
+ */
+export function parseICS(text: string, weightOn: (date: string) => number): ICSImportResult {
+  const warnings: string[] = [];
+  const events = readEvents(text);
+  const masters = new Map<string, Workout>();
+  const overrides: { uid: string; props: ICSProperty[] }[] = [];
+
+  for (const props of events) {
+    const uid = getProp(props, 'UID')?.value ?? generateId();
+    if (getProp(props, 'RECURRENCE-ID')) {
+      overrides.push({ uid, props });
+      continue;
+    }
+    const workout = eventToWorkout(props, uid, weightOn, warnings);
+    if (workout) masters.set(uid, workout);
+  }
+
+  for (const { uid, props } of overrides) {
+    const master = masters.get(uid);
+    const label = eventLabel(props);
+    const recurrenceId = parseDateTime(getProp(props, 'RECURRENCE-ID')!);
+    const occurrence = eventToWorkout(props, generateId(), weightOn, warnings);
+    if (!occurrence || !recurrenceId) continue;
+
+    if (!master) {
+      warnings.push(`"${label}": excepción sin evento recurrente, se importa como sesión suelta`);
+      masters.set(occurrence.id, occurrence);
+      continue;
+    }
+
+    const exceptions = (master.exceptions ?? []).filter(e => e.date !== recurrenceId.date);
+    exceptions.push({
+      date: recurrenceId.date,
+      movedTo: occurrence.date !== recurrenceId.date ? occurrence.date : undefined,
+      time: occurrence.time !== master.time ? occurrence.time : undefined,
+      duration: occurrence.duration !== master.duration ? occurrence.duration : undefined,
+      intensity: occurrence.intensity !== master.intensity ? occurrence.intensity : undefined,
+      caloriesBurned: occurrence.caloriesBurned !== master.caloriesBurned ? occurrence.caloriesBurned : undefined,
+    });
+    master.exceptions = exceptions;
+  }
+
+  return { workouts: [...masters.values()], warnings };
+}
+
+// What an iCalendar event can carry; everything else only lives in the app
+type ICSExceptionField = 'skipped' | 'movedTo' | 'time' | 'duration' | 'intensity' | 'caloriesBurned';
+const ICS_EXCEPTION_FIELDS: ICSExceptionField[] = ['skipped', 'movedTo', 'time', 'duration', 'intensity', 'caloriesBurned'];
+
+/**
+ * Re-importing this app's own export updates workouts that already exist.
+ * The calendar only describes the schedule, so fields it can't carry (heart
+ * rate, distance, exercises, program, per-session status and logs) are kept
+ * from `existing`, occurrence by occurrence.
+ */
+export function mergeImported(existing: Workout | undefined, imported: Workout): Workout {
+  if (!existing) return imported;
+
+  const dates = new Set([...(existing.exceptions ?? []), ...(imported.exceptions ?? [])].map(e => e.date));
+  const exceptions: WorkoutException[] = [];
+  for (const date of dates) {
+    const kept: Partial<WorkoutException> = { ...existing.exceptions?.find(e => e.date === date) };
+    for (const field of ICS_EXCEPTION_FIELDS) delete kept[field];
+    const merged: WorkoutException = { ...kept, ...imported.exceptions?.find(e => e.date === date), date };
+    const { date: _date, ...changes } = merged;
+    if (Object.values(changes).some(v => v !== undefined && v !== false)) exceptions.push(merged);
+  }
+
+  return {
+    ...imported,
+    avgHeartRate: existing.avgHeartRate,
+    maxHeartRate: existing.maxHeartRate,
+    distance: existing.distance,
+    elevationGain: existing.elevationGain,
+    exercises: existing.exercises,
+    programId: existing.programId,
+    exceptions,
+  };
+}
+
+function readEvents(text: string): ICSProperty[][] {
+  // Unfold continuation lines (RFC 5545 §3.1) before splitting properties
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: ICSProperty[][] = [];
+  let current: ICSProperty[] | null = null;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const prop = parseLine(line);
+    if (!prop) continue;
+    if (prop.name === 'BEGIN' && prop.value.toUpperCase() === 'VEVENT') current = [];
+    else if (prop.name === 'END' && prop.value.toUpperCase() === 'VEVENT') {
+      if (current) events.push(current);
+      current = null;
+    } else if (current) current.push(prop);
+  }
+  return events;
+}
+
+function parseLine(line: string): ICSProperty | null {
+  const colon = line.indexOf(':');
+  if (colon < 0) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, val = ''] = part.split('=');
+    params[key.toUpperCase()] = val.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function getProp(props: ICSProperty[], name: string): ICSProperty | undefined {
+  return props.find(p => p.name === name);
+}
+
+function eventLabel(props: ICSProperty[]): string {
+  return unescapeText(getProp(props, 'SUMMARY')?.value ?? 'Sin título');
+}
+
+function eventToWorkout(props: ICSProperty[], uid: string, weightOn: (date: string) => number, warnings: string[]): Workout | null {
+  const label = eventLabel(props);
+  const dtstart = getProp(props, 'DTSTART');
+  const start = dtstart && parseDateTime(dtstart);
+  if (!start) {
+    warnings.push(`"${label}": sin DTSTART válido, no se importa`);
+    return null;
+  }
+
+  const exerciseType = parseExerciseType(props, label);
+  const intensity = parseIntensity(getProp(props, 'X-BALANCE-INTENSITY')?.value);
+  const duration = parseDurationMinutes(props, start) ?? 60;
+  const calories = parseInt(getProp(props, 'X-BALANCE-CALORIES')?.value ?? '');
+  const description = getProp(props, 'DESCRIPTION');
+  const isOwnExport = !!getProp(props, 'X-BALANCE-EXERCISE-TYPE');
+
+  const workout: Workout = {
+    // Events exported from this app keep their id so re-importing updates them
+    id: uid.endsWith(`@${UID_DOMAIN}`) ? uid.slice(0, -UID_DOMAIN.length - 1) : generateId(),
+    date: start.date,
+    time: start.time,
+    exerciseType,
+    duration,
+    intensity,
+    caloriesBurned: Number.isFinite(calories) ? calories : estimateCaloriesBurned(exerciseType, duration, intensity, weightOn(start.date)),
+    notes: description ? unescapeText(description.value) : isOwnExport ? undefined : label,
+    recurring: false,
+  };
+
+  const rrule = getProp(props, 'RRULE');
+  if (rrule) applyRRule(workout, rrule.value, label, warnings);
+
+  for (const prop of props) {
+    if (prop.name === 'EXDATE') {
+      const skipped = prop.value.split(',').map(v => parseDateTime({ ...prop, value: v })).filter(Boolean);
+      workout.exceptions = [
+        ...(workout.exceptions ?? []),
+        ...skipped.map(d => ({ date: d!.date, skipped: true })),
+      ];
+    } else if (prop.name === 'RDATE') {
+      warnings.push(`"${label}": RDATE no soportado, se ignoran las fechas adicionales`);
+    }
+  }
+
+  return workout;
+}
+
+function applyRRule(workout: Workout, value: string, label: string, warnings: string[]) {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, val = ''] = part.split('=');
+    if (key) parts[key.toUpperCase()] = val.toUpperCase();
+  }
+  const unsupported = (part: string, note = 'se ignora') =>
+    warnings.push(`"${label}": RRULE ${part}=${parts[part]} no soportado, ${note}`);
+
+  const interval = parseInt(parts.INTERVAL ?? '1') || 1;
+  const start = parseISO(workout.date);
+  workout.recurring = true;
+
+  switch (parts.FREQ) {
+    case 'DAILY':
+      if (interval > 1) {
+        workout.recurrenceType = 'custom';
+        workout.recurrenceInterval = interval;
+      } else {
+        workout.recurrenceType = 'daily';
+      }
+      break;
+
+    case 'WEEKLY': {
+      workout.recurrenceType = 'weekly';
+      const days = (parts.BYDAY ?? '').split(',').filter(Boolean).map(d => WEEKDAYS.indexOf(d));
+      workout.recurrenceDays = days.length && days.every(d => d >= 0) ? days : [start.getDay()];
+      if (days.some(d => d < 0)) unsupported('BYDAY', 'se usa el día de inicio');
+      if (interval > 1) {
+        if (workout.recurrenceDays.length === 1) {
+          // Every N weeks on a single day is the same as every 7·N days,
+          // counted from the first of those days (DTSTART may fall on another)
+          const offset = (workout.recurrenceDays[0] - start.getDay() + 7) % 7;
+          workout.date = format(addDays(start, offset), 'yyyy-MM-dd');
+          workout.recurrenceType = 'custom';
+          workout.recurrenceInterval = interval * 7;
+          workout.recurrenceDays = undefined;
+        } else {
+          unsupported('INTERVAL', 'se repite cada semana');
+        }
+      }
+      break;
+    }
+
+    case 'MONTHLY': {
+      workout.recurrenceType = 'monthly';
+      const byDay = parts.BYDAY?.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+      const setPos = parseInt(parts.BYSETPOS ?? '');
+      const week = byDay?.[1] ? parseInt(byDay[1]) : setPos;
+      if (byDay && (week === -1 || (week >= 1 && week <= 4))) {
+        workout.recurrenceMonthlyMode = 'nth_weekday';
+        workout.recurrenceWeekOfMonth = week;
+        workout.recurrenceWeekday = WEEKDAYS.indexOf(byDay[2]);
+      } else {
+        if (parts.BYDAY) unsupported('BYDAY', 'se usa el día del mes de inicio');
+        const monthDay = parseInt(parts.BYMONTHDAY ?? '');
+        const validMonthDay = monthDay === -1 || (monthDay >= 1 && monthDay <= 31);
+        if (parts.BYMONTHDAY && !validMonthDay) unsupported('BYMONTHDAY', 'se usa el día del mes de inicio');
+        workout.recurrenceMonthlyMode = 'day_of_month';
+        workout.recurrenceMonthDay = validMonthDay ? monthDay : start.getDate();
+      }
+      if (interval > 1) unsupported('INTERVAL', 'se repite cada mes');
+      break;
+    }
+
+    default:
+      warnings.push(`"${label}": frecuencia ${parts.FREQ ?? 'desconocida'} no soportada, se importa una sola sesión`);
+      workout.recurring = false;
+      return;
+  }
+
+  const handled = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYSETPOS', 'UNTIL', 'COUNT', 'WKST'];
+  for (const part of Object.keys(parts)) {
+    if (!handled.includes(part)) unsupported(part);
+  }
+  if (parts.BYSETPOS && parts.FREQ !== 'MONTHLY') unsupported('BYSETPOS');
+
+  if (parts.UNTIL) {
+    const until = parseDateTime({ name: 'UNTIL', params: {}, value: parts.UNTIL });
+    if (until) workout.recurrenceEnd = until.date;
+  } else if (parts.COUNT) {
+    workout.recurrenceEnd = findNthOccurrence(workout, parseInt(parts.COUNT));
+  }
+}
+
+// COUNT has no direct equivalent, so it becomes the date of the last occurrence
+function findNthOccurrence(workout: Workout, count: number): string | undefined {
+  if (!count || count < 1) return undefined;
+  let found = 0;
+  let day = parseISO(workout.date);
+  for (let i = 0; i < 366 * 10; i++, day = addDays(day, 1)) {
+    if (isWorkoutOnDate(workout, day) && ++found === count) return format(day, 'yyyy-MM-dd');
+  }
+  return undefined;
+}
+
+function parseDateTime(prop: ICSProperty): { date: string; time: string } | null {
+  const match = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, , utc] = match;
+  if (!h) return { date: `${y}-${mo}-${d}`, time: '' };
+  if (utc) {
+    // UTC times are shown in the device's local time, like any calendar app
+    const local = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi));
+    return { date: format(local, 'yyyy-MM-dd'), time: format(local, 'HH:mm') };
+  }
+  return { date: `${y}-${mo}-${d}`, time: `${h}:${mi}` };
+}
+
+function parseDurationMinutes(props: ICSProperty[], start: { date: string; time: string }): number | null {
+  const duration = getProp(props, 'DURATION')?.value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (duration) {
+    const [, w, d, h, m] = duration.map(v => parseInt(v ?? '0') || 0);
+    return w * 7 * 1440 + d * 1440 + h * 60 + m;
+  }
+  const dtend = getProp(props, 'DTEND');
+  const end = dtend && parseDateTime(dtend);
+  if (end && end.time && start.time) {
+    const minutes = (parseISO(`${end.date}T${end.time}`).getTime() - parseISO(`${start.date}T${start.time}`).getTime()) / 60000;
+    return minutes > 0 ? Math.round(minutes) : null;
+  }
+  return null;
+}
+
+function parseExerciseType(props: ICSProperty[], label: string): ExerciseType {
+  const own = getProp(props, 'X-BALANCE-EXERCISE-TYPE')?.value as ExerciseType;
+  if (EXERCISE_TYPES.includes(own)) return own;
+
+  const text = label.toLowerCase();
+  if (/gym|gimnasio|pesas|fuerza|strength/.test(text)) return 'gym';
+  if (/run|correr|carrera|running/.test(text)) return 'running';
+  if (/bike|bici|cycl|ciclismo/.test(text)) return 'cycling';
+  if (/yoga|pilates/.test(text)) return 'yoga';
+  if (/swim|nata|piscina/.test(text)) return 'swimming';
+  if (/hike|hiking|senderismo|ruta|monta/.test(text)) return 'hiking';
+  return 'other';
+}
+
+function parseIntensity(value?: string): Intensity {
+  return value === 'low' || value === 'high' ? value : 'medium';
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([;,\\])/g, '$1');
+}
@@ -0,0 +1,135 @@
+import { TablesInsert } from '@/integrations/supabase/types';
+
+// IndexedDB cache of the user's rows, stored in the same shape as the
+// Supabase tables so local and remote data share one set of mappers.
+
+const DB_NAME = 'balance-daily';
+const DB_VERSION = 4;
+
+export type SyncedTable =
+  | 'profiles' | 'workouts' | 'meals' | 'body_metrics' | 'custom_exercises' | 'workout_templates' | 'training_programs';
+
+// Rows written on this device may lack server defaults such as created_at
+export type LocalRow<T extends SyncedTable = SyncedTable> = TablesInsert<T> & { id: string };
+
+export interface OutboxEntry {
+  seq?: number;
+  table: SyncedTable;
+  op: 'upsert' | 'delete';
+  id: string;
+  row?: LocalRow;
+  updatedAt: string; // ISO timestamp of the local change
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('profiles', { keyPath: 'id' });
+          db.createObjectStore('workouts', { keyPath: 'id' }).createIndex('user_id', 'user_id');
+          db.createObjectStore('meals', { keyPath: 'id' }).createIndex('user_id', 'user_id');
+          db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+          db.createObjectStore('meta');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('body_metrics', { keyPath: 'id' }).createIndex('user_id', 'user_id');
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore('custom_exercises', { keyPath: 'id' }).createIndex('user_id', 'user_id');
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore('workout_templates', { keyPath: 'id' }).createIndex('user_id', 'user_id');
+          db.createObjectStore('training_programs', { keyPath: 'id' }).createIndex('user_id', 'user_id');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function transaction(storeName: string, mode: IDBTransactionMode) {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return { store: tx.objectStore(storeName), done };
+}
+
+// ─── Rows ───
+
+export async function getLocalRows<T extends SyncedTable>(table: T, userId: string): Promise<LocalRow<T>[]> {
+  const { store } = await transaction(table, 'readonly');
+  if (table === 'profiles') {
+    const row = await promisify<LocalRow<T> | undefined>(store.get(userId));
+    return row ? [row] : [];
+  }
+  return promisify<LocalRow<T>[]>(store.index('user_id').getAll(userId));
+}
+
+export async function getLocalRow<T extends SyncedTable>(table: T, id: string): Promise<LocalRow<T> | null> {
+  const { store } = await transaction(table, 'readonly');
+  return (await promisify<LocalRow<T> | undefined>(store.get(id))) ?? null;
+}
+
+export async function putLocalRows<T extends SyncedTable>(table: T, rows: LocalRow<T>[]): Promise<void> {
+  if (rows.length === 0) return;
+  const { store, done } = await transaction(table, 'readwrite');
+  rows.forEach(row => store.put(row));
+  await done;
+}
+
+export async function deleteLocalRows(table: SyncedTable, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const { store, done } = await transaction(table, 'readwrite');
+  ids.forEach(id => store.delete(id));
+  await done;
+}
+
+// ─── Outbox ───
+
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  const { store } = await transaction('outbox', 'readonly');
+  return promisify<OutboxEntry[]>(store.getAll());
+}
+
+export async function addToOutbox(entry: OutboxEntry): Promise<void> {
+  const { store, done } = await transaction('outbox', 'readwrite');
+  store.add(entry);
+  await done;
+}
+
+export async function removeFromOutbox(seq: number): Promise<void> {
+  const { store, done } = await transaction('outbox', 'readwrite');
+  store.delete(seq);
+  await done;
+}
+
+// ─── Meta (last sync per table and user) ───
+
+export async function getMeta(key: string): Promise<string | null> {
+  const { store } = await transaction('meta', 'readonly');
+  return (await promisify<string | undefined>(store.get(key))) ?? null;
+}
+
+export async function setMeta(key: string, value: string): Promise<void> {
+  const { store, done } = await transaction('meta', 'readwrite');
+  store.put(value, key);
+  await done;
+}
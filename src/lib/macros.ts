@@ -0,0 +1,64 @@
+import { DailyTargets, MacroSettings, UserProfile } from '@/types';
+
+// Splitting a calorie target into protein, carbs and fat: by the goal's
+// default percentages, or by the profile's own macro settings.
+
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+// Default split per goal, as fractions of calories
+export const goalMacroSplits: Record<UserProfile['goal'], { protein: number; carbs: number; fat: number }> = {
+  lose_fat: { protein: 0.35, carbs: 0.35, fat: 0.30 },
+  gain_muscle: { protein: 0.30, carbs: 0.45, fat: 0.25 },
+  maintain: { protein: 0.25, carbs: 0.45, fat: 0.30 },
+};
+
+/**
+ * Macro targets for `calories`. Fixed grams set their own calorie total;
+ * protein per kg uses lean mass when `bodyFat` (%) is known, and leaves the
+ * remaining calories to carbs and fat in the goal's proportions.
+ */
+export function splitMacros(calories: number, profile: UserProfile, bodyFat?: number): DailyTargets {
+  const settings: MacroSettings | undefined = profile.macros;
+  const split = goalMacroSplits[profile.goal];
+
+  switch (settings?.mode) {
+    case 'grams':
+      return {
+        calories: Math.round(
+          settings.protein * KCAL_PER_GRAM.protein + settings.carbs * KCAL_PER_GRAM.carbs + settings.fat * KCAL_PER_GRAM.fat
+        ),
+        protein: settings.protein,
+        carbs: settings.carbs,
+        fat: settings.fat,
+      };
+
+    case 'percent':
+      return fromFractions(calories, settings.protein / 100, settings.carbs / 100, settings.fat / 100);
+
+    case 'protein_per_kg': {
+      const leanMass = settings.basis === 'lean_mass' && bodyFat !== undefined;
+      const mass = leanMass ? profile.weight * (1 - bodyFat / 100) : profile.weight;
+      const protein = Math.min(settings.gramsPerKg * mass, calories / KCAL_PER_GRAM.protein);
+      const rest = calories - protein * KCAL_PER_GRAM.protein;
+      const carbsShare = split.carbs / (split.carbs + split.fat);
+      return {
+        calories,
+        protein: Math.round(protein),
+        carbs: Math.round((rest * carbsShare) / KCAL_PER_GRAM.carbs),
+        fat: Math.round((rest * (1 - carbsShare)) / KCAL_PER_GRAM.fat),
+      };
+    }
+
+    default:
+      return fromFractions(calories, split.protein, split.carbs, split.fat);
+  }
+}
+
+function fromFractions(calories: number, protein: number, carbs: number, fat: number): DailyTargets {
+  return {
+    calories,
+    protein: Math.round((calories * protein) / KCAL_PER_GRAM.protein),
+    carbs: Math.round((calories * carbs) / KCAL_PER_GRAM.carbs),
+    fat: Math.round((calories * fat) / KCAL_PER_GRAM.fat),
+  };
+}
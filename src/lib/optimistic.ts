@@ -0,0 +1,42 @@
+import { QueryClient, QueryKey } from '@tanstack/react-query';
+
+// Helpers for updating cached query data before a write has finished, and
+// putting it back if the write fails.
+
+export type QuerySnapshot<T> = [QueryKey, T | undefined][];
+
+/**
+ * Apply `update` to every loaded query under `queryKey`, returning the
+ * previous data so it can be restored with `restoreQueries`.
+ */
+export async function updateQueries<T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  update: (data: T, key: QueryKey) => T
+): Promise<QuerySnapshot<T>> {
+  await queryClient.cancelQueries({ queryKey });
+  const previous = queryClient.getQueriesData<T>({ queryKey });
+  for (const [key, data] of previous) {
+    if (data !== undefined) queryClient.setQueryData(key, update(data, key));
+  }
+  return previous;
+}
+
+export function restoreQueries<T>(queryClient: QueryClient, snapshot?: QuerySnapshot<T>) {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+}
+
+/**
+ * Replace `item` in a list sorted newest first, or insert it in order. When
+ * it no longer belongs to the list (e.g. it moved out of a date range) it's
+ * only removed.
+ */
+export function upsertByDate<T extends { id: string; date: string }>(list: T[], item: T, belongs: boolean): T[] {
+  const rest = list.filter(x => x.id !== item.id);
+  if (!belongs) return rest;
+  return [...rest, item].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export function removeById<T extends { id: string }>(list: T[], id: string): T[] {
+  return list.filter(x => x.id !== id);
+}
@@ -0,0 +1,88 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { TrainingProgram, Workout, WorkoutTemplate } from '@/types';
+import { estimateCaloriesBurned, generateId } from '@/lib/storage';
+import { setsVolume } from '@/lib/strength';
+
+// Training programs: templates scheduled on weekdays for a number of weeks,
+// with loads that go up every week and drop on deload weeks. Starting a
+// program writes all of its sessions up front as ordinary workouts.
+
+// Loads are rounded to what the plates allow
+const LOAD_STEP = 0.5; // kg
+
+const DEFAULT_TIME = '09:00';
+
+export function isDeloadWeek(program: Pick<TrainingProgram, 'deloadEvery'>, week: number): boolean {
+  return !!program.deloadEvery && week % program.deloadEvery === 0;
+}
+
+/**
+ * Load in `week` (1-based) for a set lifted at `weight` in the first week.
+ * Deload weeks repeat the previous week's load, lightened, and don't count
+ * towards the progression. Unloaded sets stay unloaded.
+ */
+export function programLoad(
+  program: Pick<TrainingProgram, 'weeklyIncrease' | 'deloadEvery' | 'deloadPercent'>, weight: number, week: number
+): number {
+  if (weight <= 0) return weight;
+  const deloads = program.deloadEvery ? Math.floor(week / program.deloadEvery) : 0;
+  const load = weight + program.weeklyIncrease * (week - 1 - deloads);
+  const scaled = isDeloadWeek(program, week) ? (load * program.deloadPercent) / 100 : load;
+  return Math.round(scaled / LOAD_STEP) * LOAD_STEP;
+}
+
+// Days from Monday, so weeks run Monday to Sunday like the rest of the app
+const mondayOffset = (weekday: number) => (weekday + 6) % 7;
+
+/**
+ * Every session of `program`, in order. Days whose template has been deleted
+ * are left out. `weight` (kg) is used for the calorie estimates.
+ */
+export function programWorkouts(program: TrainingProgram, templates: WorkoutTemplate[], weight: number): Workout[] {
+  const byId = new Map(templates.map(t => [t.id, t]));
+  const days = [...program.days].sort((a, b) => mondayOffset(a.weekday) - mondayOffset(b.weekday));
+  const start = parseISO(program.startDate);
+
+  const workouts: Workout[] = [];
+  for (let week = 1; week <= program.weeks; week++) {
+    const deload = isDeloadWeek(program, week);
+    for (const day of days) {
+      const template = byId.get(day.templateId);
+      if (!template) continue;
+      const exercises = template.exercises.map(e => {
+        const sets = e.sets.map(s => ({ ...s, weight: programLoad(program, s.weight, week) }));
+        return { ...e, id: generateId(), sets, volume: setsVolume(sets) };
+      });
+      workouts.push({
+        id: generateId(),
+        date: format(addDays(start, (week - 1) * 7 + mondayOffset(day.weekday)), 'yyyy-MM-dd'),
+        time: template.time ?? DEFAULT_TIME,
+        exerciseType: template.exerciseType,
+        duration: template.duration,
+        intensity: template.intensity,
+        caloriesBurned: estimateCaloriesBurned(template.exerciseType, template.duration, template.intensity, weight),
+        exercises: template.exerciseType === 'gym' ? exercises : undefined,
+        notes: `${program.name} · ${template.name} · semana ${week}/${program.weeks}${deload ? ' (descarga)' : ''}`,
+        recurring: false,
+        programId: program.id,
+      });
+    }
+  }
+  return workouts;
+}
+
+/** A template with the session's type, time, duration, intensity and exercises. */
+export function templateFromWorkout(
+  workout: Pick<Workout, 'exerciseType' | 'time' | 'duration' | 'intensity' | 'exercises' | 'notes'>, name: string
+): WorkoutTemplate {
+  return {
+    id: generateId(),
+    name: name.trim(),
+    exerciseType: workout.exerciseType,
+    time: workout.time || undefined,
+    duration: workout.duration,
+    intensity: workout.intensity,
+    exercises: workout.exercises ?? [],
+    notes: workout.notes || undefined,
+  };
+}
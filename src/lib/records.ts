@@ -0,0 +1,190 @@
+import { parseISO } from 'date-fns';
+import { StrengthSet, Workout, WorkoutOccurrence } from '@/types';
+import { expandOccurrences } from '@/lib/recurrence';
+import { DISTANCE_SPORTS, DistanceSport, formatMinutes, isDistanceSport } from '@/lib/cardio';
+
+// Personal records from completed sessions: heaviest lift, estimated one-rep
+// max, most reps at each weight and best session volume per exercise, and
+// the longest distance and fastest 5K for distance sports.
+
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+export const oneRepMaxFormulaLabels: Record<OneRepMaxFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+};
+
+// Past this many reps a set says little about a single maximal rep
+const MAX_ESTIMATE_REPS = 12;
+
+const FIVE_K = 5; // km
+
+/**
+ * One-rep max estimated from a set (Epley 1985 or Brzycki 1993). Null for
+ * unloaded sets and sets too long to estimate from. Rounded to 0.1 kg.
+ */
+export function oneRepMax(set: StrengthSet, formula: OneRepMaxFormula): number | null {
+  const { weight, reps } = set;
+  if (weight <= 0 || reps < 1 || reps > MAX_ESTIMATE_REPS) return null;
+  if (reps === 1) return weight;
+  const estimate = formula === 'epley' ? weight * (1 + reps / 30) : (weight * 36) / (37 - reps);
+  return Math.round(estimate * 10) / 10;
+}
+
+export interface PersonalRecord {
+  value: number; // kg, reps, km or minutes depending on the record
+  date: string; // YYYY-MM-DD, the session it was set in
+  workoutId: string;
+}
+
+export interface ExerciseRecords {
+  key: string; // library id, or the name for exercises not in the library
+  name: string;
+  heaviest?: PersonalRecord; // kg
+  oneRepMax?: PersonalRecord; // kg
+  bestVolume?: PersonalRecord; // kg over the session
+  repsByWeight: (PersonalRecord & { weight: number })[]; // most reps at each weight, heaviest first
+}
+
+export interface CardioRecords {
+  sport: DistanceSport;
+  longest?: PersonalRecord; // km
+  fastest5k?: PersonalRecord; // minutes, at the session's average pace
+}
+
+export interface PersonalRecords {
+  exercises: ExerciseRecords[];
+  cardio: CardioRecords[];
+}
+
+// The earlier record stands on a tie
+function best(current: PersonalRecord | undefined, candidate: PersonalRecord, lowerIsBetter = false) {
+  if (!current) return candidate;
+  return (lowerIsBetter ? candidate.value < current.value : candidate.value > current.value) ? candidate : current;
+}
+
+export function exerciseKey(exercise: { exerciseId?: string; name: string }): string {
+  return exercise.exerciseId ?? `name:${exercise.name.trim().toLowerCase()}`;
+}
+
+/** Every occurrence of `workouts` from the first one up to `until`. */
+export function occurrencesUntil(workouts: Workout[], until: Date): WorkoutOccurrence[] {
+  if (!workouts.length) return [];
+  const first = workouts.reduce((min, w) => w.date < min ? w.date : min, workouts[0].date);
+  return expandOccurrences(workouts, parseISO(first), until);
+}
+
+/** Records over the completed sessions among `occurrences`. */
+export function personalRecords(
+  occurrences: WorkoutOccurrence[], formula: OneRepMaxFormula = 'epley'
+): PersonalRecords {
+  const sessions = occurrences
+    .filter(o => o.status === 'completed')
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+
+  const exercises = new Map<string, ExerciseRecords>();
+  const cardio = new Map<DistanceSport, CardioRecords>();
+
+  for (const session of sessions) {
+    const at = (value: number): PersonalRecord => ({ value, date: session.date, workoutId: session.id });
+
+    for (const logged of session.exercises ?? []) {
+      const key = exerciseKey(logged);
+      const records = exercises.get(key) ?? { key, name: logged.name, repsByWeight: [] };
+      records.name = logged.name; // the latest spelling
+      for (const set of logged.sets) {
+        if (set.reps < 1) continue;
+        if (set.weight > 0) records.heaviest = best(records.heaviest, at(set.weight));
+        const estimate = oneRepMax(set, formula);
+        if (estimate !== null) records.oneRepMax = best(records.oneRepMax, at(estimate));
+        const index = records.repsByWeight.findIndex(r => r.weight === set.weight);
+        const current = records.repsByWeight[index];
+        const next = { ...best(current, at(set.reps)), weight: set.weight };
+        if (index < 0) records.repsByWeight.push(next);
+        else records.repsByWeight[index] = next;
+      }
+      if (logged.volume > 0) records.bestVolume = best(records.bestVolume, at(logged.volume));
+      exercises.set(key, records);
+    }
+
+    const sport = session.exerciseType;
+    if (isDistanceSport(sport) && session.distance) {
+      const records = cardio.get(sport) ?? { sport };
+      records.longest = best(records.longest, at(session.distance));
+      if (sport === 'running' && session.distance >= FIVE_K) {
+        records.fastest5k = best(records.fastest5k, at((session.duration * FIVE_K) / session.distance), true);
+      }
+      cardio.set(sport, records);
+    }
+  }
+
+  return {
+    exercises: [...exercises.values()]
+      .map(e => ({ ...e, repsByWeight: [...e.repsByWeight].sort((a, b) => b.weight - a.weight) }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'es')),
+    cardio: DISTANCE_SPORTS.map(s => cardio.get(s)).filter((r): r is CardioRecords => !!r),
+  };
+}
+
+export type RecordKind = 'heaviest' | 'oneRepMax' | 'bestVolume' | 'reps' | 'longest' | 'fastest5k';
+
+export const recordKindLabels: Record<RecordKind, string> = {
+  heaviest: 'Peso máximo',
+  oneRepMax: '1RM estimado',
+  bestVolume: 'Volumen en una sesión',
+  reps: 'Repeticiones',
+  longest: 'Distancia más larga',
+  fastest5k: '5K más rápido',
+};
+
+export function formatRecord(kind: RecordKind, record: PersonalRecord & { weight?: number }): string {
+  switch (kind) {
+    case 'reps': return `${record.value} × ${record.weight} kg`;
+    case 'longest': return `${Math.round(record.value * 100) / 100} km`;
+    case 'fastest5k': return formatMinutes(record.value);
+    default: return `${Math.round(record.value * 10) / 10} kg`;
+  }
+}
+
+export interface NewRecord {
+  kind: RecordKind;
+  exercise?: string; // name, for strength records
+  sport?: DistanceSport; // for cardio records
+  record: PersonalRecord & { weight?: number };
+}
+
+/**
+ * Records in `after` that beat one in `before`. A first log of an exercise or
+ * weight has nothing to beat, so it isn't announced.
+ */
+export function newRecords(before: PersonalRecords, after: PersonalRecords): NewRecord[] {
+  const found: NewRecord[] = [];
+  const check = (
+    kind: RecordKind, subject: Pick<NewRecord, 'exercise' | 'sport'>, previous: PersonalRecord | undefined,
+    record: (PersonalRecord & { weight?: number }) | undefined, lowerIsBetter = false
+  ) => {
+    if (!previous || !record) return;
+    if (lowerIsBetter ? record.value < previous.value : record.value > previous.value) found.push({ kind, ...subject, record });
+  };
+
+  const previousExercises = new Map(before.exercises.map(e => [e.key, e]));
+  for (const exercise of after.exercises) {
+    const previous = previousExercises.get(exercise.key);
+    if (!previous) continue;
+    const subject = { exercise: exercise.name };
+    check('heaviest', subject, previous.heaviest, exercise.heaviest);
+    check('oneRepMax', subject, previous.oneRepMax, exercise.oneRepMax);
+    check('bestVolume', subject, previous.bestVolume, exercise.bestVolume);
+    for (const reps of exercise.repsByWeight) {
+      check('reps', subject, previous.repsByWeight.find(r => r.weight === reps.weight), reps);
+    }
+  }
+
+  const previousCardio = new Map(before.cardio.map(c => [c.sport, c]));
+  for (const sport of after.cardio) {
+    const previous = previousCardio.get(sport.sport);
+    check('longest', { sport: sport.sport }, previous?.longest, sport.longest);
+    check('fastest5k', { sport: sport.sport }, previous?.fastest5k, sport.fastest5k, true);
+  }
+  return found;
+}
@@ -1,5 +1,7 @@
-import { format, parseISO } from 'date-fns';
-import { Workout } from '@/types';
+import {
+    addDays, addMonths, differenceInCalendarDays, format, getDaysInMonth, parseISO, startOfMonth, subDays,
+} from 'date-fns';
+import { OccurrenceStatus, Workout, WorkoutException, WorkoutOccurrence } from '@/types';
 
 /**
  * Check if a workout should appear on a given target date,
@@ -12,7 +14,7 @@ export function isWorkoutOnDate(workout: Workout, targetDate: Date): boolean {
     if (workout.date === targetDateStr) return true;
 
     // 2. Recurrence match — only if workout started on or before targetDate
-    if (workout.recurring && workout.recurrenceType && workout.recurrenceType !== 'none' && workout.date <= targetDateStr) {
+    if (isRecurringWorkout(workout) && workout.date <= targetDateStr) {
         // Check end date
         if (workout.recurrenceEnd && targetDateStr > workout.recurrenceEnd) return false;
 
@@ -38,6 +40,9 @@ export function isWorkoutOnDate(workout: Workout, targetDate: Date): boolean {
                 return diffDays >= 0 && diffDays % workout.recurrenceInterval === 0;
             }
 
+            case 'monthly':
+                return matchesMonthlyRule(workout, targetDate);
+
             default:
                 return false;
         }
@@ -45,3 +50,256 @@ export function isWorkoutOnDate(workout: Workout, targetDate: Date): boolean {
 
     return false;
 }
+
+export function isRecurringWorkout(workout: Workout): boolean {
+    return workout.recurring && !!workout.recurrenceType && workout.recurrenceType !== 'none';
+}
+
+/**
+ * Whether a workout can have an occurrence between `from` and `to`
+ * (YYYY-MM-DD, inclusive): it's dated in the range, or it's a series that
+ * started before the range ends and hasn't ended before it starts.
+ */
+export function isWorkoutInRange(workout: Workout, from: string, to: string): boolean {
+    if (workout.date >= from && workout.date <= to) return true;
+    return workout.recurring && workout.date <= to && (!workout.recurrenceEnd || workout.recurrenceEnd >= from);
+}
+
+/**
+ * Monthly rules follow iCalendar semantics: a day of month that doesn't exist
+ * in a given month (e.g. the 31st in April) is skipped, -1 means the last day,
+ * and week of month -1 means the last such weekday.
+ */
+function matchesMonthlyRule(workout: Workout, targetDate: Date): boolean {
+    return targetDate.getDate() === monthlyDayInMonth(workout, targetDate);
+}
+
+// Day of the month (1-31) the rule falls on in the month of `monthDate`, if any
+function monthlyDayInMonth(workout: Workout, monthDate: Date): number | null {
+    const start = parseISO(workout.date);
+    const daysInMonth = getDaysInMonth(monthDate);
+
+    if (workout.recurrenceMonthlyMode === 'nth_weekday') {
+        const weekday = workout.recurrenceWeekday ?? start.getDay();
+        const weekOfMonth = workout.recurrenceWeekOfMonth ?? Math.ceil(start.getDate() / 7);
+        if (weekOfMonth === -1) {
+            const lastWeekday = new Date(monthDate.getFullYear(), monthDate.getMonth(), daysInMonth).getDay();
+            return daysInMonth - ((lastWeekday - weekday + 7) % 7);
+        }
+        const firstWeekday = startOfMonth(monthDate).getDay();
+        const day = 1 + ((weekday - firstWeekday + 7) % 7) + (weekOfMonth - 1) * 7;
+        return day <= daysInMonth ? day : null;
+    }
+
+    const monthDay = workout.recurrenceMonthDay ?? start.getDate();
+    if (monthDay === -1) return daysInMonth;
+    return monthDay <= daysInMonth ? monthDay : null;
+}
+
+/**
+ * Expand workouts into the concrete occurrences that happen between `from`
+ * and `to` (inclusive), with exceptions applied: skipped and moved-away
+ * occurrences are dropped and occurrences moved into the range are added.
+ * Cost grows with the number of occurrences (months, for monthly rules),
+ * not days × workouts.
+ */
+export function expandOccurrences(workouts: Workout[], from: Date, to: Date): WorkoutOccurrence[] {
+    const fromStr = format(from, 'yyyy-MM-dd');
+    const toStr = format(to, 'yyyy-MM-dd');
+    const occurrences: WorkoutOccurrence[] = [];
+
+    for (const workout of workouts) {
+        const exceptions = new Map((workout.exceptions ?? []).map(e => [e.date, e]));
+
+        for (const date of scheduledDates(workout, fromStr, toStr)) {
+            const exception = exceptions.get(date);
+            if (exception?.skipped || isMovedAway(exception)) continue;
+            occurrences.push(applyException(workout, date, exception));
+        }
+
+        for (const exception of exceptions.values()) {
+            if (!exception.skipped && isMovedAway(exception) && exception.movedTo! >= fromStr && exception.movedTo! <= toStr) {
+                occurrences.push(applyException(workout, exception.date, exception));
+            }
+        }
+    }
+
+    return occurrences;
+}
+
+/**
+ * Resolve the workouts that actually happen on a given date.
+ */
+export function getOccurrencesOnDate(workouts: Workout[], targetDate: Date): WorkoutOccurrence[] {
+    return expandOccurrences(workouts, targetDate, targetDate);
+}
+
+export function groupOccurrencesByDate(occurrences: WorkoutOccurrence[]): Map<string, WorkoutOccurrence[]> {
+    const byDate = new Map<string, WorkoutOccurrence[]>();
+    for (const occurrence of occurrences) {
+        const list = byDate.get(occurrence.date);
+        if (list) list.push(occurrence);
+        else byDate.set(occurrence.date, [occurrence]);
+    }
+    return byDate;
+}
+
+function isMovedAway(exception?: WorkoutException): boolean {
+    return !!exception?.movedTo && exception.movedTo !== exception.date;
+}
+
+// Dates (YYYY-MM-DD) the recurrence rule schedules between fromStr and toStr
+function scheduledDates(workout: Workout, fromStr: string, toStr: string): string[] {
+    const dates: string[] = [];
+    // The start date always counts, like in isWorkoutOnDate
+    if (workout.date >= fromStr && workout.date <= toStr) dates.push(workout.date);
+    if (!isRecurringWorkout(workout)) return dates;
+
+    const firstStr = workout.date > fromStr ? workout.date : fromStr;
+    const lastStr = workout.recurrenceEnd && workout.recurrenceEnd < toStr ? workout.recurrenceEnd : toStr;
+    if (firstStr > lastStr) return dates;
+
+    const start = parseISO(workout.date);
+    const first = parseISO(firstStr);
+    const last = parseISO(lastStr);
+    const push = (day: Date) => {
+        const ds = format(day, 'yyyy-MM-dd');
+        if (ds !== workout.date) dates.push(ds);
+    };
+
+    switch (workout.recurrenceType) {
+        case 'daily':
+            for (let day = first; day <= last; day = addDays(day, 1)) push(day);
+            break;
+
+        case 'weekly':
+            // A week at a time from the first of each weekday in the range
+            for (const weekday of new Set(workout.recurrenceDays ?? [])) {
+                for (let day = addDays(first, (weekday - first.getDay() + 7) % 7); day <= last; day = addDays(day, 7)) {
+                    push(day);
+                }
+            }
+            dates.sort();
+            break;
+
+        case 'custom': {
+            const interval = workout.recurrenceInterval;
+            if (!interval || interval < 1) break;
+            const offset = differenceInCalendarDays(first, start) % interval;
+            for (let day = addDays(first, offset ? interval - offset : 0); day <= last; day = addDays(day, interval)) {
+                push(day);
+            }
+            break;
+        }
+
+        case 'monthly':
+            for (let month = startOfMonth(first); month <= last; month = addMonths(month, 1)) {
+                const dayOfMonth = monthlyDayInMonth(workout, month);
+                if (dayOfMonth === null) continue;
+                const day = new Date(month.getFullYear(), month.getMonth(), dayOfMonth);
+                if (day >= first && day <= last) push(day);
+            }
+            break;
+    }
+
+    return dates;
+}
+
+export function findException(workout: Workout, occurrenceDate: string): WorkoutException | undefined {
+    return workout.exceptions?.find(e => e.date === occurrenceDate);
+}
+
+// An override of null clears the series value
+function override<T>(value: T | null | undefined, seriesValue: T | undefined): T | undefined {
+    return value === null ? undefined : value ?? seriesValue;
+}
+
+function applyException(workout: Workout, occurrenceDate: string, exception?: WorkoutException): WorkoutOccurrence {
+    return {
+        ...workout,
+        date: exception?.movedTo ?? occurrenceDate,
+        time: exception?.time ?? workout.time,
+        duration: exception?.duration ?? workout.duration,
+        intensity: exception?.intensity ?? workout.intensity,
+        caloriesBurned: exception?.caloriesBurned ?? workout.caloriesBurned,
+        avgHeartRate: override(exception?.avgHeartRate, workout.avgHeartRate),
+        maxHeartRate: override(exception?.maxHeartRate, workout.maxHeartRate),
+        distance: override(exception?.distance, workout.distance),
+        elevationGain: override(exception?.elevationGain, workout.elevationGain),
+        exercises: exception?.exercises ?? workout.exercises,
+        occurrenceDate,
+        status: exception?.status ?? 'planned',
+    };
+}
+
+/**
+ * Return a copy of the series with the exception for its date added or
+ * replaced. An exception that changes nothing is dropped.
+ */
+export function withException(workout: Workout, exception: WorkoutException): Workout {
+    const others = (workout.exceptions ?? []).filter(e => e.date !== exception.date);
+    const { date: _date, ...changes } = exception;
+    const isEmpty = Object.values(changes).every(v => v === undefined || v === false);
+    return { ...workout, exceptions: isEmpty ? others : [...others, exception] };
+}
+
+/**
+ * Build the exception that turns a series occurrence into the edited one,
+ * keeping only the fields that differ from the series.
+ */
+export function buildException(series: Workout, occurrenceDate: string, edited: Workout): WorkoutException {
+    const differs = <K extends keyof Workout>(key: K) => edited[key] !== series[key] ? edited[key] : undefined;
+    // Optional measures left empty clear the series value (null) rather than keep it
+    const clears = (key: 'avgHeartRate' | 'maxHeartRate' | 'distance' | 'elevationGain') =>
+        edited[key] !== series[key] ? edited[key] ?? null : undefined;
+    return {
+        date: occurrenceDate,
+        movedTo: edited.date !== occurrenceDate ? edited.date : undefined,
+        time: differs('time'),
+        duration: differs('duration'),
+        intensity: differs('intensity'),
+        caloriesBurned: differs('caloriesBurned'),
+        avgHeartRate: clears('avgHeartRate'),
+        maxHeartRate: clears('maxHeartRate'),
+        distance: clears('distance'),
+        elevationGain: clears('elevationGain'),
+        // Compared by content: the form always builds a new list
+        exercises: JSON.stringify(edited.exercises ?? []) !== JSON.stringify(series.exercises ?? []) ? edited.exercises : undefined,
+        status: findException(series, occurrenceDate)?.status,
+    };
+}
+
+/**
+ * Mark a single occurrence as completed or missed, or reset it to planned,
+ * keeping any other changes already made to that occurrence.
+ */
+export function withStatus(workout: Workout, occurrenceDate: string, status: OccurrenceStatus): Workout {
+    return withException(workout, {
+        ...findException(workout, occurrenceDate),
+        date: occurrenceDate,
+        status: status === 'planned' ? undefined : status,
+    });
+}
+
+/**
+ * A one-off workout added for a day that has already gone by is a log of
+ * something done, so it starts out completed rather than planned.
+ */
+export function withLoggedStatus(workout: Workout, today: string): Workout {
+    if (isRecurringWorkout(workout) || workout.date >= today || findException(workout, workout.date)?.status) {
+        return workout;
+    }
+    return withStatus(workout, workout.date, 'completed');
+}
+
+/**
+ * End a series the day before the given occurrence ("this and following"),
+ * dropping exceptions that no longer belong to it.
+ */
+export function endSeriesBefore(workout: Workout, occurrenceDate: string): Workout {
+    return {
+        ...workout,
+        recurrenceEnd: format(subDays(parseISO(occurrenceDate), 1), 'yyyy-MM-dd'),
+        exceptions: (workout.exceptions ?? []).filter(e => e.date < occurrenceDate),
+    };
+}
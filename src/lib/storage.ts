@@ -1,34 +1,57 @@
-import { UserProfile, Workout, Meal, DailyTargets } from '@/types';
+import { format } from 'date-fns';
+import {
+  UserProfile, BmrFormula, EatBackPercent, MacroSettings, Workout, WorkoutException, WorkoutOccurrence, Meal, FoodItem, DailyTargets,
+  ExerciseType, Intensity, RecurrenceType, MonthlyRecurrenceMode, MealType,
+  RecordVersion, VersionOperation, BodyMetricEntry, StrengthExercise, LibraryExercise, MuscleGroup, Equipment,
+  WorkoutTemplate, TrainingProgram, ProgramDay,
+} from '@/types';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { readRows, writeRow, removeRow, RowFilter } from '@/lib/sync';
+import { LocalRow, SyncedTable } from '@/lib/localdb';
+import { toStorageError } from '@/lib/errors';
+import { isWorkoutInRange } from '@/lib/recurrence';
+import { planGoal, MIN_DAILY_CALORIES } from '@/lib/goal';
+import { calculateBmr } from '@/lib/bmr';
+import { splitMacros } from '@/lib/macros';
+import { cycleTargets, WeekTraining } from '@/lib/cycling';
+import { climbCalories, isDistanceSport, speedKmh, speedMet } from '@/lib/cardio';
+
+// Reads and writes go through the offline-first cache in sync.ts; rows keep
+// the Supabase column names so the same mappers serve both. Text columns are
+// constrained by CHECKs in the migrations, so casting them to the matching
+// union types is safe.
 
 // ─── Profile ───
 
 export async function getProfile(userId: string): Promise<UserProfile | null> {
-  const { data, error } = await supabase
-    .from('profiles')
-    .select('*')
-    .eq('id', userId)
-    .single();
-
-  if (error) {
-    console.warn('[getProfile]', error.message);
-    return null;
-  }
+  const [data] = await readRows('profiles', userId);
+  return data ? toProfile(data) : null;
+}
 
+function toProfile(data: LocalRow<'profiles'>): UserProfile {
   return {
     name: data.name ?? '',
     age: data.age ?? 25,
     weight: data.weight ?? 70,
     height: data.height ?? 170,
-    sex: (data.sex as any) ?? 'male',
-    activityLevel: (data.activity_level as any) ?? 'moderate',
-    goal: (data.goal as any) ?? 'maintain',
+    sex: (data.sex as UserProfile['sex'] | null) ?? 'male',
+    activityLevel: (data.activity_level as UserProfile['activityLevel'] | null) ?? 'moderate',
+    goal: (data.goal as UserProfile['goal'] | null) ?? 'maintain',
+    targetWeight: data.target_weight ?? undefined,
+    targetDate: data.target_date ?? undefined,
+    bmrFormula: (data.bmr_formula as BmrFormula | undefined) ?? 'mifflin',
+    macros: (data.macros as unknown as MacroSettings | null | undefined) ?? undefined,
+    trainingDayBoost: data.training_day_boost ?? 0,
+    exerciseEatBack: (data.exercise_eat_back ?? 0) as EatBackPercent,
+    restingHeartRate: data.resting_heart_rate ?? undefined,
+    maxHeartRate: data.max_heart_rate ?? undefined,
     onboardingComplete: data.onboarding_complete ?? false,
   };
 }
 
 export async function saveProfile(userId: string, profile: UserProfile): Promise<void> {
-  const { error } = await supabase.from('profiles').upsert({
+  await writeRow('profiles', {
     id: userId,
     name: profile.name,
     age: profile.age,
@@ -37,47 +60,72 @@ export async function saveProfile(userId: string, profile: UserProfile): Promise
     sex: profile.sex,
     activity_level: profile.activityLevel,
     goal: profile.goal,
+    target_weight: profile.targetWeight ?? null,
+    target_date: profile.targetDate ?? null,
+    bmr_formula: profile.bmrFormula,
+    macros: profile.macros ? toJson(profile.macros) : null,
+    training_day_boost: profile.trainingDayBoost ?? 0,
+    exercise_eat_back: profile.exerciseEatBack ?? 0,
+    resting_heart_rate: profile.restingHeartRate ?? null,
+    max_heart_rate: profile.maxHeartRate ?? null,
     onboarding_complete: profile.onboardingComplete,
   });
-  if (error) {
-    console.error('[saveProfile]', error);
-    throw new Error(error.message);
-  }
 }
 
 // ─── Workouts ───
 
 export async function getWorkouts(userId: string): Promise<Workout[]> {
-  const { data, error } = await supabase
-    .from('workouts')
-    .select('*')
-    .eq('user_id', userId)
-    .order('date', { ascending: false });
+  const data = await readRows('workouts', userId, notDeleted());
+  return sortByDateDesc(data).map(toWorkout);
+}
 
-  if (error) {
-    console.error('[getWorkouts]', error);
-    return [];
-  }
+/**
+ * Workouts that can have an occurrence between `from` and `to` (YYYY-MM-DD,
+ * inclusive): those dated in the range plus recurring series that started
+ * before it and haven't ended by its start.
+ */
+export async function getWorkoutsInRange(userId: string, from: string, to: string): Promise<Workout[]> {
+  const filter: RowFilter<'workouts'> = {
+    key: `${from}:${to}`,
+    or: `and(deleted_at.is.null,or(and(date.gte.${from},date.lte.${to}),and(recurring.is.true,date.lte.${to},or(recurrence_end.is.null,recurrence_end.gte.${from}))))`,
+    matches: w => !w.deleted_at && isWorkoutInRange(toWorkout(w), from, to),
+  };
+  const data = await readRows('workouts', userId, filter);
+  return sortByDateDesc(data).map(toWorkout);
+}
 
-  return (data ?? []).map((w: any) => ({
+function toWorkout(w: LocalRow<'workouts'>): Workout {
+  return {
     id: w.id,
     date: w.date,
     time: w.time ?? '',
-    exerciseType: w.exercise_type ?? 'other',
+    exerciseType: (w.exercise_type as ExerciseType | undefined) ?? 'other',
     duration: w.duration ?? 0,
-    intensity: w.intensity ?? 'medium',
+    intensity: (w.intensity as Intensity | undefined) ?? 'medium',
     caloriesBurned: w.calories_burned ?? 0,
+    avgHeartRate: w.avg_heart_rate ?? undefined,
+    maxHeartRate: w.max_heart_rate ?? undefined,
+    distance: w.distance ?? undefined,
+    elevationGain: w.elevation_gain ?? undefined,
+    exercises: fromJson<StrengthExercise>(w.exercises),
     notes: w.notes ?? '',
     recurring: w.recurring ?? false,
-    recurrenceType: w.recurrence_type,
-    recurrenceInterval: w.recurrence_interval,
-    recurrenceDays: w.recurrence_days,
-    recurrenceEnd: w.recurrence_end,
-  }));
+    recurrenceType: (w.recurrence_type as RecurrenceType | null) ?? undefined,
+    recurrenceInterval: w.recurrence_interval ?? undefined,
+    recurrenceDays: w.recurrence_days ?? undefined,
+    recurrenceEnd: w.recurrence_end ?? undefined,
+    recurrenceMonthlyMode: (w.recurrence_monthly_mode as MonthlyRecurrenceMode | null) ?? undefined,
+    recurrenceMonthDay: w.recurrence_month_day ?? undefined,
+    recurrenceWeekOfMonth: w.recurrence_week_of_month ?? undefined,
+    recurrenceWeekday: w.recurrence_weekday ?? undefined,
+    exceptions: fromJson<WorkoutException>(w.exceptions),
+    programId: w.program_id ?? undefined,
+    deletedAt: w.deleted_at ?? undefined,
+  };
 }
 
 export async function saveWorkout(userId: string, workout: Workout): Promise<void> {
-  const payload = {
+  await writeRow('workouts', {
     id: workout.id,
     user_id: userId,
     date: workout.date,
@@ -86,131 +134,386 @@ export async function saveWorkout(userId: string, workout: Workout): Promise<voi
     duration: workout.duration,
     intensity: workout.intensity,
     calories_burned: workout.caloriesBurned,
+    avg_heart_rate: workout.avgHeartRate ?? null,
+    max_heart_rate: workout.maxHeartRate ?? null,
+    distance: workout.distance ?? null,
+    elevation_gain: workout.elevationGain ?? null,
+    exercises: toJson(workout.exercises ?? []),
     notes: workout.notes,
     recurring: workout.recurring ?? false,
     recurrence_type: workout.recurrenceType ?? null,
     recurrence_interval: workout.recurrenceInterval ?? null,
     recurrence_days: workout.recurrenceDays ?? null,
     recurrence_end: workout.recurrenceEnd ?? null,
-  };
+    recurrence_monthly_mode: workout.recurrenceMonthlyMode ?? null,
+    recurrence_month_day: workout.recurrenceMonthDay ?? null,
+    recurrence_week_of_month: workout.recurrenceWeekOfMonth ?? null,
+    recurrence_weekday: workout.recurrenceWeekday ?? null,
+    exceptions: toJson(workout.exceptions ?? []),
+    program_id: workout.programId ?? null,
+    deleted_at: workout.deletedAt ?? null,
+  });
+}
 
-  const { error } = await supabase.from('workouts').upsert(payload);
-  if (error) {
-    console.error('[saveWorkout] ERROR:', error);
-    throw new Error(error.message);
-  }
+// ─── Trash ───
+// Deleting moves a row to the trash; it keeps all its data (a series keeps
+// its exceptions) so restoring brings it back exactly as it was.
 
+export async function getDeletedWorkouts(userId: string): Promise<Workout[]> {
+  const data = await readRows('workouts', userId, deletedOnly());
+  return data.map(toWorkout).sort(byDeletedAtDesc);
 }
 
-export async function deleteWorkout(id: string): Promise<void> {
-  const { error } = await supabase.from('workouts').delete().eq('id', id);
-  if (error) {
-    console.error('[deleteWorkout]', error);
-    throw new Error(error.message);
-  }
+export async function deleteWorkout(userId: string, workout: Workout): Promise<void> {
+  await saveWorkout(userId, { ...workout, deletedAt: new Date().toISOString() });
+}
+
+export async function restoreWorkout(userId: string, workout: Workout): Promise<void> {
+  await saveWorkout(userId, { ...workout, deletedAt: undefined });
+}
+
+// Permanently removes a workout from the trash
+export async function purgeWorkout(id: string): Promise<void> {
+  await removeRow('workouts', id);
 }
 
 // ─── Meals ───
 
 export async function getMeals(userId: string): Promise<Meal[]> {
-  const { data, error } = await supabase
-    .from('meals')
-    .select('*')
-    .eq('user_id', userId)
-    .order('date', { ascending: false });
+  const data = await readRows('meals', userId, notDeleted());
+  return sortByDateDesc(data).map(toMeal);
+}
 
-  if (error) {
-    console.error('[getMeals]', error);
-    return [];
-  }
+// Meals logged between `from` and `to` (YYYY-MM-DD, inclusive)
+export async function getMealsInRange(userId: string, from: string, to: string): Promise<Meal[]> {
+  const filter: RowFilter<'meals'> = {
+    key: `${from}:${to}`,
+    or: `and(deleted_at.is.null,date.gte.${from},date.lte.${to})`,
+    matches: m => !m.deleted_at && m.date >= from && m.date <= to,
+  };
+  const data = await readRows('meals', userId, filter);
+  return sortByDateDesc(data).map(toMeal);
+}
 
-  return (data ?? []).map((m: any) => ({
+function toMeal(m: LocalRow<'meals'>): Meal {
+  return {
     id: m.id,
     date: m.date,
     time: m.time ?? '',
-    mealType: m.meal_type ?? 'lunch',
-    foods: (m.foods as any) ?? [],
+    mealType: (m.meal_type as MealType | undefined) ?? 'lunch',
+    foods: fromJson<FoodItem>(m.foods),
     totalCalories: m.total_calories ?? 0,
     totalProtein: m.total_protein ?? 0,
     totalCarbs: m.total_carbs ?? 0,
     totalFat: m.total_fat ?? 0,
-    notes: m.notes,
-    imageUrl: m.image_url,
-  }));
+    notes: m.notes ?? undefined,
+    imageUrl: m.image_url ?? undefined,
+    deletedAt: m.deleted_at ?? undefined,
+  };
 }
 
 export async function saveMeal(userId: string, meal: Meal): Promise<void> {
-  const payload = {
+  await writeRow('meals', {
     id: meal.id,
     user_id: userId,
     date: meal.date,
     time: meal.time,
     meal_type: meal.mealType,
-    foods: meal.foods as any,
+    foods: toJson(meal.foods),
     total_calories: meal.totalCalories,
     total_protein: meal.totalProtein,
     total_carbs: meal.totalCarbs,
     total_fat: meal.totalFat,
     notes: meal.notes ?? null,
     image_url: meal.imageUrl ?? null,
+    deleted_at: meal.deletedAt ?? null,
+  });
+}
+
+export async function getDeletedMeals(userId: string): Promise<Meal[]> {
+  const data = await readRows('meals', userId, deletedOnly());
+  return data.map(toMeal).sort(byDeletedAtDesc);
+}
+
+export async function deleteMeal(userId: string, meal: Meal): Promise<void> {
+  await saveMeal(userId, { ...meal, deletedAt: new Date().toISOString() });
+}
+
+export async function restoreMeal(userId: string, meal: Meal): Promise<void> {
+  await saveMeal(userId, { ...meal, deletedAt: undefined });
+}
+
+// Permanently removes a meal from the trash
+export async function purgeMeal(id: string): Promise<void> {
+  await removeRow('meals', id);
+}
+
+// ─── Body metrics ───
+
+export async function getBodyMetrics(userId: string): Promise<BodyMetricEntry[]> {
+  const data = await readRows('body_metrics', userId);
+  return sortByDateDesc(data).map(toBodyMetric);
+}
+
+function toBodyMetric(b: LocalRow<'body_metrics'>): BodyMetricEntry {
+  return {
+    id: b.id,
+    date: b.date,
+    weight: b.weight ?? undefined,
+    bodyFat: b.body_fat ?? undefined,
+    waist: b.waist ?? undefined,
+    hips: b.hips ?? undefined,
+    chest: b.chest ?? undefined,
+    arms: b.arms ?? undefined,
   };
+}
 
-  const { error } = await supabase.from('meals').upsert(payload);
-  if (error) {
-    console.error('[saveMeal] ERROR:', error);
-    throw new Error(error.message);
-  }
+export async function saveBodyMetric(userId: string, entry: BodyMetricEntry): Promise<void> {
+  await writeRow('body_metrics', {
+    id: entry.id,
+    user_id: userId,
+    date: entry.date,
+    weight: entry.weight ?? null,
+    body_fat: entry.bodyFat ?? null,
+    waist: entry.waist ?? null,
+    hips: entry.hips ?? null,
+    chest: entry.chest ?? null,
+    arms: entry.arms ?? null,
+  });
+}
 
+export async function deleteBodyMetric(id: string): Promise<void> {
+  await removeRow('body_metrics', id);
 }
 
-export async function deleteMeal(id: string): Promise<void> {
-  const { error } = await supabase.from('meals').delete().eq('id', id);
-  if (error) {
-    console.error('[deleteMeal]', error);
-    throw new Error(error.message);
-  }
+// ─── Custom exercises ───
+
+export async function getCustomExercises(userId: string): Promise<LibraryExercise[]> {
+  const data = await readRows('custom_exercises', userId);
+  return data.map(toCustomExercise).sort((a, b) => a.name.localeCompare(b.name, 'es'));
 }
 
-// ─── Pure calculations (no DB needed) ───
+function toCustomExercise(e: LocalRow<'custom_exercises'>): LibraryExercise {
+  return {
+    id: e.id,
+    name: e.name,
+    primaryMuscles: (e.primary_muscles ?? []) as MuscleGroup[],
+    secondaryMuscles: (e.secondary_muscles ?? []) as MuscleGroup[],
+    equipment: (e.equipment as Equipment | undefined) ?? 'other',
+    custom: true,
+  };
+}
 
-export function calculateDailyTargets(profile: UserProfile): DailyTargets {
-  let bmr: number;
-  if (profile.sex === 'male') {
-    bmr = 10 * profile.weight + 6.25 * profile.height - 5 * profile.age + 5;
-  } else {
-    bmr = 10 * profile.weight + 6.25 * profile.height - 5 * profile.age - 161;
-  }
+export async function saveCustomExercise(userId: string, exercise: LibraryExercise): Promise<void> {
+  await writeRow('custom_exercises', {
+    id: exercise.id,
+    user_id: userId,
+    name: exercise.name,
+    primary_muscles: exercise.primaryMuscles,
+    secondary_muscles: exercise.secondaryMuscles,
+    equipment: exercise.equipment,
+  });
+}
+
+// ─── Workout templates ───
 
-  const activityMultipliers: Record<string, number> = {
-    sedentary: 1.2, light: 1.375, moderate: 1.55, active: 1.725, very_active: 1.9,
+export async function getWorkoutTemplates(userId: string): Promise<WorkoutTemplate[]> {
+  const data = await readRows('workout_templates', userId);
+  return data.map(toWorkoutTemplate).sort((a, b) => a.name.localeCompare(b.name, 'es'));
+}
+
+function toWorkoutTemplate(t: LocalRow<'workout_templates'>): WorkoutTemplate {
+  return {
+    id: t.id,
+    name: t.name,
+    exerciseType: (t.exercise_type as ExerciseType | undefined) ?? 'gym',
+    time: t.time ?? undefined,
+    duration: t.duration ?? 60,
+    intensity: (t.intensity as Intensity | undefined) ?? 'medium',
+    exercises: fromJson<StrengthExercise>(t.exercises),
+    notes: t.notes ?? undefined,
   };
+}
 
-  let tdee = bmr * (activityMultipliers[profile.activityLevel] || 1.55);
+export async function saveWorkoutTemplate(userId: string, template: WorkoutTemplate): Promise<void> {
+  await writeRow('workout_templates', {
+    id: template.id,
+    user_id: userId,
+    name: template.name,
+    exercise_type: template.exerciseType,
+    time: template.time ?? null,
+    duration: template.duration,
+    intensity: template.intensity,
+    exercises: toJson(template.exercises),
+    notes: template.notes ?? null,
+  });
+}
 
-  if (profile.goal === 'lose_fat') tdee -= 400;
-  else if (profile.goal === 'gain_muscle') tdee += 300;
+export async function deleteWorkoutTemplate(id: string): Promise<void> {
+  await removeRow('workout_templates', id);
+}
 
-  const calories = Math.round(tdee);
+// ─── Training programs ───
 
-  let proteinPct: number, carbsPct: number, fatPct: number;
-  if (profile.goal === 'lose_fat') {
-    proteinPct = 0.35; carbsPct = 0.35; fatPct = 0.30;
-  } else if (profile.goal === 'gain_muscle') {
-    proteinPct = 0.30; carbsPct = 0.45; fatPct = 0.25;
-  } else {
-    proteinPct = 0.25; carbsPct = 0.45; fatPct = 0.30;
-  }
+export async function getTrainingPrograms(userId: string): Promise<TrainingProgram[]> {
+  const data = await readRows('training_programs', userId);
+  return data.map(toTrainingProgram).sort((a, b) => b.startDate.localeCompare(a.startDate));
+}
 
+function toTrainingProgram(p: LocalRow<'training_programs'>): TrainingProgram {
   return {
-    calories,
-    protein: Math.round((calories * proteinPct) / 4),
-    carbs: Math.round((calories * carbsPct) / 4),
-    fat: Math.round((calories * fatPct) / 9),
+    id: p.id,
+    name: p.name,
+    startDate: p.start_date,
+    weeks: p.weeks,
+    days: fromJson<ProgramDay>(p.days),
+    weeklyIncrease: p.weekly_increase ?? 0,
+    deloadEvery: p.deload_every ?? undefined,
+    deloadPercent: p.deload_percent ?? 60,
   };
 }
 
+export async function saveTrainingProgram(userId: string, program: TrainingProgram): Promise<void> {
+  await writeRow('training_programs', {
+    id: program.id,
+    user_id: userId,
+    name: program.name,
+    start_date: program.startDate,
+    weeks: program.weeks,
+    days: toJson(program.days),
+    weekly_increase: program.weeklyIncrease,
+    deload_every: program.deloadEvery ?? null,
+    deload_percent: program.deloadPercent,
+  });
+}
+
+export async function deleteTrainingProgram(id: string): Promise<void> {
+  await removeRow('training_programs', id);
+}
+
+// ─── History ───
+// Versions are written by a database trigger on every change, so they're
+// read straight from Supabase and need a connection.
+
+export interface VersionValues {
+  profiles: UserProfile;
+  workouts: Workout;
+  meals: Meal;
+  body_metrics: BodyMetricEntry;
+  custom_exercises: LibraryExercise;
+  workout_templates: WorkoutTemplate;
+  training_programs: TrainingProgram;
+}
+
+const versionMappers: { [T in SyncedTable]: (row: LocalRow<T>) => VersionValues[T] } = {
+  profiles: toProfile,
+  workouts: toWorkout,
+  meals: toMeal,
+  body_metrics: toBodyMetric,
+  custom_exercises: toCustomExercise,
+  workout_templates: toWorkoutTemplate,
+  training_programs: toTrainingProgram,
+};
+
+/** Versions of a profile (by user id), workout, meal or body-metrics entry, newest first. */
+export async function getVersions<T extends SyncedTable>(table: T, recordId: string): Promise<RecordVersion<VersionValues[T]>[]> {
+  const { data, error } = await supabase
+    .from('record_versions')
+    .select('*')
+    .eq('table_name', table)
+    .eq('record_id', recordId)
+    .order('changed_at', { ascending: false });
+  if (error) throw toStorageError(error);
+
+  const toValue = versionMappers[table] as (row: LocalRow<T>) => VersionValues[T];
+  return data.map(v => ({
+    id: v.id,
+    operation: v.operation as VersionOperation,
+    changedFields: v.changed_fields,
+    value: toValue(v.data as unknown as LocalRow<T>),
+    changedAt: v.changed_at,
+  }));
+}
+
+function sortByDateDesc<R extends { date: string }>(rows: R[]): R[] {
+  return [...rows].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+function notDeleted<T extends 'workouts' | 'meals'>(): RowFilter<T> {
+  return { key: 'active', or: 'deleted_at.is.null', matches: row => !row.deleted_at };
+}
+
+function deletedOnly<T extends 'workouts' | 'meals'>(): RowFilter<T> {
+  return { key: 'deleted', or: 'deleted_at.not.is.null', matches: row => !!row.deleted_at };
+}
+
+function byDeletedAtDesc(a: { deletedAt?: string }, b: { deletedAt?: string }): number {
+  return (b.deletedAt ?? '').localeCompare(a.deletedAt ?? '');
+}
+
+// jsonb columns hold plain objects or arrays of them (exceptions, foods,
+// exercises, macros). Interfaces have no index signature, so they convert to and from
+// Json through unknown.
+function toJson(value: object): Json {
+  return value as unknown as Json;
+}
+
+function fromJson<T extends object>(value: Json | undefined): T[] {
+  return (value as unknown as T[] | undefined) ?? [];
+}
+
+// ─── Pure calculations (no DB needed) ───
+
+export const activityMultipliers: Record<UserProfile['activityLevel'], number> = {
+  sedentary: 1.2, light: 1.375, moderate: 1.55, active: 1.725, very_active: 1.9,
+};
+
+// Maintenance calories from the profile's BMR formula and activity level
+export function estimateFormulaTdee(profile: UserProfile, bodyFat?: number): number {
+  const { bmr } = calculateBmr(profile, bodyFat);
+  return Math.round(bmr * (activityMultipliers[profile.activityLevel] || 1.55));
+}
+
+export interface TargetOptions {
+  maintenance?: number; // kcal/day; the adaptive estimate (lib/tdee.ts) when there's enough data
+  date?: string; // YYYY-MM-DD the targets are for, today by default
+  bodyFat?: number; // % on that date, for the lean-mass BMR formulas
+  week?: WeekTraining; // workouts of that week, for calorie and carb cycling
+}
+
+/**
+ * Daily targets for the profile's goal: maintenance (the formula estimate
+ * unless given) plus the deficit or surplus of the goal plan, never below
+ * the safe minimum, split into macros by lib/macros.ts. With `week` given,
+ * training and rest days are cycled (lib/cycling.ts).
+ */
+export function calculateDailyTargets(profile: UserProfile, options: TargetOptions = {}): DailyTargets {
+  const maintenance = options.maintenance ?? estimateFormulaTdee(profile, options.bodyFat);
+  const { dailyAdjustment } = planGoal(profile, options.date ?? format(new Date(), 'yyyy-MM-dd'));
+  const calories = Math.max(Math.round(maintenance + dailyAdjustment), MIN_DAILY_CALORIES[profile.sex]);
+  const targets = splitMacros(calories, profile, options.bodyFat);
+  return options.week
+    ? cycleTargets(targets, options.week, profile.trainingDayBoost ?? 0, MIN_DAILY_CALORIES[profile.sex])
+    : targets;
+}
+
+/** Calories burned in the completed sessions; planned and missed ones don't count. */
+export function completedBurn(occurrences: WorkoutOccurrence[]): number {
+  return occurrences.filter(w => w.status === 'completed').reduce((s, w) => s + w.caloriesBurned, 0);
+}
+
+/** The day's calorie target plus the share of the burn eaten back. */
+export function calorieBudget(profile: UserProfile, target: number, burned: number): number {
+  return Math.round(target + (burned * (profile.exerciseEatBack ?? 0)) / 100);
+}
+
+/**
+ * Calories from METs: by speed when the distance is known, otherwise by
+ * exercise type and intensity, plus the cost of any climbing.
+ */
 export function estimateCaloriesBurned(
-  exerciseType: string, duration: number, intensity: string, weight: number
+  exerciseType: ExerciseType, duration: number, intensity: string, weight: number,
+  distance?: number, elevationGain?: number
 ): number {
   const mets: Record<string, Record<string, number>> = {
     gym: { low: 3.5, medium: 5, high: 8 },
@@ -222,8 +525,13 @@ export function estimateCaloriesBurned(
     other: { low: 3, medium: 5, high: 7 },
   };
 
-  const met = mets[exerciseType]?.[intensity] || 5;
-  return Math.round((met * weight * duration) / 60);
+  if (!isDistanceSport(exerciseType)) {
+    return Math.round(((mets[exerciseType]?.[intensity] || 5) * weight * duration) / 60);
+  }
+  const met = distance && duration > 0
+    ? speedMet(exerciseType, speedKmh(distance, duration))
+    : mets[exerciseType][intensity] || 5;
+  return Math.round((met * weight * duration) / 60 + climbCalories(weight, elevationGain ?? 0));
 }
 
 export function generateId(): string {
@@ -0,0 +1,32 @@
+import { StrengthExercise, StrengthSet } from '@/types';
+
+// Strength training log: volume (weight × reps) per exercise and session.
+
+/** Total load lifted in `sets`, in kg. */
+export function setsVolume(sets: StrengthSet[]): number {
+  return Math.round(sets.reduce((sum, set) => sum + set.reps * set.weight, 0) * 10) / 10;
+}
+
+/**
+ * Exercises as they are saved: unnamed ones and empty sets dropped, and each
+ * exercise's volume recomputed from its sets.
+ */
+export function withVolumes(exercises: StrengthExercise[]): StrengthExercise[] {
+  return exercises
+    .map(e => ({ ...e, name: e.name.trim(), sets: e.sets.filter(s => s.reps > 0) }))
+    .filter(e => e.name && e.sets.length > 0)
+    .map(e => ({ ...e, volume: setsVolume(e.sets) }));
+}
+
+export function workoutVolume(exercises: StrengthExercise[]): number {
+  return Math.round(exercises.reduce((sum, e) => sum + e.volume, 0) * 10) / 10;
+}
+
+/** "5×5 @ 100 kg" when every set is the same, "3 series" otherwise. */
+export function describeSets(sets: StrengthSet[]): string {
+  const [first] = sets;
+  if (first && sets.every(s => s.reps === first.reps && s.weight === first.weight)) {
+    return `${sets.length}×${first.reps}${first.weight > 0 ? ` @ ${first.weight} kg` : ''}`;
+  }
+  return `${sets.length} series`;
+}
@@ -0,0 +1,248 @@
+import { supabase } from '@/integrations/supabase/client';
+import { StorageError, toStorageError } from '@/lib/errors';
+import {
+  SyncedTable, LocalRow, OutboxEntry,
+  getLocalRows, getLocalRow, putLocalRows, deleteLocalRows,
+  getOutbox, addToOutbox, removeFromOutbox, getMeta, setMeta,
+} from '@/lib/localdb';
+
+// Offline-first sync: reads are answered from the IndexedDB cache and
+// revalidated in the background; writes go to the cache and an outbox that
+// is replayed to Supabase in order whenever we're online. Conflicts are
+// resolved by updated_at — the most recent change wins.
+
+/**
+ * Restricts a read to part of a table, expressed both as a PostgREST `or`
+ * filter for Supabase and as the equivalent predicate over cached rows.
+ */
+export interface RowFilter<T extends SyncedTable> {
+  key: string; // identifies the query for cache bookkeeping
+  or: string;
+  matches: (row: LocalRow<T>) => boolean;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  pending: number;
+  syncing: boolean;
+  rejected: StorageError | null; // last local change Supabase refused and was discarded
+}
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pending: 0,
+  syncing: false,
+  rejected: null,
+};
+const statusListeners = new Set<(status: SyncStatus) => void>();
+const changeListeners = new Set<(table: SyncedTable) => void>();
+let flushing: Promise<void> | null = null;
+
+// ─── Subscriptions ───
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => { statusListeners.delete(listener); };
+}
+
+/**
+ * Notified when a background refresh or a resolved conflict changes cached
+ * rows, so screens can re-read them.
+ */
+export function subscribeRemoteChanges(listener: (table: SyncedTable) => void): () => void {
+  changeListeners.add(listener);
+  return () => { changeListeners.delete(listener); };
+}
+
+function setStatus(patch: Partial<SyncStatus>) {
+  status = { ...status, ...patch };
+  statusListeners.forEach(l => l(status));
+}
+
+function emitChange(table: SyncedTable) {
+  changeListeners.forEach(l => l(table));
+}
+
+async function refreshPendingCount() {
+  setStatus({ pending: (await getOutbox()).length });
+}
+
+/**
+ * Track connectivity and replay anything left in the outbox from a previous
+ * session. Called once at startup.
+ */
+export function startSync() {
+  window.addEventListener('online', () => {
+    setStatus({ online: true });
+    void flushOutbox();
+  });
+  window.addEventListener('offline', () => setStatus({ online: false }));
+  void refreshPendingCount().then(() => flushOutbox());
+}
+
+// ─── Reads ───
+
+/**
+ * Rows of a table for a user, optionally filtered. Once a query has been
+ * synced for this user the cache answers immediately and Supabase is queried
+ * in the background. A query not synced yet (e.g. a new date range) waits
+ * for Supabase, but falls back to the cache when the fetch fails and the
+ * table has been synced before. Only with nothing cached does a failed fetch
+ * throw a StorageError rather than return an empty list.
+ */
+export async function readRows<T extends SyncedTable>(table: T, userId: string, filter?: RowFilter<T>): Promise<LocalRow<T>[]> {
+  try {
+    if (!(await getMeta(syncKey(table, userId, filter)))) {
+      try {
+        await refreshRows(table, userId, filter);
+      } catch (error) {
+        if (!(await getMeta(tableSyncKey(table, userId)))) throw error;
+        console.error(`[sync] refresh ${table}`, error);
+      }
+    } else if (navigator.onLine) {
+      refreshRows(table, userId, filter).catch(error => console.error(`[sync] refresh ${table}`, error));
+    }
+    return await getMatchingLocalRows(table, userId, filter);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+async function getMatchingLocalRows<T extends SyncedTable>(table: T, userId: string, filter?: RowFilter<T>): Promise<LocalRow<T>[]> {
+  const rows = await getLocalRows(table, userId);
+  return filter ? rows.filter(filter.matches) : rows;
+}
+
+async function refreshRows<T extends SyncedTable>(table: T, userId: string, filter?: RowFilter<T>): Promise<void> {
+  if (!navigator.onLine) throw new StorageError('offline');
+
+  const column = table === 'profiles' ? 'id' : 'user_id';
+  let query = supabase.from(table).select('*').eq(column, userId);
+  if (filter) query = query.or(filter.or);
+  const { data, error } = await query;
+  if (error) throw toStorageError(error);
+
+  // Rows with local changes still in the outbox keep their local version
+  const pendingIds = new Set((await getOutbox()).filter(e => e.table === table).map(e => e.id));
+  const remote = ((data ?? []) as LocalRow<T>[]).filter(r => !pendingIds.has(r.id));
+  const local = await getMatchingLocalRows(table, userId, filter);
+  const localById = new Map(local.map(r => [r.id, r]));
+  const remoteIds = new Set(remote.map(r => r.id));
+
+  const changed = remote.filter(r => JSON.stringify(r) !== JSON.stringify(localById.get(r.id)));
+  const removed = local.filter(r => !remoteIds.has(r.id) && !pendingIds.has(r.id)).map(r => r.id);
+
+  await putLocalRows(table, changed);
+  await deleteLocalRows(table, removed);
+  const syncedAt = new Date().toISOString();
+  await setMeta(syncKey(table, userId, filter), syncedAt);
+  await setMeta(tableSyncKey(table, userId), syncedAt);
+  if (changed.length > 0 || removed.length > 0) emitChange(table);
+}
+
+function syncKey<T extends SyncedTable>(table: T, userId: string, filter?: RowFilter<T>) {
+  return `synced:${table}:${userId}${filter ? `:${filter.key}` : ''}`;
+}
+
+// Set by any successful query of the table, whatever its filter
+function tableSyncKey(table: SyncedTable, userId: string) {
+  return `synced-table:${table}:${userId}`;
+}
+
+// ─── Writes ───
+
+export async function writeRow<T extends SyncedTable>(table: T, row: LocalRow<T>): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  const stamped = { ...row, updated_at: updatedAt };
+  try {
+    await putLocalRows(table, [stamped]);
+    await enqueue({ table, op: 'upsert', id: row.id, row: stamped, updatedAt });
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+export async function removeRow(table: SyncedTable, id: string): Promise<void> {
+  try {
+    await deleteLocalRows(table, [id]);
+    await enqueue({ table, op: 'delete', id, updatedAt: new Date().toISOString() });
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+async function enqueue(entry: OutboxEntry) {
+  await addToOutbox(entry);
+  await refreshPendingCount();
+  void flushOutbox();
+}
+
+// ─── Outbox replay ───
+
+export function flushOutbox(): Promise<void> {
+  if (!flushing) flushing = replayOutbox().finally(() => { flushing = null; });
+  return flushing;
+}
+
+async function replayOutbox() {
+  if (!navigator.onLine) return;
+  setStatus({ syncing: true });
+  try {
+    for (const entry of await getOutbox()) {
+      if (!(await pushEntry(entry))) break;
+      await removeFromOutbox(entry.seq!);
+      await refreshPendingCount();
+    }
+  } finally {
+    setStatus({ syncing: false });
+  }
+}
+
+/**
+ * Send one outbox entry. Returns false when it should be retried later
+ * (network failure); entries that fail for any other reason are dropped and
+ * reported through `SyncStatus.rejected`.
+ */
+async function pushEntry(entry: OutboxEntry): Promise<boolean> {
+  const { data: remote, error: readError } = await supabase
+    .from(entry.table)
+    .select('updated_at')
+    .eq('id', entry.id)
+    .maybeSingle();
+  if (readError) return handlePushError(entry, readError);
+
+  const remoteUpdatedAt = (remote as { updated_at?: string | null } | null)?.updated_at;
+  if (remoteUpdatedAt && Date.parse(remoteUpdatedAt) > Date.parse(entry.updatedAt)) {
+    // The row changed elsewhere after this local edit: keep the newer remote version
+    await adoptRemoteRow(entry.table, entry.id);
+    return true;
+  }
+
+  const { error } = entry.op === 'upsert'
+    ? await supabase.from(entry.table).upsert(entry.row!)
+    : await supabase.from(entry.table).delete().eq('id', entry.id);
+  if (error) return handlePushError(entry, error);
+  return true;
+}
+
+async function handlePushError(entry: OutboxEntry, error: unknown): Promise<boolean> {
+  const storageError = toStorageError(error);
+  if (storageError.retryable) return false;
+  console.error(`[sync] ${entry.op} ${entry.table} ${entry.id} dropped:`, error);
+  setStatus({ rejected: storageError });
+  // Put back whatever Supabase still has so the cache doesn't keep the refused change
+  await adoptRemoteRow(entry.table, entry.id);
+  return true;
+}
+
+async function adoptRemoteRow(table: SyncedTable, id: string) {
+  const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+  if (error) return;
+  if (data) await putLocalRows(table, [data as LocalRow]);
+  else if (await getLocalRow(table, id)) await deleteLocalRows(table, [id]);
+  emitChange(table);
+}
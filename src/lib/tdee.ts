@@ -0,0 +1,71 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { BodyMetricEntry, Meal } from '@/types';
+import { weightTrend } from '@/lib/bodyMetrics';
+
+// Data-driven maintenance calories: over a rolling window, whatever was eaten
+// minus the energy stored or released as body weight is what was burned.
+// The estimate only replaces the formula once the window has enough logged
+// days and weigh-ins to say something.
+
+export const TDEE_WINDOW_DAYS = 28;
+export const MIN_INTAKE_DAYS = 14; // days with at least one meal logged
+export const MIN_WEIGH_INS = 4;
+export const MIN_WEIGHT_SPAN_DAYS = 14; // first to last weigh-in
+
+// Energy in a kilogram of body weight change, mostly fat
+export const KCAL_PER_KG = 7700;
+
+// 95% confidence
+const Z_95 = 1.96;
+
+export interface AdaptiveTdee {
+  from: string; // YYYY-MM-DD, first day of the window
+  to: string; // YYYY-MM-DD, last day of the window
+  intakeDays: number;
+  weighIns: number;
+  // null until the window has enough data
+  estimate: { tdee: number; low: number; high: number } | null;
+}
+
+/**
+ * Estimate maintenance calories from the `windowDays` days ending on `to`
+ * (YYYY-MM-DD): the average intake of days with meals logged, corrected by
+ * the weight trend (least-squares slope of the weigh-ins). The band combines
+ * the uncertainty of both.
+ */
+export function estimateAdaptiveTdee(
+  meals: Meal[], entries: BodyMetricEntry[], to: string, windowDays = TDEE_WINDOW_DAYS
+): AdaptiveTdee {
+  const from = format(addDays(parseISO(to), -(windowDays - 1)), 'yyyy-MM-dd');
+  const inWindow = (date: string) => date >= from && date <= to;
+
+  const intakeByDay = new Map<string, number>();
+  for (const meal of meals) {
+    if (!inWindow(meal.date) || meal.deletedAt) continue;
+    intakeByDay.set(meal.date, (intakeByDay.get(meal.date) ?? 0) + meal.totalCalories);
+  }
+  const intakes = [...intakeByDay.values()];
+
+  const weighIns = entries.filter(e => e.weight !== undefined && inWindow(e.date)).length;
+  const trend = weightTrend(entries, from, to);
+
+  const result = { from, to, intakeDays: intakes.length, weighIns };
+  if (intakes.length < MIN_INTAKE_DAYS || !trend || weighIns < MIN_WEIGH_INS || trend.spanDays < MIN_WEIGHT_SPAN_DAYS) {
+    return { ...result, estimate: null };
+  }
+
+  const intake = meanAndStandardError(intakes);
+  const tdee = intake.mean - trend.slope * KCAL_PER_KG;
+  const margin = Z_95 * Math.hypot(intake.standardError, trend.standardError * KCAL_PER_KG);
+
+  return {
+    ...result,
+    estimate: { tdee: Math.round(tdee), low: Math.round(tdee - margin), high: Math.round(tdee + margin) },
+  };
+}
+
+function meanAndStandardError(values: number[]) {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, standardError: Math.sqrt(variance / values.length) };
+}
@@ -0,0 +1,74 @@
+import { RecordVersion } from '@/types';
+
+// Labels for the edit history. Versions and the columns they changed come
+// from a database trigger; these turn them into what the history dialog shows.
+
+// Column names shown as changed fields
+const fieldLabels: Record<string, string> = {
+  name: 'nombre',
+  age: 'edad',
+  weight: 'peso',
+  height: 'altura',
+  sex: 'sexo',
+  activity_level: 'actividad',
+  goal: 'objetivo',
+  target_weight: 'peso objetivo',
+  target_date: 'fecha objetivo',
+  bmr_formula: 'fórmula',
+  macros: 'macros',
+  training_day_boost: 'ciclado',
+  exercise_eat_back: 'calorías del ejercicio',
+  resting_heart_rate: 'FC en reposo',
+  max_heart_rate: 'FC máxima',
+  onboarding_complete: 'configuración inicial',
+  date: 'fecha',
+  time: 'hora',
+  exercise_type: 'ejercicio',
+  duration: 'duración',
+  intensity: 'intensidad',
+  calories_burned: 'calorías',
+  avg_heart_rate: 'FC media',
+  distance: 'distancia',
+  elevation_gain: 'desnivel',
+  exercises: 'ejercicios',
+  program_id: 'programa',
+  notes: 'notas',
+  recurring: 'repetición',
+  recurrence_type: 'repetición',
+  recurrence_interval: 'repetición',
+  recurrence_days: 'días',
+  recurrence_end: 'fin de la serie',
+  recurrence_monthly_mode: 'repetición',
+  recurrence_month_day: 'repetición',
+  recurrence_week_of_month: 'repetición',
+  recurrence_weekday: 'repetición',
+  exceptions: 'sesiones sueltas',
+  meal_type: 'tipo de comida',
+  foods: 'alimentos',
+  total_calories: 'calorías',
+  total_protein: 'proteínas',
+  total_carbs: 'carbohidratos',
+  total_fat: 'grasas',
+  image_url: 'foto',
+  body_fat: 'grasa corporal',
+  waist: 'cintura',
+  hips: 'cadera',
+  chest: 'pecho',
+  arms: 'brazos',
+};
+
+/** What a version did to its record, as shown in the history. */
+export function operationLabel(version: RecordVersion<unknown>): string {
+  if (version.operation === 'insert') return 'Creado';
+  if (version.operation === 'delete') return 'Eliminado definitivamente';
+  if (version.changedFields.includes('deleted_at')) {
+    return (version.value as { deletedAt?: string }).deletedAt ? 'Movido a la papelera' : 'Restaurado';
+  }
+  return 'Modificado';
+}
+
+/** The fields a change touched, by name and without repeats. */
+export function changedFieldsLabel(fields: string[]): string {
+  const labels = fields.filter(f => f !== 'deleted_at').map(f => fieldLabels[f] ?? f);
+  return [...new Set(labels)].join(', ');
+}
@@ -1,5 +1,8 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { startSync } from "./lib/sync";
 import "./index.css";
 
+startSync();
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,28 +1,60 @@
-import { useState, useMemo, useEffect } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
+import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import {
   LayoutDashboard, Flame, TrendingUp, TrendingDown, Minus,
   Dumbbell, UtensilsCrossed, ChevronLeft, ChevronRight, Activity,
-  BarChart3, Calendar as CalendarIcon
+  BarChart3, Calendar as CalendarIcon, AlertTriangle
 } from 'lucide-react';
 import {
   format, addDays, subDays, isSameDay, startOfMonth, endOfMonth,
-  eachDayOfInterval, startOfWeek, endOfWeek, subWeeks, subMonths
+  eachDayOfInterval, startOfWeek, endOfWeek, subWeeks, subMonths, min, max, parseISO
 } from 'date-fns';
 import { es } from 'date-fns/locale';
 import {
   AreaChart, Area, XAxis, YAxis, CartesianGrid,
-  BarChart, Bar, PieChart, Pie, Cell,
+  BarChart, Bar, PieChart, Pie, Cell, LineChart, Line, ReferenceLine, ComposedChart,
   ResponsiveContainer, Tooltip, Legend
 } from 'recharts';
-import { getWorkouts, getMeals, getProfile, calculateDailyTargets } from '@/lib/storage';
-import { isWorkoutOnDate } from '@/lib/recurrence';
-import { Workout, Meal } from '@/types';
+import { calculateDailyTargets, calorieBudget, completedBurn } from '@/lib/storage';
+import { expandOccurrences, getOccurrencesOnDate, groupOccurrencesByDate } from '@/lib/recurrence';
+import { metricOnDate, movingAverage, weightOnDate } from '@/lib/bodyMetrics';
+import { projectGoal, GoalProjection } from '@/lib/goal';
+import { getWeekTraining } from '@/lib/cycling';
+import { DISTANCE_SPORTS, DistanceSport, formatPace, paceUnits, weeklyDistance } from '@/lib/cardio';
+import { exerciseLibrary, muscleGroupLabels, weeklySetsByMuscle } from '@/lib/exercises';
+import { useWorkouts } from '@/hooks/use-workouts';
+import { useMeals } from '@/hooks/use-meals';
+import { useProfile } from '@/hooks/use-profile';
+import { useBodyMetrics } from '@/hooks/use-body-metrics';
+import { useAdaptiveTdee } from '@/hooks/use-adaptive-tdee';
+import { useCustomExercises } from '@/hooks/use-custom-exercises';
+import LoadError from '@/components/LoadError';
+import { Workout, WorkoutOccurrence, Meal, DailyTargets, BodyMetricField, MuscleGroup } from '@/types';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 
 type StatsPeriod = 'day' | 'week' | 'month';
 
+// Shown until the profile has loaded
+const defaultTargets: DailyTargets = { calories: 2000, protein: 150, carbs: 225, fat: 67 };
+
+// How far back the streak is counted; longer streaks show as "90+"
+const STREAK_WINDOW_DAYS = 90;
+
+// How far back the body-metrics chart goes
+const BODY_TREND_DAYS = 90;
+
+// Weeks shown in the distance chart, this one included
+const DISTANCE_WEEKS = 12;
+
+const bodyTrendFields: { field: BodyMetricField; label: string; unit: string }[] = [
+  { field: 'weight', label: 'Peso', unit: 'kg' },
+  { field: 'bodyFat', label: 'Grasa', unit: '%' },
+  { field: 'waist', label: 'Cintura', unit: 'cm' },
+  { field: 'hips', label: 'Cadera', unit: 'cm' },
+  { field: 'chest', label: 'Pecho', unit: 'cm' },
+  { field: 'arms', label: 'Brazos', unit: 'cm' },
+];
+
 // ─── Helper: get the date range for a period ───
 function getPeriodDates(period: StatsPeriod, refDate: Date): Date[] {
   switch (period) {
@@ -41,15 +73,23 @@ function getPeriodDates(period: StatsPeriod, refDate: Date): Date[] {
 }
 
 // ─── Helper: aggregate data for period ───
+// Only completed sessions count towards burned calories and training time;
+// scheduledCount tracks what was due before today, for adherence; today's
+// sessions only count once they're marked completed or missed.
 function aggregateForPeriod(
   dates: Date[],
   workouts: Workout[],
   meals: Meal[]
 ) {
+  const todayStr = format(new Date(), 'yyyy-MM-dd');
+  const occurrencesByDate = groupOccurrencesByDate(expandOccurrences(workouts, dates[0], dates[dates.length - 1]));
+  const mealsByDate = groupMealsByDate(meals);
   return dates.map(day => {
     const ds = format(day, 'yyyy-MM-dd');
-    const dayWorkouts = workouts.filter(w => isWorkoutOnDate(w, day));
-    const dayMeals = meals.filter(m => m.date === ds);
+    const scheduled = occurrencesByDate.get(ds) ?? [];
+    const dayWorkouts = scheduled.filter(w => w.status === 'completed');
+    const due = ds < todayStr ? scheduled : ds === todayStr ? scheduled.filter(w => w.status !== 'planned') : [];
+    const dayMeals = mealsByDate.get(ds) ?? [];
 
     const caloriesIn = dayMeals.reduce((s, m) => s + m.totalCalories, 0);
     const caloriesOut = dayWorkouts.reduce((s, w) => s + w.caloriesBurned, 0);
@@ -69,11 +109,53 @@ function aggregateForPeriod(
       fat,
       workoutMinutes,
       workoutCount: dayWorkouts.length,
+      scheduledCount: due.length,
       workouts: dayWorkouts,
     };
   });
 }
 
+function groupMealsByDate(meals: Meal[]): Map<string, Meal[]> {
+  const byDate = new Map<string, Meal[]>();
+  for (const meal of meals) {
+    const list = byDate.get(meal.date);
+    if (list) list.push(meal);
+    else byDate.set(meal.date, [meal]);
+  }
+  return byDate;
+}
+
+// ─── Helper: consecutive active days up to today ───
+// A day is active with a completed workout or a logged meal. Only the last
+// STREAK_WINDOW_DAYS are loaded, so the count stops there.
+function calculateStreak(workouts: Workout[], mealDates: Set<string>): number {
+  const today = new Date();
+  const windowStart = subDays(today, STREAK_WINDOW_DAYS - 1);
+  const workoutDates = new Set(
+    expandOccurrences(workouts, windowStart, today)
+      .filter(w => w.status === 'completed')
+      .map(w => w.date)
+  );
+  let streak = 0;
+  for (let day = today; day >= windowStart; day = addDays(day, -1)) {
+    const ds = format(day, 'yyyy-MM-dd');
+    if (!workoutDates.has(ds) && !mealDates.has(ds)) break;
+    streak++;
+  }
+  return streak;
+}
+
+// ─── Helper: completed vs. scheduled sessions ───
+function calculateAdherence(days: ReturnType<typeof aggregateForPeriod>) {
+  const completed = days.reduce((s, d) => s + d.workoutCount, 0);
+  const scheduled = days.reduce((s, d) => s + d.scheduledCount, 0);
+  return {
+    completed,
+    scheduled,
+    pct: scheduled > 0 ? Math.round((completed / scheduled) * 100) : null,
+  };
+}
+
 const COLORS = {
   protein: 'hsl(var(--chart-1, 220 70% 50%))',
   carbs: 'hsl(var(--chart-2, 160 60% 45%))',
@@ -85,38 +167,72 @@ const COLORS = {
 const PIE_COLORS = ['#6366f1', '#10b981', '#f59e0b'];
 
 export default function Dashboard() {
-  const { user } = useAuth();
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [monthDate, setMonthDate] = useState(new Date());
   const [activeSection, setActiveSection] = useState<'today' | 'stats'>('today');
   const [statsPeriod, setStatsPeriod] = useState<StatsPeriod>('week');
-  const [workouts, setWorkouts] = useState<Workout[]>([]);
-  const [meals, setMeals] = useState<Meal[]>([]);
-  const [targets, setTargets] = useState({ calories: 2000, protein: 150, carbs: 225, fat: 67 });
-
-  useEffect(() => {
-    if (!user) return;
-    const load = async () => {
-      const [w, m, p] = await Promise.all([
-        getWorkouts(user.id),
-        getMeals(user.id),
-        getProfile(user.id),
-      ]);
-      setWorkouts(w);
-      setMeals(m);
-      if (p) setTargets(calculateDailyTargets(p));
-    };
-    load();
-  }, [user]);
+  const [trendField, setTrendField] = useState<BodyMetricField>('weight');
+  const [distanceSport, setDistanceSport] = useState<DistanceSport>('running');
+
+  const calDays = useMemo(() => {
+    const calStart = startOfWeek(startOfMonth(monthDate), { weekStartsOn: 1 });
+    const calEnd = endOfWeek(endOfMonth(monthDate), { weekStartsOn: 1 });
+    return eachDayOfInterval({ start: calStart, end: calEnd });
+  }, [monthDate]);
+
+  // Load only what's on screen: the calendar grid, the selected day's week
+  // (for calorie cycling), the streak window, the weeks of the distance chart
+  // and the current week and month used by the stats.
+  const today = new Date();
+  const distanceFrom = format(startOfWeek(subWeeks(today, DISTANCE_WEEKS - 1), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  const loadFrom = format(min([
+    calDays[0], startOfWeek(selectedDate, { weekStartsOn: 1 }), subDays(today, STREAK_WINDOW_DAYS - 1), parseISO(distanceFrom),
+  ]), 'yyyy-MM-dd');
+  const loadTo = format(max([calDays[calDays.length - 1], endOfWeek(selectedDate, { weekStartsOn: 1 }), endOfMonth(today), endOfWeek(today, { weekStartsOn: 1 })]), 'yyyy-MM-dd');
+
+  const workoutsQuery = useWorkouts(loadFrom, loadTo);
+  const mealsQuery = useMeals(loadFrom, loadTo);
+  const profileQuery = useProfile();
+  const bodyMetricsQuery = useBodyMetrics();
+  const adaptiveTdee = useAdaptiveTdee(selectedDate);
+  const customExercisesQuery = useCustomExercises();
+  const workouts = useMemo(() => workoutsQuery.data ?? [], [workoutsQuery.data]);
+  const meals = useMemo(() => mealsQuery.data ?? [], [mealsQuery.data]);
+  const bodyMetrics = useMemo(() => bodyMetricsQuery.data ?? [], [bodyMetricsQuery.data]);
+  const loadError = workoutsQuery.error ?? mealsQuery.error ?? profileQuery.error ?? bodyMetricsQuery.error;
+  const retrying = workoutsQuery.isFetching || mealsQuery.isFetching || profileQuery.isFetching || bodyMetricsQuery.isFetching;
+
+  const retryLoad = () => {
+    workoutsQuery.refetch();
+    mealsQuery.refetch();
+    profileQuery.refetch();
+    bodyMetricsQuery.refetch();
+  };
 
   // ─── Today data ───
   const dateStr = format(selectedDate, 'yyyy-MM-dd');
-  const dayWorkouts = workouts.filter(w => isWorkoutOnDate(w, selectedDate));
+  // Targets for a past day use the weight that was logged at the time, and
+  // the adaptive maintenance estimate of that week when there is one
+  const targets = profileQuery.data
+    ? calculateDailyTargets(
+      { ...profileQuery.data, weight: weightOnDate(bodyMetrics, dateStr, profileQuery.data.weight) },
+      {
+        maintenance: adaptiveTdee.data?.estimate?.tdee,
+        date: dateStr,
+        bodyFat: metricOnDate(bodyMetrics, 'bodyFat', dateStr),
+        week: getWeekTraining(workouts, selectedDate),
+      }
+    )
+    : defaultTargets;
+  const dayWorkouts = useMemo(() => getOccurrencesOnDate(workouts, selectedDate), [workouts, selectedDate]);
   const dayMeals = meals.filter(m => m.date === dateStr);
 
   const caloriesIn = dayMeals.reduce((s, m) => s + m.totalCalories, 0);
-  const caloriesOut = dayWorkouts.reduce((s, w) => s + w.caloriesBurned, 0);
+  const caloriesOut = completedBurn(dayWorkouts);
   const balance = caloriesIn - caloriesOut;
+  // The profile decides how much of the burn goes back into the day's budget
+  const budget = profileQuery.data ? calorieBudget(profileQuery.data, targets.calories, caloriesOut) : targets.calories;
+  const remaining = budget - caloriesIn;
 
   const macros = dayMeals.reduce(
     (acc, m) => ({ protein: acc.protein + m.totalProtein, carbs: acc.carbs + m.totalCarbs, fat: acc.fat + m.totalFat }),
@@ -129,27 +245,72 @@ export default function Dashboard() {
   ].sort((a, b) => a.time.localeCompare(b.time));
 
   // ─── Calendar ───
-  const monthStart = startOfMonth(monthDate);
-  const monthEnd = endOfMonth(monthDate);
-  const calStart = startOfWeek(monthStart, { weekStartsOn: 1 });
-  const calEnd = endOfWeek(monthEnd, { weekStartsOn: 1 });
-  const calDays = eachDayOfInterval({ start: calStart, end: calEnd });
+  const calOccurrences = useMemo(
+    () => groupOccurrencesByDate(expandOccurrences(workouts, calDays[0], calDays[calDays.length - 1])),
+    [workouts, calDays]
+  );
+  const mealDates = useMemo(() => new Set(meals.map(m => m.date)), [meals]);
 
   // ─── Streak ───
-  let streak = 0;
-  let checkDate = new Date();
-  while (true) {
-    const ds = format(checkDate, 'yyyy-MM-dd');
-    const hasActivity = workouts.some(w => isWorkoutOnDate(w, checkDate)) || meals.some(m => m.date === ds);
-    if (!hasActivity) break;
-    streak++;
-    checkDate = addDays(checkDate, -1);
-  }
+  const streak = useMemo(() => calculateStreak(workouts, mealDates), [workouts, mealDates]);
 
   // ─── Stats data ───
   const periodDates = useMemo(() => getPeriodDates(statsPeriod, new Date()), [statsPeriod]);
   const periodData = useMemo(() => aggregateForPeriod(periodDates, workouts, meals), [periodDates, workouts, meals]);
 
+  const adherence = useMemo(() => ({
+    week: calculateAdherence(aggregateForPeriod(getPeriodDates('week', new Date()), workouts, meals)),
+    month: calculateAdherence(aggregateForPeriod(getPeriodDates('month', new Date()), workouts, meals)),
+  }), [workouts, meals]);
+
+  // ─── Goal projection ───
+  const goalProjection = useMemo(() => {
+    const profile = profileQuery.data;
+    if (profile?.targetWeight === undefined) return null;
+    const projection = projectGoal(profile, bodyMetrics, format(new Date(), 'yyyy-MM-dd'));
+    return {
+      ...projection,
+      series: projection.series.map(p => ({ ...p, label: format(parseISO(p.date), 'd MMM', { locale: es }) })),
+    };
+  }, [profileQuery.data, bodyMetrics]);
+
+  // ─── Body metrics trend ───
+  const availableTrendFields = bodyTrendFields.filter(({ field }) => bodyMetrics.some(e => e[field] !== undefined));
+  const activeTrend = availableTrendFields.find(f => f.field === trendField) ?? availableTrendFields[0];
+  const trendData = useMemo(() => {
+    if (!activeTrend) return [];
+    // Averaged over the whole log first so the first points in range aren't cut short
+    const from = format(subDays(new Date(), BODY_TREND_DAYS - 1), 'yyyy-MM-dd');
+    return movingAverage(bodyMetrics, activeTrend.field)
+      .filter(p => p.date >= from)
+      .map(p => ({ ...p, label: format(parseISO(p.date), 'd MMM', { locale: es }) }));
+  }, [bodyMetrics, activeTrend]);
+
+  // ─── Weekly distance and pace ───
+  const distanceSessions = useMemo(
+    () => expandOccurrences(workouts, parseISO(distanceFrom), new Date()).filter(o => o.status === 'completed' && o.distance),
+    [workouts, distanceFrom]
+  );
+  const availableSports = DISTANCE_SPORTS.filter(s => distanceSessions.some(o => o.exerciseType === s));
+  const activeSport = availableSports.includes(distanceSport) ? distanceSport : availableSports[0];
+  const distanceData = useMemo(() => {
+    if (!activeSport) return [];
+    return weeklyDistance(distanceSessions, activeSport, parseISO(distanceFrom), DISTANCE_WEEKS).map(w => ({
+      ...w,
+      pace: w.pace === null ? null : Math.round(w.pace * 100) / 100,
+      label: format(parseISO(w.weekStart), 'd MMM', { locale: es }),
+    }));
+  }, [distanceSessions, activeSport, distanceFrom]);
+  const thisWeekDistance = distanceData[distanceData.length - 1];
+
+  // ─── Weekly sets per muscle group ───
+  const muscleSetsData = useMemo(() => {
+    const sets = weeklySetsByMuscle(workouts, exerciseLibrary(customExercisesQuery.data ?? []), new Date());
+    return (Object.entries(sets) as [MuscleGroup, number][])
+      .map(([muscle, count]) => ({ muscle, label: muscleGroupLabels[muscle], sets: count }))
+      .sort((a, b) => b.sets - a.sets);
+  }, [workouts, customExercisesQuery.data]);
+
   const totalStats = useMemo(() => {
     const totals = periodData.reduce((acc, d) => ({
       caloriesIn: acc.caloriesIn + d.caloriesIn,
@@ -205,7 +366,7 @@ export default function Dashboard() {
           {streak > 0 && (
             <div className="ml-auto glass-card px-3 py-1.5 flex items-center gap-1.5">
               <Activity className="w-4 h-4 text-primary" />
-              <span className="text-sm font-bold text-primary">{streak}</span>
+              <span className="text-sm font-bold text-primary">{streak}{streak >= STREAK_WINDOW_DAYS && '+'}</span>
               <span className="text-[10px] text-muted-foreground">días</span>
             </div>
           )}
@@ -233,8 +394,10 @@ export default function Dashboard() {
           </button>
         </div>
 
+        {loadError && <LoadError error={loadError} onRetry={retryLoad} retrying={retrying} />}
+
         {/* ═══════════ SECTION: HOY ═══════════ */}
-        {activeSection === 'today' && (
+        {!loadError && activeSection === 'today' && (
           <motion.div
             key="today"
             initial={{ opacity: 0, x: -20 }}
@@ -265,6 +428,11 @@ export default function Dashboard() {
               </div>
               <p className="text-[10px] text-center text-muted-foreground mt-2">
                 Objetivo: {targets.calories} kcal
+                {budget !== targets.calories && ` + ${budget - targets.calories} del ejercicio`}
+                {' · '}
+                <span className={remaining < 0 ? 'text-destructive' : ''}>
+                  {remaining >= 0 ? `Quedan ${remaining} kcal` : `Te has pasado ${-remaining} kcal`}
+                </span>
               </p>
             </div>
 
@@ -300,7 +468,7 @@ export default function Dashboard() {
                       <span className="text-xs text-muted-foreground w-10 shrink-0">{item.time}</span>
                       <div className={`w-1.5 h-1.5 rounded-full shrink-0 ${item.type === 'workout' ? 'bg-primary' : 'bg-secondary'}`} />
                       {item.type === 'workout' ? (
-                        <div className="flex items-center gap-2 text-sm">
+                        <div className={`flex items-center gap-2 text-sm ${(item.data as WorkoutOccurrence).status === 'completed' ? '' : 'opacity-50'}`}>
                           <Dumbbell className="w-3.5 h-3.5 text-primary" />
                           <span>{(item.data as any).exerciseType} · {(item.data as any).duration}min · {(item.data as any).caloriesBurned}kcal</span>
                         </div>
@@ -329,8 +497,8 @@ export default function Dashboard() {
                 ))}
                 {calDays.map(day => {
                   const ds = format(day, 'yyyy-MM-dd');
-                  const hasWorkout = workouts.some(w => isWorkoutOnDate(w, day));
-                  const hasMeal = meals.some(m => m.date === ds);
+                  const hasWorkout = calOccurrences.has(ds);
+                  const hasMeal = mealDates.has(ds);
                   const isCurrentMonth = day.getMonth() === monthDate.getMonth();
                   const isSelected = isSameDay(day, selectedDate);
                   return (
@@ -354,7 +522,7 @@ export default function Dashboard() {
         )}
 
         {/* ═══════════ SECTION: ESTADÍSTICAS ═══════════ */}
-        {activeSection === 'stats' && (
+        {!loadError && activeSection === 'stats' && (
           <motion.div
             key="stats"
             initial={{ opacity: 0, x: 20 }}
@@ -405,6 +573,305 @@ export default function Dashboard() {
               </div>
             </div>
 
+            {/* Plan Adherence */}
+            <div className="glass-card p-4 mb-4">
+              <h2 className="text-sm font-semibold text-muted-foreground mb-3">Adherencia al Plan</h2>
+              <div className="grid grid-cols-2 gap-3 text-center">
+                {([
+                  { label: 'Esta semana', data: adherence.week },
+                  { label: 'Este mes', data: adherence.month },
+                ]).map(({ label, data }) => (
+                  <div key={label}>
+                    <p className="text-[10px] text-muted-foreground uppercase tracking-wider">{label}</p>
+                    <p className="text-xl font-bold text-primary">{data.pct !== null ? `${data.pct}%` : '—'}</p>
+                    <p className="text-[10px] text-muted-foreground">{data.completed}/{data.scheduled} sesiones</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Goal Projection Chart */}
+            {goalProjection && profileQuery.data?.targetWeight !== undefined && (
+              <div className="glass-card p-4 mb-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-sm font-semibold text-muted-foreground">Objetivo de Peso</h2>
+                  <span className="text-[10px] text-muted-foreground">
+                    {goalProjection.currentWeight.toFixed(1)} kg → {profileQuery.data.targetWeight} kg
+                  </span>
+                </div>
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={goalProjection.series} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                      <XAxis
+                        dataKey="label"
+                        tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <YAxis
+                        domain={['dataMin - 1', 'dataMax + 1']}
+                        tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          borderColor: 'hsl(var(--border))',
+                          borderRadius: '8px',
+                          fontSize: '12px',
+                        }}
+                        labelStyle={{ color: 'hsl(var(--foreground))' }}
+                        formatter={(value: number) => `${value} kg`}
+                      />
+                      <ReferenceLine y={profileQuery.data.targetWeight} stroke="#10b981" strokeDasharray="2 4" />
+                      <Line type="monotone" dataKey="actual" name="Tendencia" stroke="#10b981" strokeWidth={2} dot={false} connectNulls />
+                      <Line type="linear" dataKey="plan" name="Plan" stroke="#6366f1" strokeWidth={2} strokeDasharray="5 4" dot={false} connectNulls />
+                      <Line type="linear" dataKey="projection" name="Al ritmo actual" stroke="#f59e0b" strokeWidth={2} strokeDasharray="2 3" dot={false} connectNulls />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="flex justify-center gap-4 mt-2">
+                  <div className="flex items-center gap-1.5 text-[10px]">
+                    <div className="w-2.5 h-2.5 rounded-sm bg-[#10b981]" />
+                    <span className="text-muted-foreground">Tendencia</span>
+                  </div>
+                  <div className="flex items-center gap-1.5 text-[10px]">
+                    <div className="w-2.5 h-2.5 rounded-sm bg-[#6366f1]" />
+                    <span className="text-muted-foreground">Plan</span>
+                  </div>
+                  <div className="flex items-center gap-1.5 text-[10px]">
+                    <div className="w-2.5 h-2.5 rounded-sm bg-[#f59e0b]" />
+                    <span className="text-muted-foreground">Al ritmo actual</span>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-3">{describeProjection(goalProjection)}</p>
+                {goalProjection.progress && goalProjection.progress !== 'on_track' && (
+                  <div className="flex items-start gap-2 text-xs text-destructive mt-2">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <p>{progressWarnings[goalProjection.progress]}</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Body Metrics Trend Chart */}
+            {activeTrend && trendData.length > 0 && (
+              <div className="glass-card p-4 mb-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-sm font-semibold text-muted-foreground">Evolución Corporal</h2>
+                  <span className="text-[10px] text-muted-foreground">Últimos {BODY_TREND_DAYS} días</span>
+                </div>
+                {availableTrendFields.length > 1 && (
+                  <div className="flex flex-wrap gap-1.5 mb-3">
+                    {availableTrendFields.map(f => (
+                      <button
+                        key={f.field}
+                        onClick={() => setTrendField(f.field)}
+                        className={`px-2.5 py-1 rounded-lg text-[10px] font-semibold transition-all ${activeTrend.field === f.field
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted text-muted-foreground hover:text-foreground'
+                          }`}
+                      >
+                        {f.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trendData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                      <XAxis
+                        dataKey="label"
+                        tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <YAxis
+                        domain={['dataMin - 1', 'dataMax + 1']}
+                        tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          borderColor: 'hsl(var(--border))',
+                          borderRadius: '8px',
+                          fontSize: '12px',
+                        }}
+                        labelStyle={{ color: 'hsl(var(--foreground))' }}
+                        formatter={(value: number) => `${value} ${activeTrend.unit}`}
+                      />
+                      <Line
+                        type="linear"
+                        dataKey="value"
+                        name="Registrado"
+                        stroke="#94a3b8"
+                        strokeWidth={0}
+                        dot={{ r: 2.5, fill: '#94a3b8' }}
+                        activeDot={{ r: 4 }}
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="trend"
+                        name="Media 7 días"
+                        stroke="#f59e0b"
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="flex justify-center gap-4 mt-2">
+                  <div className="flex items-center gap-1.5 text-[10px]">
+                    <div className="w-2.5 h-2.5 rounded-full bg-[#94a3b8]" />
+                    <span className="text-muted-foreground">Registrado</span>
+                  </div>
+                  <div className="flex items-center gap-1.5 text-[10px]">
+                    <div className="w-2.5 h-2.5 rounded-sm bg-[#f59e0b]" />
+                    <span className="text-muted-foreground">Media 7 días</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Weekly Distance Chart */}
+            {activeSport && (
+              <div className="glass-card p-4 mb-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-sm font-semibold text-muted-foreground">Distancia Semanal</h2>
+                  <span className="text-[10px] text-muted-foreground">Últimas {DISTANCE_WEEKS} semanas</span>
+                </div>
+                {availableSports.length > 1 && (
+                  <div className="flex flex-wrap gap-1.5 mb-3">
+                    {availableSports.map(s => (
+                      <button
+                        key={s}
+                        onClick={() => setDistanceSport(s)}
+                        className={`px-2.5 py-1 rounded-lg text-[10px] font-semibold transition-all ${activeSport === s
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted text-muted-foreground hover:text-foreground'
+                          }`}
+                      >
+                        {exerciseLabels[s]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground mb-3">
+                  Esta semana: {thisWeekDistance.distance} km
+                  {thisWeekDistance.pace !== null && ` · ritmo medio ${formatPace(activeSport, thisWeekDistance.pace)}`}
+                </p>
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={distanceData} margin={{ top: 5, right: 0, left: -20, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                      <XAxis
+                        dataKey="label"
+                        tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <YAxis
+                        yAxisId="distance"
+                        tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      {/* Faster is up: pace in minutes runs downwards, cycling speed upwards */}
+                      <YAxis
+                        yAxisId="pace"
+                        orientation="right"
+                        reversed={activeSport !== 'cycling'}
+                        domain={['auto', 'auto']}
+                        hide
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          borderColor: 'hsl(var(--border))',
+                          borderRadius: '8px',
+                          fontSize: '12px',
+                        }}
+                        labelStyle={{ color: 'hsl(var(--foreground))' }}
+                        formatter={(value: number, name: string) => name === 'Ritmo' ? formatPace(activeSport, value) : `${value} km`}
+                      />
+                      <Bar yAxisId="distance" dataKey="distance" name="Distancia" fill="#6366f1" radius={[4, 4, 0, 0]} />
+                      <Line
+                        yAxisId="pace"
+                        type="monotone"
+                        dataKey="pace"
+                        name="Ritmo"
+                        stroke="#f59e0b"
+                        strokeWidth={2}
+                        dot={{ r: 2.5, fill: '#f59e0b' }}
+                        connectNulls
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="flex justify-center gap-4 mt-2">
+                  <div className="flex items-center gap-1.5 text-[10px]">
+                    <div className="w-2.5 h-2.5 rounded-sm bg-[#6366f1]" />
+                    <span className="text-muted-foreground">Distancia (km)</span>
+                  </div>
+                  <div className="flex items-center gap-1.5 text-[10px]">
+                    <div className="w-2.5 h-2.5 rounded-full bg-[#f59e0b]" />
+                    <span className="text-muted-foreground">Ritmo ({paceUnits[activeSport]})</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Weekly Sets per Muscle Group */}
+            {muscleSetsData.length > 0 && (
+              <div className="glass-card p-4 mb-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-sm font-semibold text-muted-foreground">Series Semanales por Músculo</h2>
+                  <span className="text-[10px] text-muted-foreground">Esta semana</span>
+                </div>
+                <div style={{ height: Math.max(muscleSetsData.length * 28, 96) }}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={muscleSetsData} layout="vertical" margin={{ top: 0, right: 10, left: 10, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} horizontal={false} />
+                      <XAxis
+                        type="number"
+                        allowDecimals={false}
+                        tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <YAxis
+                        type="category"
+                        dataKey="label"
+                        width={80}
+                        tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          borderColor: 'hsl(var(--border))',
+                          borderRadius: '8px',
+                          fontSize: '12px',
+                        }}
+                        labelStyle={{ color: 'hsl(var(--foreground))' }}
+                        formatter={(value: number) => [`${value} series`, 'Series']}
+                      />
+                      <Bar dataKey="sets" fill="#6366f1" radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-[10px] text-muted-foreground mt-2">
+                  Los músculos secundarios de cada ejercicio cuentan media serie.
+                </p>
+              </div>
+            )}
+
             {/* Calorie Trend Chart */}
             {periodData.length > 1 && (
               <div className="glass-card p-4 mb-4">
@@ -590,6 +1057,23 @@ export default function Dashboard() {
   );
 }
 
+const progressWarnings: Record<Exclude<GoalProjection['progress'], 'on_track' | null>, string> = {
+  behind: 'Vas más lento de lo previsto. Revisa que estés registrando todas tus comidas.',
+  ahead: 'Vas más rápido de lo previsto. Un ritmo demasiado rápido puede costarte masa muscular.',
+  off_course: 'Tu peso va en dirección contraria a tu objetivo.',
+};
+
+function describeProjection(projection: GoalProjection): string {
+  const { weeklyTrend, weeklyPlan, expectedDate } = projection;
+  const kgPerWeek = (kg: number) => `${kg > 0 ? '+' : ''}${kg.toFixed(2)} kg/sem`;
+  const plan = `Plan: ${kgPerWeek(weeklyPlan)}.`;
+  if (weeklyTrend === null) return `${plan} Pésate al menos 3 veces a lo largo de una semana para ver tu ritmo real.`;
+  const arrival = expectedDate
+    ? `llegarás el ${format(parseISO(expectedDate), "d 'de' MMMM yyyy", { locale: es })}`
+    : 'no alcanzarás tu objetivo en el próximo año';
+  return `${plan} Tu ritmo: ${kgPerWeek(weeklyTrend)}; a este ritmo ${arrival}.`;
+}
+
 // Exercise type labels (shared with Training page — could be extracted)
 const exerciseLabels: Record<string, string> = {
   gym: 'Gimnasio',
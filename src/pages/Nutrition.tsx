@@ -3,13 +3,24 @@ import { motion, AnimatePresence } from 'framer-motion';
 import {
   Plus, UtensilsCrossed, Coffee, Sun, Moon, Cookie,
   ChevronLeft, ChevronRight, Trash2, Edit2, Flame,
-  Sparkles, Loader2, Mic, MicOff, Camera, Image as ImageIcon
+  Sparkles, Loader2, Mic, MicOff, Camera, Image as ImageIcon, History
 } from 'lucide-react';
-import { format, addDays, isSameDay } from 'date-fns';
+import { format, addDays, isSameDay, startOfWeek, endOfWeek } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { Meal, MealType, FoodItem } from '@/types';
-import { getMeals, saveMeal, deleteMeal, generateId, getProfile, calculateDailyTargets } from '@/lib/storage';
+import { Meal, MealType, FoodItem, DailyTargets } from '@/types';
+import { generateId, calculateDailyTargets, calorieBudget, completedBurn } from '@/lib/storage';
 import { analyzeTextWithGemini, analyzeImageWithGemini, fileToBase64 } from '@/lib/gemini';
+import { useMeals, useSaveMeal, useDeleteMeal, useRestoreMeal } from '@/hooks/use-meals';
+import { useWorkouts } from '@/hooks/use-workouts';
+import { useProfile } from '@/hooks/use-profile';
+import { useBodyMetrics } from '@/hooks/use-body-metrics';
+import { useAdaptiveTdee } from '@/hooks/use-adaptive-tdee';
+import { metricOnDate, weightOnDate } from '@/lib/bodyMetrics';
+import { getWeekTraining } from '@/lib/cycling';
+import { getOccurrencesOnDate } from '@/lib/recurrence';
+import { getErrorMessage } from '@/lib/errors';
+import LoadError from '@/components/LoadError';
+import HistoryDialog from '@/components/HistoryDialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -20,6 +31,9 @@ import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
 
+// Shown until the profile has loaded
+const defaultTargets: DailyTargets = { calories: 2000, protein: 150, carbs: 225, fat: 67 };
+
 const mealTypeConfig: Record<MealType, { label: string; icon: any; color: string }> = {
   breakfast: { label: 'Desayuno', icon: Coffee, color: 'text-primary' },
   lunch: { label: 'Almuerzo', icon: Sun, color: 'text-secondary' },
@@ -29,23 +43,49 @@ const mealTypeConfig: Record<MealType, { label: string; icon: any; color: string
 
 export default function Nutrition() {
   const { user } = useAuth();
-  const [meals, setMeals] = useState<Meal[]>([]);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [showForm, setShowForm] = useState(false);
   const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
-  const [targets, setTargets] = useState({ calories: 2000, protein: 150, carbs: 225, fat: 67 });
-
-  useEffect(() => {
-    if (!user) return;
-    const load = async () => {
-      const [m, p] = await Promise.all([getMeals(user.id), getProfile(user.id)]);
-      setMeals(m);
-      if (p) setTargets(calculateDailyTargets(p));
-    };
-    load();
-  }, [user]);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  // Meals and workouts (for calorie cycling) are loaded a week at a time
+  // around the selected day
+  const weekFrom = format(startOfWeek(selectedDate, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  const weekTo = format(endOfWeek(selectedDate, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+  const mealsQuery = useMeals(weekFrom, weekTo);
+  const workoutsQuery = useWorkouts(weekFrom, weekTo);
+  const profileQuery = useProfile();
+  const bodyMetricsQuery = useBodyMetrics();
+  const adaptiveTdee = useAdaptiveTdee(selectedDate);
+  const saveMeal = useSaveMeal();
+  const deleteMeal = useDeleteMeal();
+  const restoreMeal = useRestoreMeal();
+  const meals = mealsQuery.data ?? [];
+  const loadError = mealsQuery.error ?? workoutsQuery.error ?? profileQuery.error ?? bodyMetricsQuery.error;
+
+  const retryLoad = () => {
+    mealsQuery.refetch();
+    workoutsQuery.refetch();
+    profileQuery.refetch();
+    bodyMetricsQuery.refetch();
+  };
 
   const dateStr = format(selectedDate, 'yyyy-MM-dd');
+  // Targets for a past day use the weight that was logged at the time, and
+  // the adaptive maintenance estimate of that week when there is one
+  const bodyMetrics = bodyMetricsQuery.data ?? [];
+  const targets = profileQuery.data
+    ? calculateDailyTargets(
+      { ...profileQuery.data, weight: weightOnDate(bodyMetrics, dateStr, profileQuery.data.weight) },
+      {
+        maintenance: adaptiveTdee.data?.estimate?.tdee,
+        date: dateStr,
+        bodyFat: metricOnDate(bodyMetrics, 'bodyFat', dateStr),
+        week: getWeekTraining(workoutsQuery.data ?? [], selectedDate),
+      }
+    )
+    : defaultTargets;
   const dayMeals = meals.filter(m => m.date === dateStr);
 
   const totals = dayMeals.reduce(
@@ -57,21 +97,46 @@ export default function Nutrition() {
     }),
     { calories: 0, protein: 0, carbs: 0, fat: 0 }
   );
+  // Completed workouts add the profile's eat-back share to the day's budget
+  const burned = completedBurn(getOccurrencesOnDate(workoutsQuery.data ?? [], selectedDate));
+  const budget = profileQuery.data ? calorieBudget(profileQuery.data, targets.calories, burned) : targets.calories;
+  const remaining = budget - totals.calories;
 
   const handleSave = async (meal: Meal) => {
     if (!user) return;
-    await saveMeal(user.id, meal);
-    setMeals(await getMeals(user.id));
+    try {
+      await saveMeal.mutateAsync(meal);
+    } catch (err) {
+      console.error('[handleSave]', err);
+      toast.error(`No se pudo guardar la comida. ${getErrorMessage(err)}`);
+      return;
+    }
     setShowForm(false);
     setEditingMeal(null);
     toast.success(editingMeal ? 'Comida actualizada' : 'Comida registrada');
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (meal: Meal) => {
     if (!user) return;
-    await deleteMeal(id);
-    setMeals(await getMeals(user.id));
-    toast.success('Comida eliminada');
+    try {
+      await deleteMeal.mutateAsync(meal);
+      toast.success('Comida movida a la papelera', {
+        action: { label: 'Deshacer', onClick: () => handleRestore(meal) },
+      });
+    } catch (err) {
+      console.error('[handleDelete]', err);
+      toast.error(`No se pudo eliminar la comida. ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleRestore = async (meal: Meal) => {
+    try {
+      await restoreMeal.mutateAsync(meal);
+      toast.success('Comida restaurada');
+    } catch (err) {
+      console.error('[handleRestore]', err);
+      toast.error(`No se pudo restaurar la comida. ${getErrorMessage(err)}`);
+    }
   };
 
   const mealTypes: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
@@ -109,91 +174,104 @@ export default function Nutrition() {
           </button>
         </div>
 
-        {/* Daily Summary */}
-        <div className="glass-card p-4 mb-4">
-          <div className="flex items-center justify-between mb-3">
-            <div className="flex items-center gap-2">
-              <Flame className="w-4 h-4 text-primary" />
-              <span className="text-sm font-semibold">Resumen del día</span>
-            </div>
-            <span className="stat-number text-lg text-primary">{totals.calories}<span className="text-xs text-muted-foreground font-normal"> / {targets.calories} kcal</span></span>
-          </div>
-          <Progress value={Math.min((totals.calories / targets.calories) * 100, 100)} className="h-2 mb-3" />
-          <div className="grid grid-cols-3 gap-2">
-            {[
-              { label: 'Proteínas', value: totals.protein, target: targets.protein, color: 'bg-secondary' },
-              { label: 'Carbos', value: totals.carbs, target: targets.carbs, color: 'bg-accent' },
-              { label: 'Grasas', value: totals.fat, target: targets.fat, color: 'bg-profile' },
-            ].map(m => (
-              <div key={m.label} className="text-center">
-                <p className="text-xs text-muted-foreground">{m.label}</p>
-                <p className="text-sm font-bold">{m.value}g <span className="text-xs text-muted-foreground font-normal">/ {m.target}g</span></p>
-                <div className="w-full h-1.5 bg-muted rounded-full mt-1">
-                  <div className={`h-full rounded-full ${m.color}`} style={{ width: `${Math.min((m.value / m.target) * 100, 100)}%` }} />
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
-
-        {/* Meals by type */}
-        {mealTypes.map(type => {
-          const { label, icon: Icon, color } = mealTypeConfig[type];
-          const typeMeals = dayMeals.filter(m => m.mealType === type);
-          return (
-            <div key={type} className="mb-3">
-              <div className="flex items-center justify-between mb-2">
+        {loadError ? (
+          <LoadError error={loadError} onRetry={retryLoad} retrying={mealsQuery.isFetching || workoutsQuery.isFetching || profileQuery.isFetching} />
+        ) : (
+          <>
+            {/* Daily Summary */}
+            <div className="glass-card p-4 mb-4">
+              <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center gap-2">
-                  <Icon className={`w-4 h-4 ${color}`} />
-                  <span className="text-sm font-semibold">{label}</span>
+                  <Flame className="w-4 h-4 text-primary" />
+                  <span className="text-sm font-semibold">Resumen del día</span>
                 </div>
-                <button
-                  onClick={() => { setEditingMeal(null); setShowForm(true); }}
-                  className="text-xs text-muted-foreground hover:text-foreground"
-                >
-                  <Plus className="w-3.5 h-3.5" />
-                </button>
+                <span className="stat-number text-lg text-primary">{totals.calories}<span className="text-xs text-muted-foreground font-normal"> / {budget} kcal</span></span>
               </div>
-              <AnimatePresence>
-                {typeMeals.length === 0 ? (
-                  <div className="glass-card p-3 text-center">
-                    <p className="text-xs text-muted-foreground">Sin registro</p>
+              <Progress value={Math.min((totals.calories / budget) * 100, 100)} className="h-2 mb-1" />
+              <p className={`text-[10px] text-right mb-3 ${remaining < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {remaining >= 0 ? `Quedan ${remaining} kcal` : `Te has pasado ${-remaining} kcal`}
+                {budget !== targets.calories && ` (incluye ${budget - targets.calories} del ejercicio)`}
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                {[
+                  { label: 'Proteínas', value: totals.protein, target: targets.protein, color: 'bg-secondary' },
+                  { label: 'Carbos', value: totals.carbs, target: targets.carbs, color: 'bg-accent' },
+                  { label: 'Grasas', value: totals.fat, target: targets.fat, color: 'bg-profile' },
+                ].map(m => (
+                  <div key={m.label} className="text-center">
+                    <p className="text-xs text-muted-foreground">{m.label}</p>
+                    <p className="text-sm font-bold">{m.value}g <span className="text-xs text-muted-foreground font-normal">/ {m.target}g</span></p>
+                    <div className="w-full h-1.5 bg-muted rounded-full mt-1">
+                      <div className={`h-full rounded-full ${m.color}`} style={{ width: `${Math.min((m.value / m.target) * 100, 100)}%` }} />
+                    </div>
                   </div>
-                ) : (
-                  typeMeals.map(meal => (
-                    <motion.div
-                      key={meal.id}
-                      layout
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                      exit={{ opacity: 0 }}
-                      className="glass-card p-3 mb-1.5"
+                ))}
+              </div>
+            </div>
+
+            {/* Meals by type */}
+            {mealTypes.map(type => {
+              const { label, icon: Icon, color } = mealTypeConfig[type];
+              const typeMeals = dayMeals.filter(m => m.mealType === type);
+              return (
+                <div key={type} className="mb-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                      <Icon className={`w-4 h-4 ${color}`} />
+                      <span className="text-sm font-semibold">{label}</span>
+                    </div>
+                    <button
+                      onClick={() => { setEditingMeal(null); setShowForm(true); }}
+                      className="text-xs text-muted-foreground hover:text-foreground"
                     >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          {meal.foods.map((f, i) => (
-                            <p key={i} className="text-sm">{f.name} <span className="text-xs text-muted-foreground">{f.calories} kcal</span></p>
-                          ))}
-                          <p className="text-xs text-muted-foreground mt-1">
-                            Total: {meal.totalCalories} kcal · P:{meal.totalProtein}g · C:{meal.totalCarbs}g · G:{meal.totalFat}g
-                          </p>
-                        </div>
-                        <div className="flex gap-1 ml-2">
-                          <button onClick={() => { setEditingMeal(meal); setShowForm(true); }} className="p-1 rounded hover:bg-muted">
-                            <Edit2 className="w-3.5 h-3.5 text-muted-foreground" />
-                          </button>
-                          <button onClick={() => handleDelete(meal.id)} className="p-1 rounded hover:bg-muted">
-                            <Trash2 className="w-3.5 h-3.5 text-destructive" />
-                          </button>
-                        </div>
+                      <Plus className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <AnimatePresence>
+                    {typeMeals.length === 0 ? (
+                      <div className="glass-card p-3 text-center">
+                        <p className="text-xs text-muted-foreground">Sin registro</p>
                       </div>
-                    </motion.div>
-                  ))
-                )}
-              </AnimatePresence>
-            </div>
-          );
-        })}
+                    ) : (
+                      typeMeals.map(meal => (
+                        <motion.div
+                          key={meal.id}
+                          layout
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: 1 }}
+                          exit={{ opacity: 0 }}
+                          className="glass-card p-3 mb-1.5"
+                        >
+                          <div className="flex items-start justify-between">
+                            <div className="flex-1">
+                              {meal.foods.map((f, i) => (
+                                <p key={i} className="text-sm">{f.name} <span className="text-xs text-muted-foreground">{f.calories} kcal</span></p>
+                              ))}
+                              <p className="text-xs text-muted-foreground mt-1">
+                                Total: {meal.totalCalories} kcal · P:{meal.totalProtein}g · C:{meal.totalCarbs}g · G:{meal.totalFat}g
+                              </p>
+                            </div>
+                            <div className="flex gap-1 ml-2">
+                              <button onClick={() => setHistoryFor(meal.id)} className="p-1 rounded hover:bg-muted" aria-label="Historial">
+                                <History className="w-3.5 h-3.5 text-muted-foreground" />
+                              </button>
+                              <button onClick={() => { setEditingMeal(meal); setShowForm(true); }} className="p-1 rounded hover:bg-muted">
+                                <Edit2 className="w-3.5 h-3.5 text-muted-foreground" />
+                              </button>
+                              <button onClick={() => handleDelete(meal)} className="p-1 rounded hover:bg-muted">
+                                <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                              </button>
+                            </div>
+                          </div>
+                        </motion.div>
+                      ))
+                    )}
+                  </AnimatePresence>
+                </div>
+              );
+            })}
+          </>
+        )}
       </motion.div>
 
       <MealFormDialog
@@ -203,6 +281,15 @@ export default function Nutrition() {
         date={dateStr}
         editing={editingMeal}
       />
+
+      <HistoryDialog
+        table="meals"
+        recordId={historyFor}
+        title="Historial de la comida"
+        onClose={() => setHistoryFor(null)}
+        describe={m => `${mealTypeConfig[m.mealType].label} · ${m.foods.map(f => f.name).join(', ') || 'sin alimentos'} · ${m.totalCalories} kcal`}
+        onRevert={m => saveMeal.mutateAsync({ ...m, deletedAt: undefined })}
+      />
     </div>
   );
 }
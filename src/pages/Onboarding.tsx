@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Sparkles, ArrowRight, User, Activity, Target } from 'lucide-react';
 import { UserProfile } from '@/types';
-import { saveProfile } from '@/lib/storage';
+import { useSaveProfile } from '@/hooks/use-profile';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,6 +14,7 @@ import { toast } from 'sonner';
 export default function Onboarding() {
     const { user } = useAuth();
     const navigate = useNavigate();
+    const saveProfile = useSaveProfile();
 
     const [name, setName] = useState('');
     const [age, setAge] = useState(25);
@@ -33,7 +34,7 @@ export default function Onboarding() {
 
         setSaving(true);
         try {
-            await saveProfile(user.id, {
+            await saveProfile.mutateAsync({
                 name: name.trim(),
                 age,
                 sex,
@@ -41,6 +42,7 @@ export default function Onboarding() {
                 height,
                 activityLevel,
                 goal,
+                bmrFormula: 'mifflin',
                 onboardingComplete: true,
             });
             toast.success('¡Perfil creado! Bienvenido/a, ' + name.trim());
@@ -1,8 +1,26 @@
-import { useState, useEffect } from 'react';
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { User, Target, Flame, Save, LogOut, Pencil, X } from 'lucide-react';
-import { UserProfile } from '@/types';
-import { getProfile, saveProfile, calculateDailyTargets } from '@/lib/storage';
+import { User, Target, Flame, Save, LogOut, Pencil, X, History, AlertTriangle, SlidersHorizontal } from 'lucide-react';
+import { UserProfile, BmrFormula, EatBackPercent, MacroSettings } from '@/types';
+import { endOfWeek, format, parseISO, startOfWeek } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { calculateDailyTargets, estimateFormulaTdee, activityMultipliers, generateId } from '@/lib/storage';
+import { calculateBmr, LEAN_MASS_FORMULAS } from '@/lib/bmr';
+import { estimatedMaxHeartRate, heartRateRange, HEART_RATE_LIMITS, heartRateInRange } from '@/lib/heartRate';
+import { metricOnDate } from '@/lib/bodyMetrics';
+import { cycleTargets, getWeekTraining } from '@/lib/cycling';
+import { useProfile, useSaveProfile } from '@/hooks/use-profile';
+import { useBodyMetrics, useSaveBodyMetric } from '@/hooks/use-body-metrics';
+import { useAdaptiveTdee } from '@/hooks/use-adaptive-tdee';
+import { useWorkouts } from '@/hooks/use-workouts';
+import { planGoal, goalForTarget, MIN_DAILY_CALORIES, MAX_WEEKLY_LOSS, MAX_WEEKLY_GAIN } from '@/lib/goal';
+import { getErrorMessage } from '@/lib/errors';
+import LoadError from '@/components/LoadError';
+import TrashCard from '@/components/TrashCard';
+import BodyMetricsCard from '@/components/BodyMetricsCard';
+import TdeeCard from '@/components/TdeeCard';
+import MacroSettingsDialog from '@/components/MacroSettingsDialog';
+import HistoryDialog from '@/components/HistoryDialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,6 +36,7 @@ const defaultProfile: UserProfile = {
   sex: 'male',
   activityLevel: 'moderate',
   goal: 'maintain',
+  bmrFormula: 'mifflin',
   onboardingComplete: false,
 };
 
@@ -35,33 +54,99 @@ const goalLabels: Record<string, string> = {
   maintain: 'Mantenimiento',
 };
 
+function describeMacros(macros: MacroSettings | undefined): string {
+  switch (macros?.mode) {
+    case 'percent':
+      return `Macros personalizados: ${macros.protein}% proteínas, ${macros.carbs}% carbohidratos, ${macros.fat}% grasas.`;
+    case 'grams':
+      return 'Macros personalizados en gramos fijos; las calorías son las que suman.';
+    case 'protein_per_kg':
+      return `Proteína a ${macros.gramsPerKg} g/kg de ${macros.basis === 'lean_mass' ? 'masa magra' : 'peso corporal'}; carbohidratos y grasas cubren el resto.`;
+    default:
+      return 'Macros repartidos según tu objetivo.';
+  }
+}
+
+const eatBackLabels: Record<EatBackPercent, string> = {
+  0: 'No sumarlas',
+  50: 'Sumar la mitad',
+  100: 'Sumarlas todas',
+};
+
+const bmrFormulaLabels: Record<BmrFormula, string> = {
+  mifflin: 'Mifflin-St Jeor',
+  harris_benedict: 'Harris-Benedict revisada',
+  katch_mcardle: 'Katch-McArdle',
+  cunningham: 'Cunningham',
+};
+
 export default function Profile() {
   const { user, signOut } = useAuth();
-  const [profile, setProfile] = useState<UserProfile>(defaultProfile);
+  const profileQuery = useProfile();
+  const saveProfile = useSaveProfile();
+  const bodyMetricsQuery = useBodyMetrics();
+  const saveBodyMetric = useSaveBodyMetric();
+  const adaptiveTdee = useAdaptiveTdee(new Date());
+  const weekWorkoutsQuery = useWorkouts(
+    format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+    format(endOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+  );
+  const profile = profileQuery.data ?? defaultProfile;
   const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showMacros, setShowMacros] = useState(false);
   const [editProfile, setEditProfile] = useState<UserProfile>(defaultProfile);
+  const [targetDateDisplay, setTargetDateDisplay] = useState('');
 
-  useEffect(() => {
-    if (!user) return;
-    getProfile(user.id).then(saved => {
-      if (saved) {
-        setProfile(saved);
-        setEditProfile(saved);
-      }
-    });
-  }, [user]);
+  const bodyFat = metricOnDate(bodyMetricsQuery.data ?? [], 'bodyFat', format(new Date(), 'yyyy-MM-dd'));
+  const bmr = calculateBmr(profile, bodyFat);
+  const formulaTdee = estimateFormulaTdee(profile, bodyFat);
+  const adaptiveMaintenance = adaptiveTdee.data?.estimate?.tdee;
+  const targets = useMemo(
+    () => calculateDailyTargets(profile, { maintenance: adaptiveMaintenance, bodyFat }),
+    [profile, adaptiveMaintenance, bodyFat]
+  );
+  const plan = planGoal(profile, format(new Date(), 'yyyy-MM-dd'));
+  // The cards show the uncycled average; cycling is previewed for this week
+  const { trainingDays } = getWeekTraining(weekWorkoutsQuery.data ?? [], new Date());
+  const cycled = (trainingDay: boolean) =>
+    cycleTargets(targets, { trainingDay, trainingDays }, profile.trainingDayBoost ?? 0, MIN_DAILY_CALORIES[profile.sex]);
 
-  const targets = calculateDailyTargets(profile);
+  const restingHeartRateInvalid = !heartRateInRange(editProfile.restingHeartRate, HEART_RATE_LIMITS.resting);
+  const maxHeartRateInvalid = !heartRateInRange(editProfile.maxHeartRate, HEART_RATE_LIMITS.max);
 
   const handleSave = async () => {
     if (!user) return;
     const updated = { ...editProfile, onboardingComplete: true };
-    await saveProfile(user.id, updated);
-    setProfile(updated);
+    try {
+      await saveProfile.mutateAsync(updated);
+      // A new weight is also logged for today so the previous one stays in the history
+      if (updated.weight !== profile.weight) {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        const todayEntry = bodyMetricsQuery.data?.find(e => e.date === today);
+        await saveBodyMetric.mutateAsync({ ...(todayEntry ?? { id: generateId(), date: today }), weight: updated.weight });
+      }
+    } catch (err) {
+      console.error('[handleSave]', err);
+      toast.error(`No se pudo guardar el perfil. ${getErrorMessage(err)}`);
+      return;
+    }
     setEditing(false);
     toast.success('Perfil actualizado');
   };
 
+  const handleSaveMacros = async (macros: MacroSettings | undefined, trainingDayBoost: number) => {
+    try {
+      await saveProfile.mutateAsync({ ...profile, macros, trainingDayBoost });
+    } catch (err) {
+      console.error('[handleSaveMacros]', err);
+      toast.error(`No se pudieron guardar los macros. ${getErrorMessage(err)}`);
+      return;
+    }
+    setShowMacros(false);
+    toast.success('Macros actualizados');
+  };
+
   const handleCancel = () => {
     setEditProfile(profile);
     setEditing(false);
@@ -69,6 +154,7 @@ export default function Profile() {
 
   const startEditing = () => {
     setEditProfile(profile);
+    setTargetDateDisplay(profile.targetDate ? profile.targetDate.split('-').reverse().join('/') : '');
     setEditing(true);
   };
 
@@ -76,6 +162,17 @@ export default function Profile() {
     setEditProfile(prev => ({ ...prev, [field]: value }));
   };
 
+  // The goal follows the direction of the target weight
+  const updateTargetWeight = (targetWeight: number | undefined) => {
+    if (targetWeight === undefined) setTargetDateDisplay('');
+    setEditProfile(prev => ({
+      ...prev,
+      targetWeight,
+      targetDate: targetWeight === undefined ? undefined : prev.targetDate,
+      goal: targetWeight === undefined ? prev.goal : goalForTarget(prev.weight, targetWeight),
+    }));
+  };
+
   return (
     <div className="px-4 pt-6 pb-4 max-w-lg mx-auto">
       <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
@@ -91,176 +188,382 @@ export default function Profile() {
         </div>
 
         <div className="space-y-4">
-          {/* Personal Data Card */}
-          <div className="glass-card p-4 space-y-4">
-            <div className="flex items-center justify-between">
-              <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">Datos Personales</h2>
-              {!editing && (
-                <button
-                  onClick={startEditing}
-                  className="flex items-center gap-1 text-xs text-primary hover:text-primary/80 transition-colors font-medium"
-                >
-                  <Pencil className="w-3.5 h-3.5" /> Editar
-                </button>
-              )}
-            </div>
-
-            {editing ? (
-              /* ─── Edit Mode ─── */
-              <motion.div
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                className="space-y-3"
-              >
-                <div className="space-y-1.5">
-                  <Label className="text-xs">Nombre</Label>
-                  <Input
-                    value={editProfile.name}
-                    onChange={e => update('name', e.target.value)}
-                    className="bg-muted border-border"
-                  />
+          {profileQuery.error ? (
+            <LoadError error={profileQuery.error} onRetry={() => profileQuery.refetch()} retrying={profileQuery.isFetching} />
+          ) : (
+            <>
+              {/* Personal Data Card */}
+              <div className="glass-card p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">Datos Personales</h2>
+                  {!editing && (
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => setShowHistory(true)}
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors font-medium"
+                      >
+                        <History className="w-3.5 h-3.5" /> Historial
+                      </button>
+                      <button
+                        onClick={startEditing}
+                        className="flex items-center gap-1 text-xs text-primary hover:text-primary/80 transition-colors font-medium"
+                      >
+                        <Pencil className="w-3.5 h-3.5" /> Editar
+                      </button>
+                    </div>
+                  )}
                 </div>
 
-                <div className="grid grid-cols-2 gap-3">
-                  <div className="space-y-1.5">
-                    <Label className="text-xs">Edad</Label>
-                    <Input
-                      type="number"
-                      value={editProfile.age}
-                      onChange={e => update('age', parseInt(e.target.value) || 0)}
-                      className="bg-muted border-border"
-                    />
-                  </div>
-                  <div className="space-y-1.5">
-                    <Label className="text-xs">Sexo</Label>
-                    <Select value={editProfile.sex} onValueChange={v => update('sex', v)}>
-                      <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="male">Hombre</SelectItem>
-                        <SelectItem value="female">Mujer</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
+                {editing ? (
+                  /* ─── Edit Mode ─── */
+                  <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    className="space-y-3"
+                  >
+                    <div className="space-y-1.5">
+                      <Label className="text-xs">Nombre</Label>
+                      <Input
+                        value={editProfile.name}
+                        onChange={e => update('name', e.target.value)}
+                        className="bg-muted border-border"
+                      />
+                    </div>
 
-                <div className="grid grid-cols-2 gap-3">
-                  <div className="space-y-1.5">
-                    <Label className="text-xs">Peso (kg)</Label>
-                    <Input
-                      type="number"
-                      value={editProfile.weight}
-                      onChange={e => update('weight', parseFloat(e.target.value) || 0)}
-                      className="bg-muted border-border"
-                    />
-                  </div>
-                  <div className="space-y-1.5">
-                    <Label className="text-xs">Altura (cm)</Label>
-                    <Input
-                      type="number"
-                      value={editProfile.height}
-                      onChange={e => update('height', parseInt(e.target.value) || 0)}
-                      className="bg-muted border-border"
-                    />
-                  </div>
-                </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">Edad</Label>
+                        <Input
+                          type="number"
+                          value={editProfile.age}
+                          onChange={e => update('age', parseInt(e.target.value) || 0)}
+                          className="bg-muted border-border"
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">Sexo</Label>
+                        <Select value={editProfile.sex} onValueChange={v => update('sex', v)}>
+                          <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="male">Hombre</SelectItem>
+                            <SelectItem value="female">Mujer</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
 
-                <div className="space-y-1.5">
-                  <Label className="text-xs">Nivel de actividad</Label>
-                  <Select value={editProfile.activityLevel} onValueChange={v => update('activityLevel', v)}>
-                    <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="sedentary">Sedentario</SelectItem>
-                      <SelectItem value="light">Actividad ligera</SelectItem>
-                      <SelectItem value="moderate">Moderado</SelectItem>
-                      <SelectItem value="active">Activo</SelectItem>
-                      <SelectItem value="very_active">Muy activo</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">Peso (kg)</Label>
+                        <Input
+                          type="number"
+                          value={editProfile.weight}
+                          onChange={e => update('weight', parseFloat(e.target.value) || 0)}
+                          className="bg-muted border-border"
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">Altura (cm)</Label>
+                        <Input
+                          type="number"
+                          value={editProfile.height}
+                          onChange={e => update('height', parseInt(e.target.value) || 0)}
+                          className="bg-muted border-border"
+                        />
+                      </div>
+                    </div>
 
-                <div className="space-y-1.5">
-                  <Label className="text-xs">Objetivo</Label>
-                  <Select value={editProfile.goal} onValueChange={v => update('goal', v)}>
-                    <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="lose_fat">Perder grasa</SelectItem>
-                      <SelectItem value="gain_muscle">Ganar músculo</SelectItem>
-                      <SelectItem value="maintain">Mantenimiento</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                    <div className="space-y-1.5">
+                      <Label className="text-xs">Nivel de actividad</Label>
+                      <Select value={editProfile.activityLevel} onValueChange={v => update('activityLevel', v)}>
+                        <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="sedentary">Sedentario</SelectItem>
+                          <SelectItem value="light">Actividad ligera</SelectItem>
+                          <SelectItem value="moderate">Moderado</SelectItem>
+                          <SelectItem value="active">Activo</SelectItem>
+                          <SelectItem value="very_active">Muy activo</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
 
-                <div className="flex gap-2 pt-2">
-                  <Button onClick={handleSave} className="flex-1 gradient-training text-primary-foreground font-semibold rounded-xl">
-                    <Save className="w-4 h-4 mr-2" /> Guardar
-                  </Button>
-                  <Button onClick={handleCancel} variant="outline" className="rounded-xl">
-                    <X className="w-4 h-4 mr-1" /> Cancelar
-                  </Button>
-                </div>
-              </motion.div>
-            ) : (
-              /* ─── Read-only Mode ─── */
-              <div className="space-y-2">
-                {profile.name && (
-                  <div className="flex justify-between py-1.5 border-b border-border/50">
-                    <span className="text-xs text-muted-foreground">Nombre</span>
-                    <span className="text-sm font-medium">{profile.name}</span>
+                    <div className="space-y-1.5">
+                      <Label className="text-xs">Objetivo</Label>
+                      <Select value={editProfile.goal} onValueChange={v => update('goal', v)}>
+                        <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="lose_fat">Perder grasa</SelectItem>
+                          <SelectItem value="gain_muscle">Ganar músculo</SelectItem>
+                          <SelectItem value="maintain">Mantenimiento</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <Label className="text-xs">Fórmula de metabolismo basal</Label>
+                      <Select value={editProfile.bmrFormula} onValueChange={v => update('bmrFormula', v)}>
+                        <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(bmrFormulaLabels) as BmrFormula[]).map(f => (
+                            <SelectItem key={f} value={f}>{bmrFormulaLabels[f]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {LEAN_MASS_FORMULAS.includes(editProfile.bmrFormula) && (
+                        <p className="text-[10px] text-muted-foreground">
+                          Usa tu masa magra, así que necesita tu % de grasa corporal de Medidas corporales.
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">FC en reposo (ppm)</Label>
+                        <Input
+                          type="number"
+                          placeholder="Opcional"
+                          min={HEART_RATE_LIMITS.resting.min}
+                          max={HEART_RATE_LIMITS.resting.max}
+                          value={editProfile.restingHeartRate ?? ''}
+                          onChange={e => update('restingHeartRate', parseInt(e.target.value) || undefined)}
+                          className="bg-muted border-border"
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">FC máxima (ppm)</Label>
+                        <Input
+                          type="number"
+                          placeholder={`Est. ${estimatedMaxHeartRate(editProfile.age)}`}
+                          min={HEART_RATE_LIMITS.max.min}
+                          max={HEART_RATE_LIMITS.max.max}
+                          value={editProfile.maxHeartRate ?? ''}
+                          onChange={e => update('maxHeartRate', parseInt(e.target.value) || undefined)}
+                          className="bg-muted border-border"
+                        />
+                      </div>
+                    </div>
+                    {(restingHeartRateInvalid || maxHeartRateInvalid) && (
+                      <p className="text-[10px] text-destructive -mt-2">
+                        {restingHeartRateInvalid
+                          ? `La FC en reposo debe estar entre ${HEART_RATE_LIMITS.resting.min} y ${HEART_RATE_LIMITS.resting.max} ppm.`
+                          : `La FC máxima debe estar entre ${HEART_RATE_LIMITS.max.min} y ${HEART_RATE_LIMITS.max.max} ppm.`}
+                      </p>
+                    )}
+                    <p className="text-[10px] text-muted-foreground -mt-2">
+                      Con tu FC media de cada entreno, las calorías se calculan a partir de tu pulso. Sin FC máxima se estima por tu edad.
+                    </p>
+
+                    <div className="space-y-1.5">
+                      <Label className="text-xs">Calorías quemadas en entrenos</Label>
+                      <Select
+                        value={String(editProfile.exerciseEatBack ?? 0)}
+                        onValueChange={v => update('exerciseEatBack', parseInt(v) as EatBackPercent)}
+                      >
+                        <SelectTrigger className="bg-muted border-border"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {([0, 50, 100] as EatBackPercent[]).map(p => (
+                            <SelectItem key={p} value={String(p)}>{eatBackLabels[p]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-[10px] text-muted-foreground">
+                        Lo que sumes se añade a tus calorías del día cuando completas un entreno.
+                      </p>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">Peso objetivo (kg)</Label>
+                        <Input
+                          type="number"
+                          placeholder="Opcional"
+                          value={editProfile.targetWeight ?? ''}
+                          onChange={e => updateTargetWeight(parseFloat(e.target.value) || undefined)}
+                          className="bg-muted border-border"
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">Fecha objetivo</Label>
+                        <Input
+                          type="text"
+                          inputMode="numeric"
+                          placeholder="DD/MM/AAAA"
+                          value={targetDateDisplay}
+                          disabled={editProfile.targetWeight === undefined}
+                          onChange={e => {
+                            let v = e.target.value.replace(/[^\d]/g, '');
+                            if (v.length >= 3) v = v.slice(0, 2) + '/' + v.slice(2);
+                            if (v.length >= 6) v = v.slice(0, 5) + '/' + v.slice(5, 9);
+                            if (v.length > 10) v = v.slice(0, 10);
+                            setTargetDateDisplay(v);
+                            const parts = v.split('/');
+                            update('targetDate', parts.length === 3 && parts[2]?.length === 4 ? `${parts[2]}-${parts[1]}-${parts[0]}` : undefined);
+                          }}
+                          maxLength={10}
+                          className="bg-muted border-border"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-[10px] text-muted-foreground -mt-2">
+                      Sin fecha, avanzamos a un ritmo moderado. El ritmo nunca supera el {MAX_WEEKLY_LOSS * 100}% de tu peso por semana al perder ni el {MAX_WEEKLY_GAIN * 100}% al ganar.
+                    </p>
+
+                    <div className="flex gap-2 pt-2">
+                      <Button
+                        onClick={handleSave}
+                        disabled={restingHeartRateInvalid || maxHeartRateInvalid}
+                        className="flex-1 gradient-training text-primary-foreground font-semibold rounded-xl"
+                      >
+                        <Save className="w-4 h-4 mr-2" /> Guardar
+                      </Button>
+                      <Button onClick={handleCancel} variant="outline" className="rounded-xl">
+                        <X className="w-4 h-4 mr-1" /> Cancelar
+                      </Button>
+                    </div>
+                  </motion.div>
+                ) : (
+                  /* ─── Read-only Mode ─── */
+                  <div className="space-y-2">
+                    {profile.name && (
+                      <div className="flex justify-between py-1.5 border-b border-border/50">
+                        <span className="text-xs text-muted-foreground">Nombre</span>
+                        <span className="text-sm font-medium">{profile.name}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between py-1.5 border-b border-border/50">
+                      <span className="text-xs text-muted-foreground">Edad</span>
+                      <span className="text-sm font-medium">{profile.age} años</span>
+                    </div>
+                    <div className="flex justify-between py-1.5 border-b border-border/50">
+                      <span className="text-xs text-muted-foreground">Sexo</span>
+                      <span className="text-sm font-medium">{profile.sex === 'male' ? 'Hombre' : 'Mujer'}</span>
+                    </div>
+                    <div className="flex justify-between py-1.5 border-b border-border/50">
+                      <span className="text-xs text-muted-foreground">Peso</span>
+                      <span className="text-sm font-medium">{profile.weight} kg</span>
+                    </div>
+                    <div className="flex justify-between py-1.5 border-b border-border/50">
+                      <span className="text-xs text-muted-foreground">Altura</span>
+                      <span className="text-sm font-medium">{profile.height} cm</span>
+                    </div>
+                    <div className="flex justify-between py-1.5 border-b border-border/50">
+                      <span className="text-xs text-muted-foreground">Actividad</span>
+                      <span className="text-sm font-medium">{activityLabels[profile.activityLevel]}</span>
+                    </div>
+                    <div className="flex justify-between py-1.5 border-b border-border/50">
+                      <span className="text-xs text-muted-foreground">Frecuencia cardíaca</span>
+                      <span className="text-sm font-medium">
+                        {profile.restingHeartRate !== undefined && `${profile.restingHeartRate} reposo · `}
+                        {heartRateRange(profile).max} máx.{profile.maxHeartRate === undefined && ' (est.)'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between py-1.5 border-b border-border/50">
+                      <span className="text-xs text-muted-foreground">Calorías de entrenos</span>
+                      <span className="text-sm font-medium">{eatBackLabels[profile.exerciseEatBack ?? 0]}</span>
+                    </div>
+                    <div className={`flex justify-between py-1.5 ${profile.targetWeight !== undefined ? 'border-b border-border/50' : ''}`}>
+                      <span className="text-xs text-muted-foreground">Objetivo</span>
+                      <span className="text-sm font-medium">{goalLabels[profile.goal]}</span>
+                    </div>
+                    {profile.targetWeight !== undefined && (
+                      <div className="flex justify-between py-1.5">
+                        <span className="text-xs text-muted-foreground">Peso objetivo</span>
+                        <span className="text-sm font-medium">
+                          {profile.targetWeight} kg
+                          {profile.targetDate && ` · ${format(parseISO(profile.targetDate), "d MMM yyyy", { locale: es })}`}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 )}
-                <div className="flex justify-between py-1.5 border-b border-border/50">
-                  <span className="text-xs text-muted-foreground">Edad</span>
-                  <span className="text-sm font-medium">{profile.age} años</span>
-                </div>
-                <div className="flex justify-between py-1.5 border-b border-border/50">
-                  <span className="text-xs text-muted-foreground">Sexo</span>
-                  <span className="text-sm font-medium">{profile.sex === 'male' ? 'Hombre' : 'Mujer'}</span>
-                </div>
-                <div className="flex justify-between py-1.5 border-b border-border/50">
-                  <span className="text-xs text-muted-foreground">Peso</span>
-                  <span className="text-sm font-medium">{profile.weight} kg</span>
-                </div>
-                <div className="flex justify-between py-1.5 border-b border-border/50">
-                  <span className="text-xs text-muted-foreground">Altura</span>
-                  <span className="text-sm font-medium">{profile.height} cm</span>
-                </div>
-                <div className="flex justify-between py-1.5 border-b border-border/50">
-                  <span className="text-xs text-muted-foreground">Actividad</span>
-                  <span className="text-sm font-medium">{activityLabels[profile.activityLevel]}</span>
+              </div>
+
+              {/* Daily Targets Preview */}
+              <div className="glass-card p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+                    <Target className="w-4 h-4" /> Objetivos Diarios
+                  </h2>
+                  <button
+                    onClick={() => setShowMacros(true)}
+                    className="flex items-center gap-1 text-xs text-primary hover:text-primary/80 transition-colors font-medium"
+                  >
+                    <SlidersHorizontal className="w-3.5 h-3.5" /> Macros
+                  </button>
                 </div>
-                <div className="flex justify-between py-1.5">
-                  <span className="text-xs text-muted-foreground">Objetivo</span>
-                  <span className="text-sm font-medium">{goalLabels[profile.goal]}</span>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="bg-muted rounded-xl p-3 text-center flex flex-col items-center justify-center">
+                    <Flame className="w-5 h-5 text-primary mb-1" />
+                    <p className="stat-number text-primary">{targets.calories}</p>
+                    <p className="text-[10px] text-muted-foreground">kcal</p>
+                  </div>
+                  <div className="bg-muted rounded-xl p-3 text-center flex flex-col items-center justify-center">
+                    <p className="stat-number text-secondary">{targets.protein}g</p>
+                    <p className="text-[10px] text-muted-foreground">Proteínas</p>
+                  </div>
+                  <div className="bg-muted rounded-xl p-3 text-center flex flex-col items-center justify-center">
+                    <p className="stat-number text-accent">{targets.carbs}g</p>
+                    <p className="text-[10px] text-muted-foreground">Carbohidratos</p>
+                  </div>
+                  <div className="bg-muted rounded-xl p-3 text-center flex flex-col items-center justify-center">
+                    <p className="stat-number text-profile">{targets.fat}g</p>
+                    <p className="text-[10px] text-muted-foreground">Grasas</p>
+                  </div>
                 </div>
+                <p className="text-xs text-muted-foreground">{describeMacros(profile.macros)}</p>
+                {(profile.trainingDayBoost ?? 0) > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {trainingDays === 0 || trainingDays === 7
+                      ? `Ciclado +${profile.trainingDayBoost}%: esta semana ${trainingDays === 0 ? 'no tienes entrenos' : 'entrenas todos los días'}, así que todos los días son iguales.`
+                      : `Ciclado +${profile.trainingDayBoost}% esta semana (${trainingDays} días de entreno): ${cycled(true).calories} kcal y ${cycled(true).carbs}g de carbohidratos los días de entreno, ${cycled(false).calories} kcal y ${cycled(false).carbs}g los de descanso.`}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Metabolismo basal con {bmrFormulaLabels[bmr.formula]}: {bmr.bmr} kcal × {activityMultipliers[profile.activityLevel]} por actividad = {formulaTdee} kcal de mantenimiento.
+                  {bmr.formula !== profile.bmrFormula && ` ${bmrFormulaLabels[profile.bmrFormula]} necesita tu % de grasa corporal; registra una medición para usarla.`}
+                </p>
+                {plan.weeklyChange !== 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Ritmo previsto: {plan.weeklyChange > 0 ? '+' : ''}{plan.weeklyChange.toFixed(2)} kg/semana
+                    ({plan.dailyAdjustment > 0 ? '+' : ''}{plan.dailyAdjustment} kcal/día)
+                  </p>
+                )}
+                {(plan.clamped || targets.calories === MIN_DAILY_CALORIES[profile.sex]) && (
+                  <div className="flex items-start gap-2 text-xs text-destructive">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <p>
+                      {plan.clamped
+                        ? 'Tu fecha objetivo exige un ritmo poco seguro, así que lo hemos limitado. Llegarás más tarde de lo previsto.'
+                        : `Por seguridad, tu objetivo no baja de ${MIN_DAILY_CALORIES[profile.sex]} kcal al día.`}
+                    </p>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
 
-          {/* Daily Targets Preview */}
-          <div className="glass-card p-4 space-y-3">
-            <h2 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider flex items-center gap-2">
-              <Target className="w-4 h-4" /> Objetivos Diarios
-            </h2>
-            <div className="grid grid-cols-2 gap-3">
-              <div className="bg-muted rounded-xl p-3 text-center flex flex-col items-center justify-center">
-                <Flame className="w-5 h-5 text-primary mb-1" />
-                <p className="stat-number text-primary">{targets.calories}</p>
-                <p className="text-[10px] text-muted-foreground">kcal</p>
-              </div>
-              <div className="bg-muted rounded-xl p-3 text-center flex flex-col items-center justify-center">
-                <p className="stat-number text-secondary">{targets.protein}g</p>
-                <p className="text-[10px] text-muted-foreground">Proteínas</p>
-              </div>
-              <div className="bg-muted rounded-xl p-3 text-center flex flex-col items-center justify-center">
-                <p className="stat-number text-accent">{targets.carbs}g</p>
-                <p className="text-[10px] text-muted-foreground">Carbohidratos</p>
-              </div>
-              <div className="bg-muted rounded-xl p-3 text-center flex flex-col items-center justify-center">
-                <p className="stat-number text-profile">{targets.fat}g</p>
-                <p className="text-[10px] text-muted-foreground">Grasas</p>
-              </div>
-            </div>
-          </div>
+              <TdeeCard formula={formulaTdee} adaptive={adaptiveTdee} />
+
+              <MacroSettingsDialog
+                open={showMacros}
+                profile={profile}
+                targets={targets}
+                onClose={() => setShowMacros(false)}
+                onSave={handleSaveMacros}
+              />
+            </>
+          )}
+
+          <BodyMetricsCard />
+
+          <TrashCard />
+
+          <HistoryDialog
+            table="profiles"
+            recordId={showHistory && user ? user.id : null}
+            title="Historial del perfil"
+            onClose={() => setShowHistory(false)}
+            describe={p => `${p.weight} kg · ${p.height} cm · ${p.age} años · ${activityLabels[p.activityLevel]} · ${goalLabels[p.goal]}`}
+            onRevert={p => saveProfile.mutateAsync({ ...p, onboardingComplete: true })}
+          />
 
           <Button
             onClick={signOut}
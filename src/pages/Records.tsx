@@ -0,0 +1,135 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ChevronLeft, Trophy } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { DistanceSport } from '@/lib/cardio';
+import {
+  OneRepMaxFormula, PersonalRecord, RecordKind,
+  formatRecord, occurrencesUntil, oneRepMaxFormulaLabels, personalRecords, recordKindLabels,
+} from '@/lib/records';
+import { useAllWorkouts } from '@/hooks/use-workouts';
+import LoadError from '@/components/LoadError';
+import { Button } from '@/components/ui/button';
+
+const sportLabels: Record<DistanceSport, string> = {
+  running: 'Correr',
+  cycling: 'Bicicleta',
+  swimming: 'Natación',
+  hiking: 'Senderismo',
+};
+
+function RecordRow({ kind, record }: { kind: RecordKind; record?: PersonalRecord & { weight?: number } }) {
+  if (!record) return null;
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{recordKindLabels[kind]}</span>
+      <span className="font-semibold">
+        {formatRecord(kind, record)}
+        <span className="ml-2 text-[10px] font-normal text-muted-foreground">
+          {format(parseISO(record.date), 'd MMM yyyy', { locale: es })}
+        </span>
+      </span>
+    </div>
+  );
+}
+
+export default function Records() {
+  const navigate = useNavigate();
+  const [formula, setFormula] = useState<OneRepMaxFormula>('epley');
+  const historyQuery = useAllWorkouts();
+
+  const records = useMemo(
+    () => personalRecords(occurrencesUntil(historyQuery.data ?? [], new Date()), formula),
+    [historyQuery.data, formula]
+  );
+  const empty = !records.exercises.length && !records.cardio.length;
+
+  return (
+    <div className="px-4 pt-6 max-w-lg mx-auto">
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-5">
+          <Button onClick={() => navigate('/training')} size="icon" variant="ghost" className="rounded-xl" aria-label="Volver">
+            <ChevronLeft className="w-5 h-5 text-muted-foreground" />
+          </Button>
+          <div className="w-10 h-10 rounded-xl gradient-training flex items-center justify-center">
+            <Trophy className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <h1 className="text-xl font-bold">Récords personales</h1>
+        </div>
+
+        {historyQuery.error ? (
+          <LoadError error={historyQuery.error} onRetry={() => historyQuery.refetch()} retrying={historyQuery.isFetching} />
+        ) : empty ? (
+          <div className="glass-card p-8 text-center">
+            <Trophy className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-sm text-muted-foreground">
+              {historyQuery.isLoading
+                ? 'Cargando…'
+                : 'Completa entrenamientos con series o distancia para ver tus récords aquí.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {records.cardio.map(c => (
+              <div key={c.sport} className="glass-card p-4 space-y-2">
+                <h2 className="text-sm font-semibold">{sportLabels[c.sport]}</h2>
+                <RecordRow kind="longest" record={c.longest} />
+                <RecordRow kind="fastest5k" record={c.fastest5k} />
+              </div>
+            ))}
+
+            {records.exercises.length > 0 && (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-sm font-semibold text-muted-foreground">Fuerza</h2>
+                  {/* The two formulas agree at low reps and drift apart as reps go up */}
+                  <div className="flex gap-1.5">
+                    {(Object.keys(oneRepMaxFormulaLabels) as OneRepMaxFormula[]).map(f => (
+                      <button
+                        key={f}
+                        onClick={() => setFormula(f)}
+                        className={`px-2.5 py-1 rounded-lg text-[10px] font-semibold transition-all ${formula === f
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted text-muted-foreground hover:text-foreground'
+                          }`}
+                      >
+                        {oneRepMaxFormulaLabels[f]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {records.exercises.map(e => (
+                  <div key={e.key} className="glass-card p-4 space-y-2">
+                    <h3 className="text-sm font-semibold">{e.name}</h3>
+                    <RecordRow kind="heaviest" record={e.heaviest} />
+                    <RecordRow kind="oneRepMax" record={e.oneRepMax} />
+                    <RecordRow kind="bestVolume" record={e.bestVolume} />
+                    {e.repsByWeight.length > 0 && (
+                      <div className="pt-1">
+                        <p className="text-[10px] text-muted-foreground mb-1">Máximas repeticiones por peso</p>
+                        <div className="flex flex-wrap gap-1.5">
+                          {e.repsByWeight.map(r => (
+                            <span
+                              key={r.weight}
+                              title={format(parseISO(r.date), 'd MMM yyyy', { locale: es })}
+                              className="px-2 py-0.5 rounded-md bg-muted text-[10px] font-medium"
+                            >
+                              {formatRecord('reps', r)}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -1,11 +1,28 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, ChevronLeft, ChevronRight, Dumbbell, Bike, PersonStanding, Waves, Mountain, Zap, Trash2, Edit2 } from 'lucide-react';
+import { Plus, ChevronLeft, ChevronRight, Dumbbell, Bike, PersonStanding, Waves, Mountain, Zap, Trash2, Edit2, Check, X, Download, Upload, AlertTriangle, History, Trophy, CalendarRange, BookmarkPlus } from 'lucide-react';
 import { format, addDays, startOfWeek, isSameDay, parseISO } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { Workout, ExerciseType, Intensity } from '@/types';
-import { getWorkouts, saveWorkout, deleteWorkout, getProfile, estimateCaloriesBurned, generateId } from '@/lib/storage';
-import { isWorkoutOnDate } from '@/lib/recurrence';
+import { Workout, WorkoutOccurrence, OccurrenceStatus, ExerciseType, Intensity, RecurrenceType, MonthlyRecurrenceMode, UserProfile, StrengthExercise, WorkoutTemplate } from '@/types';
+import { getWorkouts, estimateCaloriesBurned, generateId } from '@/lib/storage';
+import { expandOccurrences, getOccurrencesOnDate, groupOccurrencesByDate, isRecurringWorkout, withException, withStatus, withLoggedStatus, buildException, endSeriesBefore } from '@/lib/recurrence';
+import { exportWorkoutsToICS, mergeImported, parseICS } from '@/lib/ical';
+import { useWorkouts, useLoadAllWorkouts, useSaveWorkout, useDeleteWorkout, useRestoreWorkout } from '@/hooks/use-workouts';
+import { useProfile } from '@/hooks/use-profile';
+import { useBodyMetrics } from '@/hooks/use-body-metrics';
+import { weightOnDate } from '@/lib/bodyMetrics';
+import { estimateWorkoutCalories, CalorieEstimate, HEART_RATE_LIMITS, heartRateInRange } from '@/lib/heartRate';
+import { isDistanceSport, paceValue, formatPace } from '@/lib/cardio';
+import { describeSets, withVolumes, workoutVolume } from '@/lib/strength';
+import { formatRecord, newRecords, occurrencesUntil, personalRecords, recordKindLabels } from '@/lib/records';
+import { templateFromWorkout } from '@/lib/programs';
+import { useWorkoutTemplates, useSaveWorkoutTemplate } from '@/hooks/use-workout-templates';
+import StrengthExercisesEditor from '@/components/StrengthExercisesEditor';
+import ProgramsDialog from '@/components/ProgramsDialog';
+import { getErrorMessage } from '@/lib/errors';
+import LoadError from '@/components/LoadError';
+import HistoryDialog from '@/components/HistoryDialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -50,24 +67,66 @@ const intensityLabels: Record<Intensity, string> = {
   high: 'Alta',
 };
 
+const weekdayLabels = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+const statusLabels: Record<OccurrenceStatus, string> = {
+  planned: 'Planificado',
+  completed: 'Completado',
+  missed: 'No realizado',
+};
+
+type EditScope = 'occurrence' | 'following' | 'all';
+
+const scopeOptions: { value: EditScope; label: string }[] = [
+  { value: 'occurrence', label: 'Solo esta sesión' },
+  { value: 'following', label: 'Esta y las siguientes' },
+  { value: 'all', label: 'Todas las sesiones' },
+];
+
+const weekOfMonthLabels: { value: number; label: string }[] = [
+  { value: 1, label: 'Primer' },
+  { value: 2, label: 'Segundo' },
+  { value: 3, label: 'Tercer' },
+  { value: 4, label: 'Cuarto' },
+  { value: -1, label: 'Último' },
+];
+
 export default function Training() {
   const { user } = useAuth();
-  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const navigate = useNavigate();
   const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [showForm, setShowForm] = useState(false);
-  const [editingWorkout, setEditingWorkout] = useState<Workout | null>(null);
-  const [profileWeight, setProfileWeight] = useState(70);
+  const [editingWorkout, setEditingWorkout] = useState<WorkoutOccurrence | null>(null);
+  const [editScope, setEditScope] = useState<EditScope>('all');
+  const [pendingScope, setPendingScope] = useState<{ occurrence: WorkoutOccurrence; action: 'edit' | 'delete' } | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [showPrograms, setShowPrograms] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    if (!user) return;
-    const load = async () => {
-      const [w, p] = await Promise.all([getWorkouts(user.id), getProfile(user.id)]);
-      setWorkouts(w);
-      if (p) setProfileWeight(p.weight);
-    };
-    load();
-  }, [user]);
+  // Only the displayed week is loaded; series that started earlier are included
+  const workoutsQuery = useWorkouts(format(weekStart, 'yyyy-MM-dd'), format(addDays(weekStart, 6), 'yyyy-MM-dd'));
+  const profileQuery = useProfile();
+  const bodyMetricsQuery = useBodyMetrics();
+  const loadHistory = useLoadAllWorkouts();
+  const templatesQuery = useWorkoutTemplates();
+  const saveTemplate = useSaveWorkoutTemplate();
+  const saveWorkout = useSaveWorkout();
+  const deleteWorkout = useDeleteWorkout();
+  const restoreWorkout = useRestoreWorkout();
+  const workouts = useMemo(() => workoutsQuery.data ?? [], [workoutsQuery.data]);
+  const loadError = workoutsQuery.error ?? profileQuery.error ?? bodyMetricsQuery.error;
+
+  // Calorie estimates use the weight logged at the time of the session
+  const weightOn = (date: string) =>
+    weightOnDate(bodyMetricsQuery.data ?? [], date, profileQuery.data?.weight ?? 70);
+
+  const retryLoad = () => {
+    workoutsQuery.refetch();
+    profileQuery.refetch();
+    bodyMetricsQuery.refetch();
+  };
 
   const weekDays = useMemo(() =>
     Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)),
@@ -76,22 +135,217 @@ export default function Training() {
 
   const selectedDateStr = format(selectedDate, 'yyyy-MM-dd');
 
-  const dayWorkouts = workouts.filter(w => isWorkoutOnDate(w, selectedDate));
+  // The selected day moves with the week so its sessions are always loaded
+  const changeWeek = (days: number) => {
+    setWeekStart(addDays(weekStart, days));
+    setSelectedDate(addDays(selectedDate, days));
+  };
+
+  const weekOccurrences = useMemo(
+    () => groupOccurrencesByDate(expandOccurrences(workouts, weekDays[0], weekDays[6])),
+    [workouts, weekDays]
+  );
+
+  const dayWorkouts = useMemo(() => getOccurrencesOnDate(workouts, selectedDate), [workouts, selectedDate]);
+
+  const openForm = (occurrence: WorkoutOccurrence | null, scope: EditScope = 'all') => {
+    // Editing a whole series starts from its own start date, not the occurrence's
+    const series = occurrence && scope === 'all' ? workouts.find(w => w.id === occurrence.id) : undefined;
+    setEditScope(scope);
+    setEditingWorkout(occurrence && series ? { ...occurrence, date: series.date } : occurrence);
+    setShowForm(true);
+  };
+
+  // Records are compared with the history as it was before the save (with
+  // `replaced`, the versions the save overwrote), so only what the saved
+  // workouts changed can count as new. The history is only loaded here.
+  const announceRecords = async (saved: Workout[], replaced: Workout[]) => {
+    let history: Workout[];
+    try {
+      history = await loadHistory();
+    } catch (err) {
+      console.error('[announceRecords]', err);
+      return;
+    }
+    const today = new Date();
+    const others = history.filter(w => !saved.some(s => s.id === w.id) && !replaced.some(r => r.id === w.id));
+    const found = newRecords(
+      personalRecords(occurrencesUntil([...others, ...replaced], today)),
+      personalRecords(occurrencesUntil([...others, ...saved], today))
+    );
+    if (!found.length) return;
+    toast.success(found.length > 1 ? `¡${found.length} récords personales nuevos!` : '¡Nuevo récord personal!', {
+      description: (
+        <ul>
+          {found.map((r, i) => (
+            <li key={i}>
+              {r.sport ? exerciseLabels[r.sport] : r.exercise} · {recordKindLabels[r.kind]}: {formatRecord(r.kind, r.record)}
+            </li>
+          ))}
+        </ul>
+      ),
+      action: { label: 'Ver', onClick: () => navigate('/records') },
+    });
+  };
 
-  const handleSave = async (workout: Workout) => {
+  const handleSave = async (edited: Workout) => {
     if (!user) return;
-    await saveWorkout(user.id, workout);
-    setWorkouts(await getWorkouts(user.id));
+    const series = editingWorkout ? workouts.find(w => w.id === editingWorkout.id) : undefined;
+    const occurrenceDate = editingWorkout?.occurrenceDate;
+
+    let toSave: Workout[];
+    if (series && occurrenceDate && editScope === 'occurrence') {
+      toSave = [withException(series, buildException(series, occurrenceDate, edited))];
+    } else if (series && occurrenceDate && editScope === 'following' && occurrenceDate > series.date) {
+      // Split the series: the old one ends the day before, the edited one starts here
+      toSave = [
+        endSeriesBefore(series, occurrenceDate),
+        {
+          ...edited,
+          id: generateId(),
+          date: occurrenceDate,
+          exceptions: (series.exceptions ?? []).filter(e => e.date >= occurrenceDate),
+        },
+      ];
+    } else if (series) {
+      // A new start date moves the series; exceptions before it no longer apply
+      const start = editScope === 'all' ? edited.date : series.date;
+      toSave = [{ ...edited, date: start, exceptions: series.exceptions?.filter(e => e.date >= start) }];
+    } else {
+      toSave = [withLoggedStatus(edited, format(new Date(), 'yyyy-MM-dd'))];
+    }
+
+    try {
+      for (const w of toSave) await saveWorkout.mutateAsync(w);
+    } catch (err) {
+      console.error('[handleSave]', err);
+      toast.error(`No se pudo guardar el entrenamiento. ${getErrorMessage(err)}`);
+      return;
+    }
     setShowForm(false);
     setEditingWorkout(null);
     toast.success(editingWorkout ? 'Entrenamiento actualizado' : 'Entrenamiento añadido');
+    announceRecords(toSave, series ? [series] : []);
   };
 
-  const handleDelete = async (id: string) => {
+  const handleSaveTemplate = async (template: WorkoutTemplate) => {
+    try {
+      await saveTemplate.mutateAsync(template);
+      toast.success(`Plantilla «${template.name}» guardada`);
+    } catch (err) {
+      console.error('[handleSaveTemplate]', err);
+      toast.error(`No se pudo guardar la plantilla. ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleDelete = async (occurrence: WorkoutOccurrence, scope: EditScope) => {
     if (!user) return;
-    await deleteWorkout(id);
-    setWorkouts(await getWorkouts(user.id));
-    toast.success('Entrenamiento eliminado');
+    const series = workouts.find(w => w.id === occurrence.id);
+    if (!series) return;
+
+    // Skipping occurrences or ending a series early is undone by saving the
+    // series as it was; deleting it whole moves it to the trash.
+    let undo = () => saveWorkout.mutateAsync(series);
+    let message = 'Entrenamiento eliminado';
+    try {
+      if (scope === 'occurrence') {
+        await saveWorkout.mutateAsync(withException(series, { date: occurrence.occurrenceDate, skipped: true }));
+      } else if (scope === 'following' && occurrence.occurrenceDate > series.date) {
+        await saveWorkout.mutateAsync(endSeriesBefore(series, occurrence.occurrenceDate));
+      } else {
+        await deleteWorkout.mutateAsync(series);
+        undo = () => restoreWorkout.mutateAsync(series);
+        message = 'Entrenamiento movido a la papelera';
+      }
+      toast.success(message, { action: { label: 'Deshacer', onClick: () => handleUndo(undo) } });
+    } catch (err) {
+      console.error('[handleDelete]', err);
+      toast.error(`No se pudo eliminar el entrenamiento. ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleUndo = async (undo: () => Promise<void>) => {
+    try {
+      await undo();
+      toast.success('Entrenamiento restaurado');
+    } catch (err) {
+      console.error('[handleUndo]', err);
+      toast.error(`No se pudo deshacer. ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleStatusChange = async (occurrence: WorkoutOccurrence, status: OccurrenceStatus) => {
+    if (!user) return;
+    const series = workouts.find(w => w.id === occurrence.id);
+    if (!series) return;
+    // Tapping the active status again resets the occurrence to planned
+    const next = occurrence.status === status ? 'planned' : status;
+    const updated = withStatus(series, occurrence.occurrenceDate, next);
+    try {
+      await saveWorkout.mutateAsync(updated);
+      toast.success(`Entrenamiento marcado como ${statusLabels[next].toLowerCase()}`);
+      announceRecords([updated], [series]);
+    } catch (err) {
+      console.error('[handleStatusChange]', err);
+      toast.error(`No se pudo actualizar el entrenamiento. ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!user) return;
+    let allWorkouts: Workout[];
+    try {
+      allWorkouts = await getWorkouts(user.id);
+    } catch (err) {
+      console.error('[handleExport]', err);
+      toast.error(`No se pudo exportar el calendario. ${getErrorMessage(err)}`);
+      return;
+    }
+    const blob = new Blob([exportWorkoutsToICS(allWorkouts)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'entrenamientos.ics';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    if (!user) return;
+    try {
+      const { workouts: imported, warnings } = parseICS(await file.text(), weightOn);
+      // Workouts exported from here keep their id; merge rather than overwrite them
+      const existing = new Map((await getWorkouts(user.id)).map(w => [w.id, w]));
+      const today = format(new Date(), 'yyyy-MM-dd');
+      for (const w of imported) {
+        const current = existing.get(w.id);
+        await saveWorkout.mutateAsync(current ? mergeImported(current, w) : withLoggedStatus(w, today));
+      }
+      setImportWarnings(warnings);
+      toast.success(`${imported.length} entrenamientos importados`);
+    } catch (err) {
+      console.error('[handleImport]', err);
+      toast.error(`No se pudo importar el calendario. ${getErrorMessage(err)}`);
+    }
+  };
+
+  // Recurring workouts ask which occurrences an edit or delete applies to
+  const requestEdit = (occurrence: WorkoutOccurrence) => {
+    if (isRecurringWorkout(occurrence)) setPendingScope({ occurrence, action: 'edit' });
+    else openForm(occurrence);
+  };
+
+  const requestDelete = (occurrence: WorkoutOccurrence) => {
+    if (isRecurringWorkout(occurrence)) setPendingScope({ occurrence, action: 'delete' });
+    else handleDelete(occurrence, 'all');
+  };
+
+  const handleScopeSelected = (scope: EditScope) => {
+    if (!pendingScope) return;
+    const { occurrence, action } = pendingScope;
+    setPendingScope(null);
+    if (action === 'delete') handleDelete(occurrence, scope);
+    else openForm(occurrence, scope);
   };
 
   return (
@@ -105,26 +359,51 @@ export default function Training() {
             </div>
             <h1 className="text-xl font-bold">Entrenamiento</h1>
           </div>
-          <Button
-            onClick={() => { setEditingWorkout(null); setShowForm(true); }}
-            size="icon"
-            className="gradient-training rounded-xl text-primary-foreground"
-          >
-            <Plus className="w-5 h-5" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button onClick={() => setShowPrograms(true)} size="icon" variant="ghost" className="rounded-xl" aria-label="Programas de entrenamiento">
+              <CalendarRange className="w-5 h-5 text-muted-foreground" />
+            </Button>
+            <Button onClick={() => navigate('/records')} size="icon" variant="ghost" className="rounded-xl" aria-label="Récords personales">
+              <Trophy className="w-5 h-5 text-muted-foreground" />
+            </Button>
+            <Button onClick={handleExport} size="icon" variant="ghost" className="rounded-xl" aria-label="Exportar calendario">
+              <Download className="w-5 h-5 text-muted-foreground" />
+            </Button>
+            <Button onClick={() => fileInputRef.current?.click()} size="icon" variant="ghost" className="rounded-xl" aria-label="Importar calendario">
+              <Upload className="w-5 h-5 text-muted-foreground" />
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <Button
+              onClick={() => openForm(null)}
+              size="icon"
+              className="gradient-training rounded-xl text-primary-foreground"
+            >
+              <Plus className="w-5 h-5" />
+            </Button>
+          </div>
         </div>
 
         {/* Week Navigation */}
         <div className="glass-card p-3 mb-4">
           <div className="flex items-center justify-between mb-3">
-            <button onClick={() => setWeekStart(addDays(weekStart, -7))}><ChevronLeft className="w-5 h-5 text-muted-foreground" /></button>
+            <button onClick={() => changeWeek(-7)}><ChevronLeft className="w-5 h-5 text-muted-foreground" /></button>
             <span className="text-sm font-medium capitalize">{format(weekStart, 'MMMM yyyy', { locale: es })}</span>
-            <button onClick={() => setWeekStart(addDays(weekStart, 7))}><ChevronRight className="w-5 h-5 text-muted-foreground" /></button>
+            <button onClick={() => changeWeek(7)}><ChevronRight className="w-5 h-5 text-muted-foreground" /></button>
           </div>
           <div className="grid grid-cols-7 gap-1">
             {weekDays.map(day => {
               const dayStr = format(day, 'yyyy-MM-dd');
-              const hasWorkout = workouts.some(w => isWorkoutOnDate(w, day));
+              const hasWorkout = weekOccurrences.has(dayStr);
               const isSelected = isSameDay(day, selectedDate);
               const isToday = isSameDay(day, new Date());
               return (
@@ -152,53 +431,86 @@ export default function Training() {
           <h2 className="text-sm font-semibold text-muted-foreground mb-3 capitalize">
             {format(selectedDate, "EEEE d 'de' MMMM", { locale: es })}
           </h2>
-          <AnimatePresence mode="popLayout">
-            {dayWorkouts.length === 0 ? (
-              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="glass-card p-6 text-center">
-                <Dumbbell className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
-                <p className="text-sm text-muted-foreground">Sin entrenamientos este día</p>
-                <Button
-                  variant="ghost"
-                  className="mt-2 text-primary text-sm"
-                  onClick={() => { setEditingWorkout(null); setShowForm(true); }}
-                >
-                  <Plus className="w-4 h-4 mr-1" /> Añadir
-                </Button>
-              </motion.div>
-            ) : (
-              dayWorkouts.map(w => {
-                const Icon = exerciseIcons[w.exerciseType] || Zap;
-                return (
-                  <motion.div
-                    key={w.id}
-                    layout
-                    initial={{ opacity: 0, scale: 0.95 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    exit={{ opacity: 0, scale: 0.95 }}
-                    className="glass-card p-4 mb-2 flex items-center gap-3"
+          {loadError ? (
+            <LoadError error={loadError} onRetry={retryLoad} retrying={workoutsQuery.isFetching || profileQuery.isFetching} />
+          ) : (
+            <AnimatePresence mode="popLayout">
+              {dayWorkouts.length === 0 ? (
+                <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="glass-card p-6 text-center">
+                  <Dumbbell className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+                  <p className="text-sm text-muted-foreground">Sin entrenamientos este día</p>
+                  <Button
+                    variant="ghost"
+                    className="mt-2 text-primary text-sm"
+                    onClick={() => openForm(null)}
                   >
-                    <div className={`w-10 h-10 rounded-xl ${exerciseColors[w.exerciseType]} flex items-center justify-center shrink-0`}>
-                      <Icon className="w-5 h-5 text-primary-foreground" />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="font-semibold text-sm">{exerciseLabels[w.exerciseType]}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {w.duration} min · {intensityLabels[w.intensity]} · {w.caloriesBurned} kcal
-                      </p>
-                    </div>
-                    <div className="flex gap-1">
-                      <button onClick={() => { setEditingWorkout(w); setShowForm(true); }} className="p-1.5 rounded-lg hover:bg-muted">
-                        <Edit2 className="w-4 h-4 text-muted-foreground" />
-                      </button>
-                      <button onClick={() => handleDelete(w.id)} className="p-1.5 rounded-lg hover:bg-muted">
-                        <Trash2 className="w-4 h-4 text-destructive" />
-                      </button>
-                    </div>
-                  </motion.div>
-                );
-              })
-            )}
-          </AnimatePresence>
+                    <Plus className="w-4 h-4 mr-1" /> Añadir
+                  </Button>
+                </motion.div>
+              ) : (
+                dayWorkouts.map(w => {
+                  const Icon = exerciseIcons[w.exerciseType] || Zap;
+                  return (
+                    <motion.div
+                      key={`${w.id}-${w.occurrenceDate}`}
+                      layout
+                      initial={{ opacity: 0, scale: 0.95 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      exit={{ opacity: 0, scale: 0.95 }}
+                      className={`glass-card p-4 mb-2 flex items-center gap-3 ${w.status === 'missed' ? 'opacity-60' : ''}`}
+                    >
+                      <div className={`w-10 h-10 rounded-xl ${exerciseColors[w.exerciseType]} flex items-center justify-center shrink-0`}>
+                        <Icon className="w-5 h-5 text-primary-foreground" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className={`font-semibold text-sm ${w.status === 'missed' ? 'line-through' : ''}`}>{exerciseLabels[w.exerciseType]}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {w.duration} min · {intensityLabels[w.intensity]} · {w.caloriesBurned} kcal
+                          {w.avgHeartRate !== undefined && ` · ${w.avgHeartRate} ppm`}
+                          {w.distance !== undefined && isDistanceSport(w.exerciseType) && (
+                            ` · ${w.distance} km · ${formatPace(w.exerciseType, paceValue(w.exerciseType, w.distance, w.duration))}`
+                          )}
+                        </p>
+                        {w.exerciseType === 'gym' && !!w.exercises?.length && (
+                          <p className="text-[10px] text-muted-foreground truncate">
+                            {w.exercises.map(e => `${e.name} ${describeSets(e.sets)}`).join(' · ')} · {workoutVolume(w.exercises).toLocaleString()} kg
+                          </p>
+                        )}
+                        <p className={`text-[10px] font-medium ${w.status === 'completed' ? 'text-primary' : w.status === 'missed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          {statusLabels[w.status]}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => handleStatusChange(w, 'completed')}
+                          className={`p-1.5 rounded-lg ${w.status === 'completed' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted text-muted-foreground'}`}
+                          aria-label="Marcar como completado"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleStatusChange(w, 'missed')}
+                          className={`p-1.5 rounded-lg ${w.status === 'missed' ? 'bg-destructive text-destructive-foreground' : 'hover:bg-muted text-muted-foreground'}`}
+                          aria-label="Marcar como no realizado"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setHistoryFor(w.id)} className="p-1.5 rounded-lg hover:bg-muted" aria-label="Historial">
+                          <History className="w-4 h-4 text-muted-foreground" />
+                        </button>
+                        <button onClick={() => requestEdit(w)} className="p-1.5 rounded-lg hover:bg-muted">
+                          <Edit2 className="w-4 h-4 text-muted-foreground" />
+                        </button>
+                        <button onClick={() => requestDelete(w)} className="p-1.5 rounded-lg hover:bg-muted">
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </button>
+                      </div>
+                    </motion.div>
+                  );
+                })
+              )}
+            </AnimatePresence>
+          )}
         </div>
       </motion.div>
 
@@ -209,21 +521,103 @@ export default function Training() {
         onSave={handleSave}
         date={selectedDateStr}
         editing={editingWorkout}
-        weight={profileWeight}
+        scope={editScope}
+        weightOn={weightOn}
+        profile={profileQuery.data}
+        templates={templatesQuery.data ?? []}
+        onSaveTemplate={handleSaveTemplate}
+      />
+
+      <ProgramsDialog
+        open={showPrograms}
+        onClose={() => setShowPrograms(false)}
+        weight={weightOn(format(new Date(), 'yyyy-MM-dd'))}
+      />
+
+      <RecurrenceScopeDialog
+        action={pendingScope?.action ?? null}
+        onSelect={handleScopeSelected}
+        onClose={() => setPendingScope(null)}
+      />
+
+      {/* Edit History */}
+      <HistoryDialog
+        table="workouts"
+        recordId={historyFor}
+        title="Historial del entrenamiento"
+        onClose={() => setHistoryFor(null)}
+        describe={w => `${exerciseLabels[w.exerciseType]} · ${format(parseISO(w.date), 'd MMM', { locale: es })} ${w.time} · ${w.duration} min · ${w.caloriesBurned} kcal`}
+        onRevert={w => saveWorkout.mutateAsync({ ...w, deletedAt: undefined })}
       />
+
+      {/* Import Warnings */}
+      <Dialog open={importWarnings.length > 0} onOpenChange={v => !v && setImportWarnings([])}>
+        <DialogContent className="bg-card border-border max-w-sm mx-auto max-h-[85vh] overflow-y-auto p-6">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-destructive" /> Importación incompleta
+            </DialogTitle>
+          </DialogHeader>
+          <p className="text-xs text-muted-foreground">
+            Algunas reglas del calendario no se pueden representar y se han adaptado o ignorado:
+          </p>
+          <ul className="space-y-1.5">
+            {importWarnings.map((w, i) => (
+              <li key={i} className="text-xs bg-muted rounded-lg p-2">{w}</li>
+            ))}
+          </ul>
+          <Button onClick={() => setImportWarnings([])} className="w-full gradient-training text-primary-foreground font-semibold rounded-xl">
+            Entendido
+          </Button>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
 
+function RecurrenceScopeDialog({
+  action, onSelect, onClose,
+}: {
+  action: 'edit' | 'delete' | null;
+  onSelect: (scope: EditScope) => void;
+  onClose: () => void;
+}) {
+  return (
+    <Dialog open={action !== null} onOpenChange={v => !v && onClose()}>
+      <DialogContent className="bg-card border-border max-w-xs mx-auto p-6">
+        <DialogHeader>
+          <DialogTitle>{action === 'delete' ? 'Eliminar' : 'Editar'} entrenamiento recurrente</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          {scopeOptions.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant="outline"
+              onClick={() => onSelect(value)}
+              className={`w-full rounded-xl ${action === 'delete' ? 'text-destructive' : ''}`}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function WorkoutFormDialog({
-  open, onClose, onSave, date, editing, weight,
+  open, onClose, onSave, date, editing, scope, weightOn, profile, templates, onSaveTemplate,
 }: {
   open: boolean;
   onClose: () => void;
   onSave: (w: Workout) => void;
   date: string;
-  editing: Workout | null;
-  weight: number;
+  editing: WorkoutOccurrence | null;
+  scope: EditScope;
+  weightOn: (date: string) => number;
+  profile: UserProfile | undefined; // for heart-rate calorie estimates
+  templates: WorkoutTemplate[];
+  onSaveTemplate: (template: WorkoutTemplate) => void;
 }) {
   const [exerciseType, setExerciseType] = useState<ExerciseType>('gym');
   const [duration, setDuration] = useState(60);
@@ -231,8 +625,21 @@ function WorkoutFormDialog({
   const [time, setTime] = useState('09:00');
   const [notes, setNotes] = useState('');
   const [manualCalories, setManualCalories] = useState<number | null>(null);
+  const [avgHeartRate, setAvgHeartRate] = useState<number | undefined>();
+  const [maxHeartRate, setMaxHeartRate] = useState<number | undefined>();
+  const [distance, setDistance] = useState<number | undefined>();
+  const [elevationGain, setElevationGain] = useState<number | undefined>();
+  const [exercises, setExercises] = useState<StrengthExercise[]>([]);
+  const [templateName, setTemplateName] = useState<string | null>(null); // set while naming a new template
+  // Edits can move the session to another day, or a whole series to a new
+  // start; splitting a series always starts the new one at the occurrence
+  const [occurrenceDate, setOccurrenceDate] = useState(date);
+  const [occurrenceDateDisplay, setOccurrenceDateDisplay] = useState('');
+  const editingOccurrence = !!editing && scope === 'occurrence';
+  const editsDate = !!editing && scope !== 'following';
 
   useEffect(() => {
+    setTemplateName(null);
     if (editing) {
       setExerciseType(editing.exerciseType);
       setDuration(editing.duration);
@@ -240,26 +647,48 @@ function WorkoutFormDialog({
       setTime(editing.time);
       setNotes(editing.notes || '');
       setManualCalories(editing.caloriesBurned);
+      setAvgHeartRate(editing.avgHeartRate);
+      setMaxHeartRate(editing.maxHeartRate);
+      setDistance(editing.distance);
+      setElevationGain(editing.elevationGain);
+      setExercises(editing.exercises ?? []);
+      setOccurrenceDate(editing.date);
+      setOccurrenceDateDisplay(editing.date.split('-').reverse().join('/'));
     } else {
       setDuration(60);
       setIntensity('medium');
       setTime('09:00');
       setNotes('');
       setManualCalories(null);
+      setAvgHeartRate(undefined);
+      setMaxHeartRate(undefined);
+      setDistance(undefined);
+      setElevationGain(undefined);
+      setExercises([]);
       setRecurring(false);
       setRecurrenceType('none');
       setRecurrenceInterval(1);
       setRecurrenceDays([]);
       setRecurrenceEnd('');
       setRecurrenceEndDisplay('');
+      // Monthly defaults follow the selected day (e.g. "3rd Saturday" or "the 15th")
+      const start = parseISO(date);
+      setRecurrenceMonthlyMode('day_of_month');
+      setRecurrenceMonthDay(start.getDate());
+      setRecurrenceWeekOfMonth(Math.min(Math.ceil(start.getDate() / 7), 4));
+      setRecurrenceWeekday(start.getDay());
     }
-  }, [editing, open]);
+  }, [editing, open, date]);
 
   // Recurrence states
   const [recurring, setRecurring] = useState(false);
-  const [recurrenceType, setRecurrenceType] = useState<'none' | 'daily' | 'weekly' | 'custom'>('none');
+  const [recurrenceType, setRecurrenceType] = useState<RecurrenceType>('none');
   const [recurrenceInterval, setRecurrenceInterval] = useState(1);
   const [recurrenceDays, setRecurrenceDays] = useState<number[]>([]);
+  const [recurrenceMonthlyMode, setRecurrenceMonthlyMode] = useState<MonthlyRecurrenceMode>('day_of_month');
+  const [recurrenceMonthDay, setRecurrenceMonthDay] = useState(1);
+  const [recurrenceWeekOfMonth, setRecurrenceWeekOfMonth] = useState(1);
+  const [recurrenceWeekday, setRecurrenceWeekday] = useState(1);
   const [recurrenceEnd, setRecurrenceEnd] = useState('');
   const [recurrenceEndDisplay, setRecurrenceEndDisplay] = useState('');
 
@@ -270,6 +699,11 @@ function WorkoutFormDialog({
       setRecurrenceType(editing.recurrenceType || 'none');
       setRecurrenceInterval(editing.recurrenceInterval || 1);
       setRecurrenceDays(editing.recurrenceDays || []);
+      const start = parseISO(editing.date);
+      setRecurrenceMonthlyMode(editing.recurrenceMonthlyMode || 'day_of_month');
+      setRecurrenceMonthDay(editing.recurrenceMonthDay ?? start.getDate());
+      setRecurrenceWeekOfMonth(editing.recurrenceWeekOfMonth ?? Math.min(Math.ceil(start.getDate() / 7), 4));
+      setRecurrenceWeekday(editing.recurrenceWeekday ?? start.getDay());
       setRecurrenceEnd(editing.recurrenceEnd || '');
       const re = editing.recurrenceEnd || '';
       setRecurrenceEndDisplay(re ? re.split('-').reverse().join('/') : '');
@@ -284,24 +718,80 @@ function WorkoutFormDialog({
     );
   };
 
-  const estimated = estimateCaloriesBurned(exerciseType, duration, intensity, weight);
-  const calories = manualCalories ?? estimated;
+  const weight = weightOn(editsDate ? occurrenceDate : date);
+  // Distance only applies to sports that cover one
+  const hasDistance = isDistanceSport(exerciseType);
+  const sessionDistance = hasDistance ? distance : undefined;
+  const sessionElevation = hasDistance ? elevationGain : undefined;
+  // Same bounds as the database checks
+  const distanceInvalid = (sessionDistance !== undefined && sessionDistance <= 0)
+    || (sessionElevation !== undefined && sessionElevation < 0);
+  const estimate: CalorieEstimate = profile
+    ? estimateWorkoutCalories(
+      { exerciseType, duration, intensity, avgHeartRate, distance: sessionDistance, elevationGain: sessionElevation }, profile, weight
+    )
+    : {
+      calories: estimateCaloriesBurned(exerciseType, duration, intensity, weight, sessionDistance, sessionElevation),
+      method: 'met',
+    };
+  const calories = manualCalories ?? estimate.calories;
+  const heartRateOutOfRange = !heartRateInRange(avgHeartRate, HEART_RATE_LIMITS.workout)
+    || !heartRateInRange(maxHeartRate, HEART_RATE_LIMITS.workout);
+  const heartRateInvalid = heartRateOutOfRange
+    || (avgHeartRate !== undefined && maxHeartRate !== undefined && maxHeartRate < avgHeartRate);
+
+  // A new heart rate or distance is a better basis than whatever was typed in before
+  const updateMeasure = (set: (v: number | undefined) => void, value: number) => {
+    set(value || undefined);
+    setManualCalories(null);
+  };
+
+  // Starting from a template fills in the session; each exercise gets its own id
+  const applyTemplate = (template: WorkoutTemplate) => {
+    setExerciseType(template.exerciseType);
+    if (template.time) setTime(template.time);
+    setDuration(template.duration);
+    setIntensity(template.intensity);
+    setNotes(template.notes ?? '');
+    setExercises(template.exercises.map(e => ({ ...e, id: generateId() })));
+    setManualCalories(null);
+  };
+
+  const handleSaveTemplate = () => {
+    if (!templateName?.trim()) return;
+    onSaveTemplate(templateFromWorkout(
+      { exerciseType, time, duration, intensity, notes, exercises: exerciseType === 'gym' ? withVolumes(exercises) : [] },
+      templateName
+    ));
+    setTemplateName(null);
+  };
 
   const handleSubmit = () => {
     onSave({
       id: editing?.id || generateId(),
-      date,
+      date: editsDate ? occurrenceDate : date,
       time,
       exerciseType,
       duration,
       intensity,
       caloriesBurned: calories,
+      avgHeartRate,
+      maxHeartRate,
+      distance: sessionDistance,
+      elevationGain: sessionElevation,
+      exercises: exerciseType === 'gym' ? withVolumes(exercises) : undefined,
       notes: notes || undefined,
       recurring,
       recurrenceType: recurring ? recurrenceType : undefined,
       recurrenceInterval: recurring && recurrenceType === 'custom' ? recurrenceInterval : undefined,
       recurrenceDays: recurring && recurrenceType === 'weekly' ? recurrenceDays : undefined,
+      recurrenceMonthlyMode: recurring && recurrenceType === 'monthly' ? recurrenceMonthlyMode : undefined,
+      recurrenceMonthDay: recurring && recurrenceType === 'monthly' && recurrenceMonthlyMode === 'day_of_month' ? recurrenceMonthDay : undefined,
+      recurrenceWeekOfMonth: recurring && recurrenceType === 'monthly' && recurrenceMonthlyMode === 'nth_weekday' ? recurrenceWeekOfMonth : undefined,
+      recurrenceWeekday: recurring && recurrenceType === 'monthly' && recurrenceMonthlyMode === 'nth_weekday' ? recurrenceWeekday : undefined,
       recurrenceEnd: recurring && recurrenceEnd ? recurrenceEnd : undefined,
+      // Edited program sessions stay part of their program
+      programId: editing?.programId,
     });
   };
 
@@ -309,9 +799,23 @@ function WorkoutFormDialog({
     <Dialog open={open} onOpenChange={v => !v && onClose()}>
       <DialogContent className="bg-card border-border max-w-sm mx-auto max-h-[85vh] overflow-y-auto p-6">
         <DialogHeader>
-          <DialogTitle>{editing ? 'Editar' : 'Nuevo'} Entrenamiento</DialogTitle>
+          <DialogTitle>{editingOccurrence ? 'Editar sesión' : `${editing ? 'Editar' : 'Nuevo'} Entrenamiento`}</DialogTitle>
         </DialogHeader>
         <div className="space-y-3">
+          {!editing && templates.length > 0 && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Plantilla</Label>
+              <Select onValueChange={id => {
+                const template = templates.find(t => t.id === id);
+                if (template) applyTemplate(template);
+              }}>
+                <SelectTrigger className="bg-muted border-border"><SelectValue placeholder="Empezar desde una plantilla" /></SelectTrigger>
+                <SelectContent>
+                  {templates.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="space-y-1.5">
             <Label className="text-xs">Tipo</Label>
             <Select value={exerciseType} onValueChange={v => setExerciseType(v as ExerciseType)}>
@@ -357,115 +861,299 @@ function WorkoutFormDialog({
               </SelectContent>
             </Select>
           </div>
+          {exerciseType === 'gym' && <StrengthExercisesEditor exercises={exercises} onChange={setExercises} />}
+          {hasDistance && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Distancia (km)</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    placeholder="Opcional"
+                    value={distance ?? ''}
+                    onChange={e => updateMeasure(setDistance, parseFloat(e.target.value))}
+                    className="bg-muted border-border h-9 text-sm px-2 text-center"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Desnivel (m)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Opcional"
+                    value={elevationGain ?? ''}
+                    onChange={e => updateMeasure(setElevationGain, parseInt(e.target.value))}
+                    className="bg-muted border-border h-9 text-sm px-2 text-center"
+                  />
+                </div>
+              </div>
+              {distanceInvalid && (
+                <p className="text-[10px] text-destructive -mt-1">La distancia debe ser mayor que 0 y el desnivel no puede ser negativo.</p>
+              )}
+              {!distanceInvalid && distance !== undefined && duration > 0 && (
+                <p className="text-[10px] text-muted-foreground -mt-1">
+                  Ritmo: {formatPace(exerciseType, paceValue(exerciseType, distance, duration))}
+                </p>
+              )}
+            </>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">FC media (ppm)</Label>
+              <Input
+                type="number"
+                placeholder="Opcional"
+                min={HEART_RATE_LIMITS.workout.min}
+                max={HEART_RATE_LIMITS.workout.max}
+                value={avgHeartRate ?? ''}
+                onChange={e => updateMeasure(setAvgHeartRate, parseInt(e.target.value))}
+                className="bg-muted border-border h-9 text-sm px-2 text-center"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">FC máxima (ppm)</Label>
+              <Input
+                type="number"
+                placeholder="Opcional"
+                min={HEART_RATE_LIMITS.workout.min}
+                max={HEART_RATE_LIMITS.workout.max}
+                value={maxHeartRate ?? ''}
+                onChange={e => updateMeasure(setMaxHeartRate, parseInt(e.target.value))}
+                className="bg-muted border-border h-9 text-sm px-2 text-center"
+              />
+            </div>
+          </div>
+          {heartRateInvalid && (
+            <p className="text-[10px] text-destructive -mt-1">
+              {heartRateOutOfRange
+                ? `La FC debe estar entre ${HEART_RATE_LIMITS.workout.min} y ${HEART_RATE_LIMITS.workout.max} ppm.`
+                : 'La FC máxima no puede ser menor que la media.'}
+            </p>
+          )}
           <div className="space-y-1.5">
-            <Label className="text-xs">Calorías quemadas (est. {estimated})</Label>
+            <Label className="text-xs">Calorías quemadas (est. {estimate.calories})</Label>
             <Input
               type="number"
               value={calories}
               onChange={e => setManualCalories(parseInt(e.target.value) || 0)}
               className="bg-muted border-border"
             />
+            <p className="text-[10px] text-muted-foreground">
+              {manualCalories !== null && manualCalories !== estimate.calories
+                ? 'Se guardará el valor del campo en lugar de la estimación.'
+                : estimate.method === 'heart_rate'
+                  ? 'Estimadas con tu frecuencia cardíaca, edad, sexo y peso.'
+                  : avgHeartRate !== undefined
+                    ? 'Tu FC media está fuera de tu rango (reposo a máxima), así que no se usa.'
+                    : sessionDistance !== undefined
+                      ? 'Estimadas por tu velocidad y desnivel. Añade tu FC media para afinar.'
+                      : 'Estimadas por tipo de ejercicio e intensidad. Añade tu FC media para afinar.'}
+            </p>
           </div>
-          <div className="space-y-1.5">
-            <Label className="text-xs">Notas</Label>
-            <Input value={notes} onChange={e => setNotes(e.target.value)} placeholder="Opcional" className="bg-muted border-border" />
-          </div>
-
-          <div className="space-y-3 pt-2 border-t border-border">
-            <div className="flex items-center justify-between">
-              <Label className="text-xs font-semibold">Repetir entrenamiento</Label>
-              <div className="flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  checked={recurring}
-                  onChange={e => {
-                    setRecurring(e.target.checked);
-                    if (e.target.checked && recurrenceType === 'none') setRecurrenceType('daily');
-                  }}
-                  className="w-4 h-4 accent-primary"
-                />
-              </div>
+          {editsDate && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">{editingOccurrence ? 'Fecha de la sesión' : recurring ? 'Fecha de inicio' : 'Fecha'}</Label>
+              <Input
+                type="text"
+                inputMode="numeric"
+                placeholder="DD/MM/AAAA"
+                value={occurrenceDateDisplay}
+                onChange={e => {
+                  let v = e.target.value.replace(/[^\d]/g, '');
+                  if (v.length >= 3) v = v.slice(0, 2) + '/' + v.slice(2);
+                  if (v.length >= 6) v = v.slice(0, 5) + '/' + v.slice(5, 9);
+                  if (v.length > 10) v = v.slice(0, 10);
+                  setOccurrenceDateDisplay(v);
+                  const parts = v.split('/');
+                  if (parts.length === 3 && parts[2]?.length === 4) {
+                    setOccurrenceDate(`${parts[2]}-${parts[1]}-${parts[0]}`);
+                  }
+                }}
+                maxLength={10}
+                className="bg-muted border-border h-9 text-xs px-2 text-center"
+              />
             </div>
+          )}
+          {!editingOccurrence && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Notas</Label>
+              <Input value={notes} onChange={e => setNotes(e.target.value)} placeholder="Opcional" className="bg-muted border-border" />
+            </div>
+          )}
 
-            {recurring && (
-              <div className="space-y-3 bg-muted/30 p-3 rounded-lg animate-in fade-in slide-in-from-top-2">
-                <div className="space-y-1.5">
-                  <Label className="text-xs">Frecuencia</Label>
-                  <Select value={recurrenceType} onValueChange={v => setRecurrenceType(v as any)}>
-                    <SelectTrigger className="bg-muted border-border h-8 text-xs"><SelectValue /></SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="daily">Diariamente</SelectItem>
-                      <SelectItem value="weekly">Semanalmente</SelectItem>
-                      <SelectItem value="custom">Personalizado (cada X días)</SelectItem>
-                    </SelectContent>
-                  </Select>
+          {!editingOccurrence && (
+            <div className="space-y-3 pt-2 border-t border-border">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-semibold">Repetir entrenamiento</Label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={recurring}
+                    onChange={e => {
+                      setRecurring(e.target.checked);
+                      if (e.target.checked && recurrenceType === 'none') setRecurrenceType('daily');
+                    }}
+                    className="w-4 h-4 accent-primary"
+                  />
                 </div>
+              </div>
 
-                {recurrenceType === 'weekly' && (
+              {recurring && (
+                <div className="space-y-3 bg-muted/30 p-3 rounded-lg animate-in fade-in slide-in-from-top-2">
                   <div className="space-y-1.5">
-                    <Label className="text-xs">Días de la semana</Label>
-                    <div className="flex justify-between gap-1">
-                      {[{ label: 'L', value: 1 }, { label: 'M', value: 2 }, { label: 'X', value: 3 }, { label: 'J', value: 4 }, { label: 'V', value: 5 }, { label: 'S', value: 6 }, { label: 'D', value: 0 }].map(({ label, value }) => (
-                        <button
-                          key={value}
-                          onClick={() => toggleDay(value)}
-                          className={`w-7 h-7 text-[10px] rounded-full flex items-center justify-center transition-colors ${recurrenceDays.includes(value)
-                            ? 'bg-primary text-primary-foreground font-bold'
-                            : 'bg-muted hover:bg-muted/80'
-                            }`}
-                        >
-                          {label}
-                        </button>
-                      ))}
-                    </div>
+                    <Label className="text-xs">Frecuencia</Label>
+                    <Select value={recurrenceType} onValueChange={v => setRecurrenceType(v as RecurrenceType)}>
+                      <SelectTrigger className="bg-muted border-border h-8 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="daily">Diariamente</SelectItem>
+                        <SelectItem value="weekly">Semanalmente</SelectItem>
+                        <SelectItem value="monthly">Mensualmente</SelectItem>
+                        <SelectItem value="custom">Personalizado (cada X días)</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
-                )}
 
-                {recurrenceType === 'custom' && (
+                  {recurrenceType === 'monthly' && (
+                    <div className="space-y-3">
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">Repetir el</Label>
+                        <Select value={recurrenceMonthlyMode} onValueChange={v => setRecurrenceMonthlyMode(v as MonthlyRecurrenceMode)}>
+                          <SelectTrigger className="bg-muted border-border h-8 text-xs"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="day_of_month">Mismo día del mes</SelectItem>
+                            <SelectItem value="nth_weekday">Día de la semana del mes</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {recurrenceMonthlyMode === 'day_of_month' ? (
+                        <div className="space-y-1.5">
+                          <Label className="text-xs">Día del mes</Label>
+                          <Select value={String(recurrenceMonthDay)} onValueChange={v => setRecurrenceMonthDay(parseInt(v))}>
+                            <SelectTrigger className="bg-muted border-border h-8 text-xs"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {Array.from({ length: 31 }, (_, i) => i + 1).map(d => (
+                                <SelectItem key={d} value={String(d)}>{d}</SelectItem>
+                              ))}
+                              <SelectItem value="-1">Último día</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {recurrenceMonthDay > 28 && (
+                            <p className="text-[10px] text-muted-foreground">Los meses sin día {recurrenceMonthDay} se saltan</p>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-2 gap-2">
+                          <Select value={String(recurrenceWeekOfMonth)} onValueChange={v => setRecurrenceWeekOfMonth(parseInt(v))}>
+                            <SelectTrigger className="bg-muted border-border h-8 text-xs"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {weekOfMonthLabels.map(({ value, label }) => (
+                                <SelectItem key={value} value={String(value)}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select value={String(recurrenceWeekday)} onValueChange={v => setRecurrenceWeekday(parseInt(v))}>
+                            <SelectTrigger className="bg-muted border-border h-8 text-xs"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {[1, 2, 3, 4, 5, 6, 0].map(d => (
+                                <SelectItem key={d} value={String(d)}>{weekdayLabels[d]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {recurrenceType === 'weekly' && (
+                    <div className="space-y-1.5">
+                      <Label className="text-xs">Días de la semana</Label>
+                      <div className="flex justify-between gap-1">
+                        {[{ label: 'L', value: 1 }, { label: 'M', value: 2 }, { label: 'X', value: 3 }, { label: 'J', value: 4 }, { label: 'V', value: 5 }, { label: 'S', value: 6 }, { label: 'D', value: 0 }].map(({ label, value }) => (
+                          <button
+                            key={value}
+                            onClick={() => toggleDay(value)}
+                            className={`w-7 h-7 text-[10px] rounded-full flex items-center justify-center transition-colors ${recurrenceDays.includes(value)
+                              ? 'bg-primary text-primary-foreground font-bold'
+                              : 'bg-muted hover:bg-muted/80'
+                              }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {recurrenceType === 'custom' && (
+                    <div className="space-y-1.5">
+                      <Label className="text-xs">Repetir cada (días)</Label>
+                      <Input
+                        type="number"
+                        min="2"
+                        value={recurrenceInterval}
+                        onChange={e => setRecurrenceInterval(parseInt(e.target.value) || 2)}
+                        className="bg-muted border-border h-8"
+                      />
+                    </div>
+                  )}
+
                   <div className="space-y-1.5">
-                    <Label className="text-xs">Repetir cada (días)</Label>
+                    <Label className="text-xs">Fecha fin (opcional)</Label>
                     <Input
-                      type="number"
-                      min="2"
-                      value={recurrenceInterval}
-                      onChange={e => setRecurrenceInterval(parseInt(e.target.value) || 2)}
-                      className="bg-muted border-border h-8"
+                      type="text"
+                      inputMode="numeric"
+                      placeholder="DD/MM/AAAA"
+                      value={recurrenceEndDisplay}
+                      onChange={e => {
+                        let v = e.target.value.replace(/[^\d]/g, '');
+                        if (v.length >= 3) v = v.slice(0, 2) + '/' + v.slice(2);
+                        if (v.length >= 6) v = v.slice(0, 5) + '/' + v.slice(5, 9);
+                        if (v.length > 10) v = v.slice(0, 10);
+                        setRecurrenceEndDisplay(v);
+                        // Convert DD/MM/YYYY to YYYY-MM-DD for storage when complete
+                        const parts = v.split('/');
+                        if (parts.length === 3 && parts[2]?.length === 4) {
+                          setRecurrenceEnd(`${parts[2]}-${parts[1]}-${parts[0]}`);
+                        } else {
+                          setRecurrenceEnd('');
+                        }
+                      }}
+                      maxLength={10}
+                      className="bg-muted border-border h-9 text-xs px-2 text-center"
                     />
                   </div>
-                )}
-
-                <div className="space-y-1.5">
-                  <Label className="text-xs">Fecha fin (opcional)</Label>
-                  <Input
-                    type="text"
-                    inputMode="numeric"
-                    placeholder="DD/MM/AAAA"
-                    value={recurrenceEndDisplay}
-                    onChange={e => {
-                      let v = e.target.value.replace(/[^\d]/g, '');
-                      if (v.length >= 3) v = v.slice(0, 2) + '/' + v.slice(2);
-                      if (v.length >= 6) v = v.slice(0, 5) + '/' + v.slice(5, 9);
-                      if (v.length > 10) v = v.slice(0, 10);
-                      setRecurrenceEndDisplay(v);
-                      // Convert DD/MM/YYYY to YYYY-MM-DD for storage when complete
-                      const parts = v.split('/');
-                      if (parts.length === 3 && parts[2]?.length === 4) {
-                        setRecurrenceEnd(`${parts[2]}-${parts[1]}-${parts[0]}`);
-                      } else {
-                        setRecurrenceEnd('');
-                      }
-                    }}
-                    maxLength={10}
-                    className="bg-muted border-border h-9 text-xs px-2 text-center"
-                  />
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
 
-          <Button onClick={handleSubmit} className="w-full gradient-training text-primary-foreground font-semibold rounded-xl">
+          <Button onClick={handleSubmit} disabled={heartRateInvalid || distanceInvalid} className="w-full gradient-training text-primary-foreground font-semibold rounded-xl">
             {editing ? 'Actualizar' : 'Guardar'}
           </Button>
+          {templateName === null ? (
+            <button
+              onClick={() => setTemplateName('')}
+              className="w-full flex items-center justify-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <BookmarkPlus className="w-3.5 h-3.5" /> Guardar como plantilla
+            </button>
+          ) : (
+            <div className="flex gap-2">
+              <Input
+                autoFocus
+                value={templateName}
+                onChange={e => setTemplateName(e.target.value)}
+                placeholder="Nombre de la plantilla"
+                className="bg-muted border-border h-9 text-sm"
+              />
+              <Button onClick={handleSaveTemplate} disabled={!templateName.trim()} variant="outline" className="rounded-xl h-9">
+                Guardar
+              </Button>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
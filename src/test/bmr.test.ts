@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { calculateBmr } from "@/lib/bmr";
+import { UserProfile } from "@/types";
+
+const profile: UserProfile = {
+  name: "", age: 30, weight: 80, height: 180, sex: "male",
+  activityLevel: "moderate", goal: "maintain", bmrFormula: "mifflin", onboardingComplete: true,
+};
+
+describe("calculateBmr", () => {
+  it("implements each formula", () => {
+    expect(calculateBmr(profile).bmr).toBe(1780);
+    expect(calculateBmr({ ...profile, bmrFormula: "harris_benedict" }).bmr).toBe(1854);
+    expect(calculateBmr({ ...profile, bmrFormula: "katch_mcardle" }, 15).bmr).toBe(1839);
+    expect(calculateBmr({ ...profile, bmrFormula: "cunningham" }, 15).bmr).toBe(1996);
+  });
+
+  it("falls back to Mifflin-St Jeor when a lean-mass formula has no body fat", () => {
+    expect(calculateBmr({ ...profile, bmrFormula: "cunningham" })).toEqual({ bmr: 1780, formula: "mifflin" });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { weightOnDate, movingAverage } from "@/lib/bodyMetrics";
+import { BodyMetricEntry } from "@/types";
+
+const entries: BodyMetricEntry[] = [
+  { id: "c", date: "2026-03-10", weight: 79 },
+  { id: "a", date: "2026-03-01", weight: 80, waist: 90 },
+  { id: "b", date: "2026-03-05", waist: 89 },
+  { id: "d", date: "2026-03-12", weight: 78 },
+];
+
+describe("weightOnDate", () => {
+  it("uses the last weight logged on or before the day", () => {
+    expect(weightOnDate(entries, "2026-03-01", 70)).toBe(80);
+    expect(weightOnDate(entries, "2026-03-09", 70)).toBe(80);
+    expect(weightOnDate(entries, "2026-03-10", 70)).toBe(79);
+    expect(weightOnDate(entries, "2026-04-01", 70)).toBe(78);
+  });
+
+  it("falls back to the first weigh-in, or the profile weight without any", () => {
+    expect(weightOnDate(entries, "2026-02-01", 70)).toBe(80);
+    expect(weightOnDate([{ id: "x", date: "2026-03-01", waist: 90 }], "2026-03-02", 70)).toBe(70);
+  });
+});
+
+describe("movingAverage", () => {
+  it("averages the values logged within the window ending on each day", () => {
+    expect(movingAverage(entries, "weight", 7)).toEqual([
+      { date: "2026-03-01", value: 80, trend: 80 },
+      { date: "2026-03-10", value: 79, trend: 79 },
+      { date: "2026-03-12", value: 78, trend: 78.5 },
+    ]);
+    expect(movingAverage(entries, "waist").map(p => p.trend)).toEqual([90, 89.5]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from "vitest";
+import { UserProfile, WorkoutOccurrence } from "@/types";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const { calorieBudget, completedBurn } = await import("@/lib/storage");
+
+const profile: UserProfile = {
+  name: "", age: 30, weight: 80, height: 180, sex: "male",
+  activityLevel: "moderate", goal: "maintain", bmrFormula: "mifflin", onboardingComplete: true,
+};
+
+const session = (caloriesBurned: number, status: WorkoutOccurrence["status"]): WorkoutOccurrence => ({
+  id: `w-${caloriesBurned}`,
+  date: "2025-01-06",
+  occurrenceDate: "2025-01-06",
+  time: "18:00",
+  exerciseType: "running",
+  duration: 45,
+  intensity: "medium",
+  caloriesBurned,
+  recurring: false,
+  status,
+});
+
+describe("calorieBudget", () => {
+  // 300 + 150 kcal done; the planned and missed sessions burn nothing
+  const burned = completedBurn([
+    session(300, "completed"), session(150, "completed"), session(500, "planned"), session(400, "missed"),
+  ]);
+
+  it("counts only completed sessions as burned", () => {
+    expect(burned).toBe(450);
+    expect(completedBurn([])).toBe(0);
+  });
+
+  it("adds the profile's share of the burn to the target", () => {
+    expect(calorieBudget(profile, 2000, burned)).toBe(2000);
+    expect(calorieBudget({ ...profile, exerciseEatBack: 0 }, 2000, burned)).toBe(2000);
+    expect(calorieBudget({ ...profile, exerciseEatBack: 50 }, 2000, burned)).toBe(2225);
+    expect(calorieBudget({ ...profile, exerciseEatBack: 100 }, 2000, burned)).toBe(2450);
+    expect(calorieBudget({ ...profile, exerciseEatBack: 50 }, 2000, 301)).toBe(2151);
+  });
+});
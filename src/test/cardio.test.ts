@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { climbCalories, formatPace, paceValue, speedMet, weeklyDistance } from "@/lib/cardio";
+import { WorkoutOccurrence } from "@/types";
+
+const run = (date: string, distance: number | undefined, duration: number): WorkoutOccurrence => ({
+  id: date, date, occurrenceDate: date, time: "08:00", exerciseType: "running", duration,
+  intensity: "medium", caloriesBurned: 0, recurring: false, distance, status: "completed",
+});
+
+describe("speedMet", () => {
+  it("interpolates the Compendium table and clamps at its ends", () => {
+    expect(speedMet("running", 9.7)).toBe(9.8);
+    expect(speedMet("running", 10.25)).toBeCloseTo(10.15);
+    expect(speedMet("running", 4)).toBe(6.0);
+    expect(speedMet("cycling", 40)).toBe(15.8);
+  });
+
+  it("adds the work of climbing", () => {
+    // 80 kg up 500 m at 25% efficiency
+    expect(Math.round(climbCalories(80, 500))).toBe(375);
+  });
+});
+
+describe("pace", () => {
+  it("uses each sport's unit", () => {
+    expect(formatPace("running", paceValue("running", 10, 55))).toBe("5:30 min/km");
+    expect(formatPace("swimming", paceValue("swimming", 1.5, 30))).toBe("2:00 min/100 m");
+    expect(formatPace("cycling", paceValue("cycling", 30, 72))).toBe("25.0 km/h");
+  });
+});
+
+describe("weeklyDistance", () => {
+  it("totals completed sessions per week and weights pace by distance", () => {
+    const sessions = [
+      run("2025-01-06", 10, 50),
+      run("2025-01-08", 5, 30),
+      run("2025-01-09", undefined, 40),
+      { ...run("2025-01-10", 8, 40), status: "missed" as const },
+      run("2025-01-14", 12, 66),
+    ];
+    const weeks = weeklyDistance(sessions, "running", new Date("2025-01-08T00:00:00"), 3);
+    expect(weeks.map(w => w.weekStart)).toEqual(["2025-01-06", "2025-01-13", "2025-01-20"]);
+    expect(weeks.map(w => w.distance)).toEqual([15, 12, 0]);
+    expect(weeks[0].pace).toBeCloseTo(80 / 15);
+    expect(weeks[2].pace).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { cycleTargets, getWeekTraining } from "@/lib/cycling";
+import { DailyTargets, Workout } from "@/types";
+
+const workout: Workout = {
+  id: "w1",
+  date: "2025-01-06",
+  time: "09:00",
+  exerciseType: "running",
+  duration: 60,
+  intensity: "medium",
+  caloriesBurned: 500,
+  recurring: true,
+  recurrenceType: "weekly",
+  recurrenceDays: [1, 3, 5], // Mon, Wed, Fri
+};
+
+const base: DailyTargets = { calories: 2000, protein: 150, carbs: 200, fat: 67 };
+
+const day = (s: string) => new Date(`${s}T00:00:00`);
+
+describe("getWeekTraining", () => {
+  it("counts the days with workouts in the Monday–Sunday week", () => {
+    expect(getWeekTraining([workout], day("2025-01-08"))).toEqual({ trainingDay: true, trainingDays: 3 });
+    expect(getWeekTraining([workout], day("2025-01-12"))).toEqual({ trainingDay: false, trainingDays: 3 });
+  });
+});
+
+describe("cycleTargets", () => {
+  it("moves carbs from rest days to training days and keeps the weekly total", () => {
+    const training = cycleTargets(base, { trainingDay: true, trainingDays: 3 }, 20, 1500);
+    const rest = cycleTargets(base, { trainingDay: false, trainingDays: 3 }, 20, 1500);
+    expect(training).toEqual({ calories: 2400, protein: 150, carbs: 300, fat: 67 });
+    expect(rest).toEqual({ calories: 1700, protein: 150, carbs: 125, fat: 67 });
+    expect(training.calories * 3 + rest.calories * 4).toBe(base.calories * 7);
+  });
+
+  it("shrinks the boost rather than drop rest days below the minimum", () => {
+    const low = { ...base, calories: 1300 };
+    expect(cycleTargets(low, { trainingDay: false, trainingDays: 3 }, 30, 1200).calories).toBe(1200);
+    expect(cycleTargets(low, { trainingDay: true, trainingDays: 3 }, 30, 1200).calories).toBe(1433);
+  });
+
+  it("leaves every day equal without both kinds of day", () => {
+    expect(cycleTargets(base, { trainingDay: false, trainingDays: 0 }, 20, 1500)).toBe(base);
+    expect(cycleTargets(base, { trainingDay: true, trainingDays: 7 }, 20, 1500)).toBe(base);
+  });
+});
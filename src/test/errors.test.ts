@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { StorageError, toStorageError, getErrorMessage } from "@/lib/errors";
+
+describe("toStorageError", () => {
+  it("classifies Supabase and fetch failures", () => {
+    expect(toStorageError({ message: "TypeError: Failed to fetch" }).kind).toBe("network");
+    expect(toStorageError({ message: "new row violates row-level security policy", code: "42501" }).kind).toBe("unauthorized");
+    expect(toStorageError({ message: "JWT expired", code: "PGRST301" }).kind).toBe("unauthorized");
+    expect(toStorageError({ message: "invalid input syntax for type uuid", code: "22P02" }).kind).toBe("rejected");
+  });
+
+  it("keeps existing storage errors and marks which ones are retryable", () => {
+    const offline = new StorageError("offline");
+    expect(toStorageError(offline)).toBe(offline);
+    expect(offline.retryable).toBe(true);
+    expect(new StorageError("rejected").retryable).toBe(false);
+  });
+
+  it("only shows storage messages to the user", () => {
+    expect(getErrorMessage(new StorageError("network"))).toMatch(/servidor/);
+    expect(getErrorMessage(new Error("boom"))).not.toMatch(/boom/);
+  });
+});
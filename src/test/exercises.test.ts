@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { BUILT_IN_EXERCISES, exerciseLibrary, searchExercises, weeklySetsByMuscle } from "@/lib/exercises";
+import { LibraryExercise, StrengthSet, Workout } from "@/types";
+
+const sets = (count: number): StrengthSet[] => Array.from({ length: count }, () => ({ reps: 8, weight: 60 }));
+
+const sled: LibraryExercise = {
+  id: "c1",
+  name: "Empuje de trineo",
+  primaryMuscles: ["quads"],
+  secondaryMuscles: ["calves"],
+  equipment: "other",
+  custom: true,
+};
+
+const gym = (date: string, completed: boolean): Workout => ({
+  id: `w-${date}`,
+  date,
+  time: "18:00",
+  exerciseType: "gym",
+  duration: 60,
+  intensity: "high",
+  caloriesBurned: 300,
+  recurring: false,
+  exercises: [
+    { id: "e1", exerciseId: "bench_press", name: "Press de banca", sets: sets(4), volume: 1920 },
+    { id: "e2", exerciseId: "c1", name: "Empuje de trineo", sets: sets(3), volume: 1440 },
+    { id: "e3", name: "Algo sin catalogar", sets: sets(5), volume: 2400 },
+  ],
+  exceptions: completed ? [{ date, status: "completed" }] : undefined,
+});
+
+describe("searchExercises", () => {
+  const library = exerciseLibrary([sled]);
+
+  it("matches every word against name, muscles and equipment, ignoring accents", () => {
+    expect(searchExercises(library, "press mancuernas").map(e => e.id))
+      .toEqual(["dumbbell_bench_press", "dumbbell_shoulder_press"]);
+    expect(searchExercises(library, "gluteos barra").map(e => e.id)).toContain("hip_thrust");
+    expect(searchExercises(library, "trineo").map(e => e.id)).toEqual(["c1"]);
+  });
+
+  it("returns the whole library for an empty query", () => {
+    expect(searchExercises(library, "  ")).toHaveLength(BUILT_IN_EXERCISES.length + 1);
+  });
+});
+
+describe("weeklySetsByMuscle", () => {
+  it("counts completed sets of the week, secondary muscles at half", () => {
+    const workouts = [gym("2025-01-06", true), gym("2025-01-08", false), gym("2025-01-13", true)];
+    expect(weeklySetsByMuscle(workouts, exerciseLibrary([sled]), new Date(2025, 0, 9))).toEqual({
+      chest: 4,
+      triceps: 2,
+      shoulders: 2,
+      quads: 3,
+      calves: 1.5,
+    });
+  });
+});
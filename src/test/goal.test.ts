@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { planGoal, projectGoal } from "@/lib/goal";
+import { UserProfile } from "@/types";
+
+const profile: UserProfile = {
+  name: "", age: 30, weight: 80, height: 175, sex: "male",
+  activityLevel: "moderate", goal: "lose_fat", bmrFormula: "mifflin", onboardingComplete: true,
+};
+
+describe("planGoal", () => {
+  it("keeps the fixed adjustment without a target weight", () => {
+    expect(planGoal(profile, "2026-03-01").dailyAdjustment).toBe(-400);
+  });
+
+  it("derives the deficit from the target weight and deadline", () => {
+    // 4 kg in 56 days: 0.5 kg a week, 550 kcal a day
+    const plan = planGoal({ ...profile, targetWeight: 76, targetDate: "2026-04-26" }, "2026-03-01");
+    expect(plan.weeklyChange).toBeCloseTo(-0.5);
+    expect(plan.dailyAdjustment).toBe(-550);
+    expect(plan.clamped).toBe(false);
+  });
+
+  it("limits deadlines that need an unsafe rate", () => {
+    const plan = planGoal({ ...profile, targetWeight: 70, targetDate: "2026-03-15" }, "2026-03-01");
+    expect(plan.weeklyChange).toBeCloseTo(-0.8); // 1% of bodyweight
+    expect(plan.clamped).toBe(true);
+  });
+});
+
+describe("projectGoal", () => {
+  it("flags a trend going the wrong way", () => {
+    const entries = [0, 7, 14, 21].map(i => ({ id: String(i), date: `2026-03-${String(1 + i).padStart(2, "0")}`, weight: 80 + i * 0.05 }));
+    const projection = projectGoal({ ...profile, targetWeight: 75 }, entries, "2026-03-22");
+    expect(projection.weeklyTrend).toBeCloseTo(0.35);
+    expect(projection.expectedDate).toBeNull();
+    expect(projection.progress).toBe("off_course");
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from "vitest";
+import { UserProfile } from "@/types";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const { caloriesFromHeartRate, estimateWorkoutCalories, estimatedMaxHeartRate } = await import("@/lib/heartRate");
+
+const profile: UserProfile = {
+  name: "", age: 30, weight: 80, height: 180, sex: "male",
+  activityLevel: "moderate", goal: "maintain", bmrFormula: "mifflin", onboardingComplete: true,
+};
+
+describe("caloriesFromHeartRate", () => {
+  it("applies the Keytel equation for each sex", () => {
+    // (-55.0969 + 0.6309·140 + 0.1988·80 + 0.2017·30) / 4.184 × 60
+    expect(caloriesFromHeartRate(140, 60, profile, 80)).toBe(791);
+    expect(caloriesFromHeartRate(140, 60, { ...profile, sex: "female" }, 60)).toBe(528);
+  });
+
+  it("rejects heart rates outside the resting-to-max range", () => {
+    expect(estimatedMaxHeartRate(30)).toBe(187);
+    expect(caloriesFromHeartRate(55, 60, profile, 80)).toBeNull();
+    expect(caloriesFromHeartRate(195, 60, profile, 80)).toBeNull();
+    expect(caloriesFromHeartRate(195, 60, { ...profile, maxHeartRate: 200 }, 80)).not.toBeNull();
+  });
+});
+
+describe("estimateWorkoutCalories", () => {
+  it("falls back to METs without a usable heart rate", () => {
+    const workout = { exerciseType: "running", duration: 60, intensity: "medium" } as const;
+    expect(estimateWorkoutCalories(workout, profile, 80)).toEqual({ calories: 784, method: "met" });
+    expect(estimateWorkoutCalories({ ...workout, avgHeartRate: 140 }, profile, 80).method).toBe("heart_rate");
+  });
+});
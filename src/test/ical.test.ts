@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from "vitest";
+import { Workout } from "@/types";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const { exportWorkoutsToICS, mergeImported, parseICS } = await import("@/lib/ical");
+
+const weekly: Workout = {
+  id: "0b6c1f9e-1111-4c5e-9d1a-000000000001",
+  date: "2025-01-07",
+  time: "18:30",
+  exerciseType: "running",
+  duration: 45,
+  intensity: "high",
+  caloriesBurned: 480,
+  recurring: true,
+  recurrenceType: "weekly",
+  recurrenceDays: [2, 4],
+  recurrenceEnd: "2025-03-31",
+  exceptions: [
+    { date: "2025-01-14", skipped: true },
+    { date: "2025-01-16", movedTo: "2025-01-17", duration: 30 },
+  ],
+};
+
+describe("iCalendar export", () => {
+  it("writes RRULE, EXDATE and RECURRENCE-ID overrides", () => {
+    const ics = exportWorkoutsToICS([weekly]);
+    expect(ics).toContain("RRULE:FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20250331T235900");
+    expect(ics).toContain("EXDATE:20250114T183000");
+    expect(ics).toContain("RECURRENCE-ID:20250116T183000");
+    expect(ics).toContain("DTSTART:20250117T183000");
+  });
+
+  it("round-trips through parseICS", () => {
+    const { workouts, warnings } = parseICS(exportWorkoutsToICS([weekly]), () => 70);
+    expect(warnings).toEqual([]);
+    expect(workouts).toHaveLength(1);
+    const [w] = workouts;
+    expect(w.id).toBe(weekly.id);
+    expect(w.recurrenceDays).toEqual([2, 4]);
+    expect(w.recurrenceEnd).toBe("2025-03-31");
+    expect(w.exceptions).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ date: "2025-01-14", skipped: true }),
+        expect.objectContaining({ date: "2025-01-16", movedTo: "2025-01-17", duration: 30 }),
+      ])
+    );
+  });
+});
+
+describe("re-importing an export", () => {
+  const logged: Workout = {
+    ...weekly,
+    avgHeartRate: 150,
+    distance: 8,
+    programId: "0b6c1f9e-1111-4c5e-9d1a-000000000099",
+    exceptions: [
+      ...weekly.exceptions!,
+      { date: "2025-01-09", status: "completed", distance: 10 },
+      { date: "2025-01-21", status: "missed", time: "07:00" },
+    ],
+  };
+
+  it("keeps what the calendar can't carry", () => {
+    const [imported] = parseICS(exportWorkoutsToICS([logged]), () => 70).workouts;
+    const merged = mergeImported(logged, imported);
+    expect(merged).toMatchObject({ avgHeartRate: 150, distance: 8, programId: logged.programId });
+    expect(merged.exceptions).toHaveLength(4);
+    expect(merged.exceptions).toEqual(expect.arrayContaining([
+      expect.objectContaining({ date: "2025-01-09", status: "completed", distance: 10 }),
+      expect.objectContaining({ date: "2025-01-21", status: "missed", time: "07:00" }),
+      expect.objectContaining({ date: "2025-01-14", skipped: true }),
+      expect.objectContaining({ date: "2025-01-16", movedTo: "2025-01-17", duration: 30 }),
+    ]));
+  });
+
+  it("takes schedule changes from the calendar", () => {
+    const [imported] = parseICS(exportWorkoutsToICS([{ ...logged, exceptions: [] }]), () => 70).workouts;
+    expect(mergeImported(logged, imported).exceptions).toEqual([
+      { date: "2025-01-09", status: "completed", distance: 10 },
+      { date: "2025-01-21", status: "missed" },
+    ]);
+  });
+});
+
+describe("iCalendar import", () => {
+  const calendar = (rrule: string) => [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "UID:abc@example.com",
+    "DTSTART:20250125T080000",
+    "DTEND:20250125T110000",
+    "SUMMARY:Ruta de montaña",
+    `RRULE:${rrule}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  it("maps nth-weekday monthly rules", () => {
+    const { workouts, warnings } = parseICS(calendar("FREQ=MONTHLY;BYDAY=-1SA;COUNT=3"), () => 70);
+    const [w] = workouts;
+    expect(warnings).toEqual([]);
+    expect(w.exerciseType).toBe("hiking");
+    expect(w.duration).toBe(180);
+    expect(w.recurrenceMonthlyMode).toBe("nth_weekday");
+    expect(w.recurrenceWeekOfMonth).toBe(-1);
+    expect(w.recurrenceWeekday).toBe(6);
+    expect(w.recurrenceEnd).toBe("2025-03-29");
+  });
+
+  it("anchors every-N-weeks rules on their weekday, not DTSTART's", () => {
+    // DTSTART is a Saturday; the sessions are on Mondays every 2 weeks
+    const { workouts, warnings } = parseICS(calendar("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;COUNT=3"), () => 70);
+    const [w] = workouts;
+    expect(warnings).toEqual([]);
+    expect(w.date).toBe("2025-01-27");
+    expect(w.recurrenceType).toBe("custom");
+    expect(w.recurrenceInterval).toBe(14);
+    expect(w.recurrenceEnd).toBe("2025-02-24");
+  });
+
+  it("reports RRULE parts it cannot represent", () => {
+    const { workouts, warnings } = parseICS(calendar("FREQ=MONTHLY;INTERVAL=2;BYMONTH=1,7;BYMONTHDAY=25"), () => 70);
+    expect(workouts[0].recurrenceMonthDay).toBe(25);
+    expect(warnings).toHaveLength(2);
+    expect(warnings.join(" ")).toMatch(/INTERVAL=2/);
+    expect(warnings.join(" ")).toMatch(/BYMONTH=1,7/);
+  });
+
+  it("imports unsupported frequencies as a single session", () => {
+    const { workouts, warnings } = parseICS(calendar("FREQ=YEARLY"), () => 70);
+    expect(workouts[0].recurring).toBe(false);
+    expect(warnings[0]).toMatch(/YEARLY/);
+  });
+});
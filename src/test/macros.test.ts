@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { splitMacros } from "@/lib/macros";
+import { UserProfile } from "@/types";
+
+const profile: UserProfile = {
+  name: "", age: 30, weight: 80, height: 180, sex: "male",
+  activityLevel: "moderate", goal: "maintain", bmrFormula: "mifflin", onboardingComplete: true,
+};
+
+describe("splitMacros", () => {
+  it("uses the goal's split by default and custom percentages when set", () => {
+    expect(splitMacros(2000, profile)).toEqual({ calories: 2000, protein: 125, carbs: 225, fat: 67 });
+    expect(splitMacros(2000, { ...profile, macros: { mode: "percent", protein: 40, carbs: 30, fat: 30 } }))
+      .toEqual({ calories: 2000, protein: 200, carbs: 150, fat: 67 });
+  });
+
+  it("lets fixed grams set the calories", () => {
+    expect(splitMacros(2000, { ...profile, macros: { mode: "grams", protein: 180, carbs: 200, fat: 60 } }))
+      .toEqual({ calories: 2060, protein: 180, carbs: 200, fat: 60 });
+  });
+
+  it("sets protein per kg of lean mass and fills the rest with carbs and fat", () => {
+    const perKg: UserProfile = { ...profile, macros: { mode: "protein_per_kg", gramsPerKg: 2.5, basis: "lean_mass" } };
+    // 68 kg lean mass → 170 g protein; 1320 kcal left split 45:30
+    expect(splitMacros(2000, perKg, 15)).toEqual({ calories: 2000, protein: 170, carbs: 198, fat: 59 });
+    // Without a body-fat reading it falls back to bodyweight
+    expect(splitMacros(2000, perKg).protein).toBe(200);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import { removeById, restoreQueries, updateQueries, upsertByDate } from "@/lib/optimistic";
+
+type Entry = { id: string; date: string };
+
+const entries: Entry[] = [{ id: "b", date: "2025-01-08" }, { id: "a", date: "2025-01-06" }];
+
+describe("updateQueries", () => {
+  it("updates every loaded query under the key and restores them on failure", async () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(["meals", "u1", "2025-01"], entries);
+    queryClient.setQueryData(["meals", "u1", "2025-02"], []);
+    queryClient.setQueryData(["workouts", "u1"], entries);
+
+    const added = { id: "c", date: "2025-01-07" };
+    const snapshot = await updateQueries<Entry[]>(queryClient, ["meals", "u1"], (list, key) =>
+      upsertByDate(list, added, key[2] === "2025-01")
+    );
+    expect(queryClient.getQueryData(["meals", "u1", "2025-01"])).toEqual([entries[0], added, entries[1]]);
+    expect(queryClient.getQueryData(["meals", "u1", "2025-02"])).toEqual([]);
+    expect(queryClient.getQueryData(["workouts", "u1"])).toBe(entries);
+
+    restoreQueries(queryClient, snapshot);
+    expect(queryClient.getQueryData(["meals", "u1", "2025-01"])).toEqual(entries);
+  });
+});
+
+describe("list helpers", () => {
+  it("moves an edited entry into order or out of the list", () => {
+    const moved = { id: "a", date: "2025-01-09" };
+    expect(upsertByDate(entries, moved, true)).toEqual([moved, entries[0]]);
+    expect(upsertByDate(entries, moved, false)).toEqual([entries[0]]);
+    expect(removeById(entries, "b")).toEqual([entries[1]]);
+  });
+});
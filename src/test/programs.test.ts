@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from "vitest";
+import { TrainingProgram, WorkoutTemplate } from "@/types";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const { programLoad, programWorkouts } = await import("@/lib/programs");
+
+const program: TrainingProgram = {
+  id: "p1",
+  name: "Fuerza",
+  startDate: "2025-01-06", // Monday
+  weeks: 5,
+  days: [{ weekday: 5, templateId: "pull" }, { weekday: 1, templateId: "push" }, { weekday: 3, templateId: "gone" }],
+  weeklyIncrease: 2.5,
+  deloadEvery: 4,
+  deloadPercent: 60,
+};
+
+const push: WorkoutTemplate = {
+  id: "push",
+  name: "Empuje",
+  exerciseType: "gym",
+  time: "18:00",
+  duration: 60,
+  intensity: "high",
+  exercises: [{
+    id: "e1", exerciseId: "bench_press", name: "Press de banca", volume: 0,
+    sets: [{ reps: 5, weight: 80 }, { reps: 10, weight: 0 }],
+  }],
+};
+
+const pull: WorkoutTemplate = { ...push, id: "pull", name: "Tirón", exerciseType: "running", exercises: [] };
+
+describe("programLoad", () => {
+  it("adds the weekly increase and lightens deload weeks without counting them", () => {
+    expect([1, 2, 3, 4, 5].map(week => programLoad(program, 80, week))).toEqual([80, 82.5, 85, 51, 87.5]);
+    expect(programLoad(program, 0, 3)).toBe(0);
+  });
+});
+
+describe("programWorkouts", () => {
+  it("schedules each template on its weekday for every week", () => {
+    const workouts = programWorkouts(program, [push, pull], 80);
+    expect(workouts).toHaveLength(10);
+    expect(workouts.slice(0, 4).map(w => [w.date, w.exerciseType])).toEqual([
+      ["2025-01-06", "gym"], ["2025-01-10", "running"], ["2025-01-13", "gym"], ["2025-01-17", "running"],
+    ]);
+    const deload = workouts[6];
+    expect(deload.notes).toBe("Fuerza · Empuje · semana 4/5 (descarga)");
+    expect(deload.exercises?.[0].sets.map(s => s.weight)).toEqual([51, 0]);
+    expect(deload.exercises?.[0].volume).toBe(255);
+    expect(workouts.every(w => w.programId === "p1" && !w.recurring)).toBe(true);
+    expect(workouts[1].exercises).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { newRecords, oneRepMax, personalRecords } from "@/lib/records";
+import { StrengthSet, WorkoutOccurrence } from "@/types";
+
+const session = (
+  id: string, date: string, changes: Partial<WorkoutOccurrence>
+): WorkoutOccurrence => ({
+  id,
+  date,
+  occurrenceDate: date,
+  time: "18:00",
+  exerciseType: "gym",
+  duration: 60,
+  intensity: "medium",
+  caloriesBurned: 300,
+  recurring: false,
+  status: "completed",
+  ...changes,
+});
+
+const squat = (id: string, date: string, sets: StrengthSet[]) => session(id, date, {
+  exercises: [{
+    id: `e-${id}`,
+    exerciseId: "squat",
+    name: "Sentadilla",
+    sets,
+    volume: sets.reduce((s, set) => s + set.reps * set.weight, 0),
+  }],
+});
+
+const run = (id: string, date: string, distance: number, duration: number) =>
+  session(id, date, { exerciseType: "running", distance, duration });
+
+describe("oneRepMax", () => {
+  it("estimates with Epley and Brzycki", () => {
+    expect(oneRepMax({ reps: 5, weight: 100 }, "epley")).toBe(116.7);
+    expect(oneRepMax({ reps: 5, weight: 100 }, "brzycki")).toBe(112.5);
+    expect(oneRepMax({ reps: 1, weight: 140 }, "brzycki")).toBe(140);
+    expect(oneRepMax({ reps: 20, weight: 60 }, "epley")).toBeNull();
+  });
+});
+
+describe("personalRecords", () => {
+  it("keeps the best of each record with the date it was set", () => {
+    const records = personalRecords([
+      squat("a", "2025-01-06", [{ reps: 5, weight: 100 }, { reps: 8, weight: 80 }]),
+      squat("b", "2025-01-09", [{ reps: 3, weight: 110 }, { reps: 10, weight: 80 }]),
+      squat("c", "2025-01-12", [{ reps: 5, weight: 100 }]),
+      { ...squat("d", "2025-01-14", [{ reps: 1, weight: 150 }]), status: "planned" },
+      run("r1", "2025-01-07", 5, 25),
+      run("r2", "2025-01-10", 10, 48),
+    ]);
+    const [exercise] = records.exercises;
+    expect(exercise.heaviest).toMatchObject({ value: 110, date: "2025-01-09" });
+    expect(exercise.oneRepMax).toMatchObject({ value: 121, date: "2025-01-09" });
+    expect(exercise.bestVolume).toMatchObject({ value: 1140, date: "2025-01-06" });
+    expect(exercise.repsByWeight.map(r => [r.weight, r.value, r.date])).toEqual([
+      [110, 3, "2025-01-09"], [100, 5, "2025-01-06"], [80, 10, "2025-01-09"],
+    ]);
+    expect(records.cardio).toEqual([{
+      sport: "running",
+      longest: { value: 10, date: "2025-01-10", workoutId: "r2" },
+      fastest5k: { value: 24, date: "2025-01-10", workoutId: "r2" },
+    }]);
+  });
+});
+
+describe("newRecords", () => {
+  it("reports only records that beat a previous one", () => {
+    const history = [squat("a", "2025-01-06", [{ reps: 5, weight: 100 }]), run("r1", "2025-01-07", 5, 25)];
+    const found = newRecords(
+      personalRecords(history),
+      personalRecords([
+        ...history,
+        squat("b", "2025-01-09", [{ reps: 6, weight: 100 }, { reps: 8, weight: 60 }]),
+        run("r2", "2025-01-10", 4, 18),
+      ])
+    );
+    expect(found.map(r => [r.kind, r.exercise ?? r.sport, r.record.value])).toEqual([
+      ["oneRepMax", "Sentadilla", 120],
+      ["bestVolume", "Sentadilla", 1080],
+      ["reps", "Sentadilla", 6],
+    ]);
+  });
+});
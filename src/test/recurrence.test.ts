@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { isWorkoutOnDate, getOccurrencesOnDate, expandOccurrences, isWorkoutInRange, withException, withStatus, withLoggedStatus, buildException, endSeriesBefore } from "@/lib/recurrence";
+import { addDays, format } from "date-fns";
+import { Workout } from "@/types";
+
+const base: Workout = {
+  id: "w1",
+  date: "2025-01-01",
+  time: "09:00",
+  exerciseType: "running",
+  duration: 60,
+  intensity: "medium",
+  caloriesBurned: 500,
+  recurring: true,
+  recurrenceType: "monthly",
+};
+
+const day = (s: string) => new Date(`${s}T00:00:00`);
+
+describe("isWorkoutOnDate — monthly", () => {
+  it("matches the same day of every month", () => {
+    const w: Workout = { ...base, recurrenceMonthlyMode: "day_of_month", recurrenceMonthDay: 1 };
+    expect(isWorkoutOnDate(w, day("2025-02-01"))).toBe(true);
+    expect(isWorkoutOnDate(w, day("2025-02-02"))).toBe(false);
+  });
+
+  it("skips months without the given day", () => {
+    const w: Workout = { ...base, recurrenceMonthlyMode: "day_of_month", recurrenceMonthDay: 31 };
+    expect(isWorkoutOnDate(w, day("2025-03-31"))).toBe(true);
+    expect(isWorkoutOnDate(w, day("2025-04-30"))).toBe(false);
+  });
+
+  it("supports the last day of the month", () => {
+    const w: Workout = { ...base, recurrenceMonthlyMode: "day_of_month", recurrenceMonthDay: -1 };
+    expect(isWorkoutOnDate(w, day("2025-02-28"))).toBe(true);
+    expect(isWorkoutOnDate(w, day("2025-04-30"))).toBe(true);
+    expect(isWorkoutOnDate(w, day("2025-04-29"))).toBe(false);
+  });
+
+  it("matches the nth weekday of the month", () => {
+    const w: Workout = { ...base, recurrenceMonthlyMode: "nth_weekday", recurrenceWeekOfMonth: 2, recurrenceWeekday: 2 };
+    expect(isWorkoutOnDate(w, day("2025-02-11"))).toBe(true);
+    expect(isWorkoutOnDate(w, day("2025-02-04"))).toBe(false);
+  });
+
+  it("matches the last weekday of the month", () => {
+    const w: Workout = { ...base, recurrenceMonthlyMode: "nth_weekday", recurrenceWeekOfMonth: -1, recurrenceWeekday: 6 };
+    expect(isWorkoutOnDate(w, day("2025-05-31"))).toBe(true);
+    expect(isWorkoutOnDate(w, day("2025-05-24"))).toBe(false);
+  });
+
+  it("respects the recurrence end date", () => {
+    const w: Workout = { ...base, recurrenceMonthDay: 1, recurrenceEnd: "2025-03-15" };
+    expect(isWorkoutOnDate(w, day("2025-03-01"))).toBe(true);
+    expect(isWorkoutOnDate(w, day("2025-04-01"))).toBe(false);
+  });
+});
+
+describe("getOccurrencesOnDate — exceptions", () => {
+  const weekly: Workout = { ...base, recurrenceType: "weekly", recurrenceDays: [2] }; // Tuesdays
+
+  it("hides skipped occurrences", () => {
+    const w = withException(weekly, { date: "2025-01-07", skipped: true });
+    expect(getOccurrencesOnDate([w], day("2025-01-07"))).toHaveLength(0);
+    expect(getOccurrencesOnDate([w], day("2025-01-14"))).toHaveLength(1);
+  });
+
+  it("moves an occurrence to another day", () => {
+    const w = withException(weekly, { date: "2025-01-07", movedTo: "2025-01-08" });
+    expect(getOccurrencesOnDate([w], day("2025-01-07"))).toHaveLength(0);
+    const [moved] = getOccurrencesOnDate([w], day("2025-01-08"));
+    expect(moved.date).toBe("2025-01-08");
+    expect(moved.occurrenceDate).toBe("2025-01-07");
+  });
+
+  it("applies per-occurrence overrides", () => {
+    const w = withException(weekly, { date: "2025-01-07", duration: 30, caloriesBurned: 250 });
+    const [occurrence] = getOccurrencesOnDate([w], day("2025-01-07"));
+    expect(occurrence.duration).toBe(30);
+    expect(occurrence.caloriesBurned).toBe(250);
+    expect(getOccurrencesOnDate([w], day("2025-01-14"))[0].duration).toBe(60);
+  });
+
+  it("tracks completion status without losing overrides", () => {
+    const w = withStatus(withException(weekly, { date: "2025-01-07", duration: 30 }), "2025-01-07", "completed");
+    const [occurrence] = getOccurrencesOnDate([w], day("2025-01-07"));
+    expect(occurrence.status).toBe("completed");
+    expect(occurrence.duration).toBe(30);
+    expect(getOccurrencesOnDate([w], day("2025-01-14"))[0].status).toBe("planned");
+    expect(withStatus(w, "2025-01-07", "planned").exceptions).toEqual([{ date: "2025-01-07", duration: 30 }]);
+  });
+
+  it("clears a series value for one occurrence", () => {
+    const tracked: Workout = { ...weekly, avgHeartRate: 150, distance: 10 };
+    const [occurrence] = getOccurrencesOnDate([tracked], day("2025-01-07"));
+    const exception = buildException(tracked, "2025-01-07", { ...occurrence, avgHeartRate: undefined, distance: 8 });
+    expect(exception).toMatchObject({ avgHeartRate: null, distance: 8, maxHeartRate: undefined });
+
+    const w = withException(tracked, exception);
+    const [edited] = getOccurrencesOnDate([w], day("2025-01-07"));
+    expect(edited.avgHeartRate).toBeUndefined();
+    expect(edited.distance).toBe(8);
+    expect(getOccurrencesOnDate([w], day("2025-01-14"))[0].avgHeartRate).toBe(150);
+  });
+
+  it("logs one-off workouts added for a past day as completed", () => {
+    const single: Workout = { ...base, recurring: false, date: "2025-01-07" };
+    const logged = withLoggedStatus(single, "2025-01-08");
+    expect(getOccurrencesOnDate([logged], day("2025-01-07"))[0].status).toBe("completed");
+    expect(withLoggedStatus(single, "2025-01-07")).toBe(single);
+    expect(withLoggedStatus(withStatus(single, "2025-01-07", "missed"), "2025-01-08").exceptions).toEqual([
+      { date: "2025-01-07", status: "missed" },
+    ]);
+    expect(withLoggedStatus(weekly, "2025-02-01")).toBe(weekly);
+  });
+
+  it("ends a series before a given occurrence", () => {
+    const w = endSeriesBefore(withException(weekly, { date: "2025-01-21", skipped: true }), "2025-01-14");
+    expect(w.recurrenceEnd).toBe("2025-01-13");
+    expect(w.exceptions).toHaveLength(0);
+    expect(isWorkoutOnDate(w, day("2025-01-14"))).toBe(false);
+  });
+});
+
+describe("expandOccurrences", () => {
+  const rules: Workout[] = [
+    { ...base, id: "daily", recurrenceType: "daily", recurrenceEnd: "2025-02-10" },
+    { ...base, id: "weekly", recurrenceType: "weekly", recurrenceDays: [1, 3, 5] },
+    { ...base, id: "custom", date: "2025-01-03", recurrenceType: "custom", recurrenceInterval: 3 },
+    { ...base, id: "monthday", recurrenceMonthlyMode: "day_of_month", recurrenceMonthDay: 31 },
+    { ...base, id: "lastday", recurrenceMonthlyMode: "day_of_month", recurrenceMonthDay: -1 },
+    { ...base, id: "nth", recurrenceMonthlyMode: "nth_weekday", recurrenceWeekOfMonth: 3, recurrenceWeekday: 0 },
+    { ...base, id: "last-sat", recurrenceMonthlyMode: "nth_weekday", recurrenceWeekOfMonth: -1, recurrenceWeekday: 6 },
+    { ...base, id: "single", date: "2025-03-03", recurring: false, recurrenceType: undefined },
+  ];
+
+  it("matches isWorkoutOnDate day by day", () => {
+    const from = day("2024-12-20");
+    const to = day("2025-06-30");
+    const expanded = expandOccurrences(rules, from, to).map(o => `${o.id}:${o.date}`).sort();
+
+    const expected: string[] = [];
+    for (let d = from; d <= to; d = addDays(d, 1)) {
+      for (const w of rules) if (isWorkoutOnDate(w, d)) expected.push(`${w.id}:${format(d, "yyyy-MM-dd")}`);
+    }
+    expect(expanded).toEqual(expected.sort());
+  });
+
+  it("includes occurrences moved into the range and drops those moved out", () => {
+    const w = withException({ ...base, recurrenceType: "weekly", recurrenceDays: [2] }, { date: "2025-01-07", movedTo: "2025-01-13" });
+    const dates = expandOccurrences([w], day("2025-01-06"), day("2025-01-12")).map(o => o.date);
+    expect(dates).toEqual([]);
+    const next = expandOccurrences([w], day("2025-01-13"), day("2025-01-19")).map(o => o.date).sort();
+    expect(next).toEqual(["2025-01-13", "2025-01-14"]);
+  });
+});
+
+describe("isWorkoutInRange", () => {
+  it("includes single sessions in the range and series overlapping it", () => {
+    const single: Workout = { ...base, recurring: false, date: "2025-02-10" };
+    expect(isWorkoutInRange(single, "2025-02-10", "2025-02-16")).toBe(true);
+    expect(isWorkoutInRange(single, "2025-02-11", "2025-02-16")).toBe(false);
+    expect(isWorkoutInRange(base, "2025-02-10", "2025-02-16")).toBe(true);
+    expect(isWorkoutInRange({ ...base, recurrenceEnd: "2025-02-09" }, "2025-02-10", "2025-02-16")).toBe(false);
+    expect(isWorkoutInRange(base, "2024-12-01", "2024-12-31")).toBe(false);
+  });
+});
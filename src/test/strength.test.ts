@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { describeSets, withVolumes, workoutVolume } from "@/lib/strength";
+import { StrengthExercise } from "@/types";
+
+const squat: StrengthExercise = {
+  id: "e1",
+  name: " Sentadilla ",
+  sets: Array.from({ length: 5 }, () => ({ reps: 5, weight: 100, rpe: 8 })),
+  volume: 0,
+};
+
+describe("withVolumes", () => {
+  it("computes each exercise's volume and drops empty entries", () => {
+    const saved = withVolumes([
+      squat,
+      { id: "e2", name: "Dominadas", sets: [{ reps: 8, weight: 0 }, { reps: 0, weight: 0 }], volume: 0 },
+      { id: "e3", name: "", sets: [{ reps: 10, weight: 20 }], volume: 0 },
+    ]);
+    expect(saved.map(e => [e.name, e.sets.length, e.volume])).toEqual([["Sentadilla", 5, 2500], ["Dominadas", 1, 0]]);
+    expect(workoutVolume(saved)).toBe(2500);
+  });
+});
+
+describe("describeSets", () => {
+  it("summarises straight sets", () => {
+    expect(describeSets(squat.sets)).toBe("5×5 @ 100 kg");
+    expect(describeSets([{ reps: 5, weight: 100 }, { reps: 3, weight: 110 }])).toBe("2 series");
+  });
+});
@@ -0,0 +1,129 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+type Row = { id: string; updated_at?: string } & Record<string, unknown>;
+
+// In-memory stand-in for the Supabase workouts table. Every write is logged,
+// and `fail` makes upserts and deletes return that error until cleared.
+const server = vi.hoisted(() => ({
+  rows: new Map<string, Row>(),
+  writes: [] as string[],
+  fail: null as { message: string; code?: string } | null,
+}));
+
+vi.mock("@/integrations/supabase/client", () => {
+  const select = () => {
+    let id: string | undefined;
+    const result = () => ({ data: id ? server.rows.get(id) ?? null : [...server.rows.values()], error: null });
+    const query = {
+      eq: (column: string, value: string) => {
+        if (column === "id") id = value;
+        return query;
+      },
+      or: () => query,
+      maybeSingle: async () => result(),
+      then: (resolve: (value: ReturnType<typeof result>) => void) => resolve(result()),
+    };
+    return query;
+  };
+  const write = (op: string, id: string, apply: () => void) => {
+    if (server.fail) return { error: server.fail };
+    server.writes.push(`${op} ${id}`);
+    apply();
+    return { error: null };
+  };
+  return {
+    supabase: {
+      from: () => ({
+        select,
+        upsert: async (row: Row) => write("upsert", row.id, () => server.rows.set(row.id, row)),
+        delete: () => ({ eq: async (_column: string, id: string) => write("delete", id, () => server.rows.delete(id)) }),
+      }),
+    },
+  };
+});
+
+const { readRows, writeRow, removeRow, flushOutbox, getSyncStatus } = await import("@/lib/sync");
+const { getLocalRow, getOutbox } = await import("@/lib/localdb");
+
+const workout = (id: string, notes = "local") => ({ id, user_id: "u1", date: "2025-01-06", notes });
+
+const setOnline = (online: boolean) => vi.spyOn(navigator, "onLine", "get").mockReturnValue(online);
+
+beforeEach(() => {
+  server.rows.clear();
+  server.writes = [];
+  server.fail = null;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("outbox replay", () => {
+  it("sends changes made offline in the order they were made", async () => {
+    setOnline(false);
+    await writeRow("workouts", workout("a"));
+    await writeRow("workouts", workout("b"));
+    await removeRow("workouts", "a");
+    expect(server.writes).toEqual([]);
+
+    setOnline(true);
+    await flushOutbox();
+    expect(server.writes).toEqual(["upsert a", "upsert b", "delete a"]);
+    expect([...server.rows.keys()]).toEqual(["b"]);
+    expect(await getOutbox()).toEqual([]);
+  });
+
+  it("keeps a remote row changed after the local edit", async () => {
+    server.rows.set("c", { ...workout("c", "remote"), updated_at: "2999-01-01T00:00:00.000Z" });
+    await writeRow("workouts", workout("c"));
+    await flushOutbox();
+    expect(server.writes).toEqual([]);
+    expect(server.rows.get("c")?.notes).toBe("remote");
+    expect((await getLocalRow("workouts", "c"))?.notes).toBe("remote");
+    expect(await getOutbox()).toEqual([]);
+  });
+
+  it("drops a change Supabase refuses and restores the remote version", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    server.fail = { message: 'new row violates check constraint "workouts_duration_check"', code: "23514" };
+    await writeRow("workouts", workout("d"));
+    await flushOutbox();
+    expect(getSyncStatus().rejected?.kind).toBe("rejected");
+    expect(await getLocalRow("workouts", "d")).toBeNull();
+    expect(await getOutbox()).toEqual([]);
+  });
+
+  it("retries a change that didn't reach Supabase", async () => {
+    server.fail = { message: "TypeError: Failed to fetch" };
+    await writeRow("workouts", workout("e"));
+    await flushOutbox();
+    expect(await getOutbox()).toHaveLength(1);
+    expect((await getLocalRow("workouts", "e"))?.notes).toBe("local");
+
+    server.fail = null;
+    await flushOutbox();
+    expect(server.writes).toEqual(["upsert e"]);
+    expect(await getOutbox()).toEqual([]);
+  });
+});
+
+describe("reads", () => {
+  const inRange = (from: string, to: string) => ({
+    key: `${from}:${to}`,
+    or: `and(date.gte.${from},date.lte.${to})`,
+    matches: (row: { date: string }) => row.date >= from && row.date <= to,
+  });
+
+  it("answers a range never read before from the cache while offline", async () => {
+    server.rows.set("m1", { ...workout("m1"), date: "2025-03-03" });
+    server.rows.set("m2", { ...workout("m2"), date: "2025-03-12" });
+    expect((await readRows("workouts", "u1", inRange("2025-03-01", "2025-03-07"))).map(r => r.id)).toEqual(["m1"]);
+
+    setOnline(false);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect((await readRows("workouts", "u1", inRange("2025-03-08", "2025-03-14"))).map(r => r.id)).toEqual(["m2"]);
+    await expect(readRows("meals", "u1", inRange("2025-03-08", "2025-03-14"))).rejects.toMatchObject({ kind: "offline" });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { format, addDays, parseISO } from "date-fns";
+import { estimateAdaptiveTdee } from "@/lib/tdee";
+import { BodyMetricEntry, Meal } from "@/types";
+
+const to = "2026-03-29";
+const day = (offset: number) => format(addDays(parseISO("2026-03-02"), offset), "yyyy-MM-dd");
+
+const meal = (date: string, totalCalories: number): Meal => ({
+  id: date, date, time: "13:00", mealType: "lunch", foods: [],
+  totalCalories, totalProtein: 0, totalCarbs: 0, totalFat: 0,
+});
+
+describe("estimateAdaptiveTdee", () => {
+  it("infers maintenance from intake and the weight trend", () => {
+    // 2200 kcal a day while losing 0.1 kg a day (770 kcal of stored energy)
+    const meals = Array.from({ length: 28 }, (_, i) => meal(day(i), i % 2 ? 2100 : 2300));
+    const weights: BodyMetricEntry[] = [0, 7, 14, 21, 27].map(i => ({ id: String(i), date: day(i), weight: 80 - 0.1 * i }));
+
+    const { estimate, intakeDays, weighIns, from } = estimateAdaptiveTdee(meals, weights, to);
+    expect(from).toBe("2026-03-02");
+    expect(intakeDays).toBe(28);
+    expect(weighIns).toBe(5);
+    expect(estimate!.tdee).toBe(2970);
+    expect(estimate!.low).toBeLessThan(2970);
+    expect(estimate!.high).toBeGreaterThan(2970);
+  });
+
+  it("waits for enough logged days and weigh-ins", () => {
+    const meals = Array.from({ length: 10 }, (_, i) => meal(day(i), 2000));
+    const weights: BodyMetricEntry[] = [0, 3, 6, 9].map(i => ({ id: String(i), date: day(i), weight: 80 }));
+    expect(estimateAdaptiveTdee(meals, weights, to).estimate).toBeNull();
+  });
+});
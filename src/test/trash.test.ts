@@ -0,0 +1,43 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Workout } from "@/types";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const { deleteWorkout, restoreWorkout } = await import("@/lib/storage");
+const { getLocalRow } = await import("@/lib/localdb");
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const series: Workout = {
+  id: "w1",
+  date: "2025-01-07",
+  time: "18:30",
+  exerciseType: "running",
+  duration: 45,
+  intensity: "medium",
+  caloriesBurned: 450,
+  recurring: true,
+  recurrenceType: "weekly",
+  recurrenceDays: [2],
+  exceptions: [{ date: "2025-01-14", status: "completed" }, { date: "2025-01-21", skipped: true }],
+};
+
+describe("trash", () => {
+  it("restores a deleted series with its exceptions", async () => {
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+
+    await deleteWorkout("u1", series);
+    const deleted = await getLocalRow("workouts", "w1");
+    expect(deleted?.deleted_at).toBeTruthy();
+    expect(deleted?.exceptions).toEqual(series.exceptions);
+
+    await restoreWorkout("u1", series);
+    const restored = await getLocalRow("workouts", "w1");
+    expect(restored?.deleted_at).toBeNull();
+    expect(restored?.exceptions).toEqual(series.exceptions);
+    expect(restored?.recurrence_days).toEqual([2]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from "vitest";
+
+// Rows Supabase returns for record_versions
+const history = vi.hoisted(() => ({ rows: [] as Record<string, unknown>[] }));
+
+vi.mock("@/integrations/supabase/client", () => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: async () => ({ data: history.rows, error: null }),
+  };
+  return { supabase: { from: () => query } };
+});
+
+const { getVersions } = await import("@/lib/storage");
+const { changedFieldsLabel, operationLabel } = await import("@/lib/versions");
+
+describe("history", () => {
+  const version = (operation: string, changed_fields: string[], data: Record<string, unknown>) => ({
+    id: `v-${operation}-${changed_fields.join()}`,
+    operation,
+    changed_fields,
+    data: { id: "w1", user_id: "u1", date: "2025-01-07", exercise_type: "running", duration: 45, ...data },
+    changed_at: "2025-01-08T10:00:00Z",
+  });
+
+  it("maps versions to records and labels what changed", async () => {
+    history.rows = [
+      version("update", ["deleted_at"], { deleted_at: null }),
+      version("update", ["deleted_at"], { deleted_at: "2025-01-08T09:00:00Z" }),
+      version("update", ["duration", "recurrence_type", "recurrence_days", "recurring"], { duration: 30 }),
+      version("insert", [], {}),
+    ];
+    const versions = await getVersions("workouts", "w1");
+    expect(versions[2].value).toMatchObject({ id: "w1", exerciseType: "running", duration: 30 });
+    expect(versions.map(operationLabel)).toEqual(["Restaurado", "Movido a la papelera", "Modificado", "Creado"]);
+    expect(changedFieldsLabel(versions[2].changedFields)).toBe("duración, repetición, días");
+    expect(changedFieldsLabel(versions[0].changedFields)).toBe("");
+  });
+});
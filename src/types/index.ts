@@ -1,18 +1,69 @@
 // User Profile
+export type BmrFormula = 'mifflin' | 'harris_benedict' | 'katch_mcardle' | 'cunningham';
+export type EatBackPercent = 0 | 50 | 100;
+
+// Custom macro targets
+export type MacroSettings =
+  | { mode: 'percent'; protein: number; carbs: number; fat: number } // % of calories, adding up to 100
+  | { mode: 'grams'; protein: number; carbs: number; fat: number } // g per day
+  | { mode: 'protein_per_kg'; gramsPerKg: number; basis: 'bodyweight' | 'lean_mass' }; // carbs and fat fill the rest
+
 export interface UserProfile {
   name: string;
   age: number;
-  weight: number; // kg
+  weight: number; // kg, current; past weights live in the body-metrics log
   height: number; // cm
   sex: 'male' | 'female';
   activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
   goal: 'lose_fat' | 'gain_muscle' | 'maintain';
+  targetWeight?: number; // kg
+  targetDate?: string; // YYYY-MM-DD, optional deadline for reaching targetWeight
+  bmrFormula: BmrFormula;
+  macros?: MacroSettings; // overrides the goal's default macro split
+  trainingDayBoost?: number; // % more calories on training days, taken from rest days; 0 or unset = no cycling
+  exerciseEatBack?: EatBackPercent; // % of completed workouts' burn added to the day's budget
+  restingHeartRate?: number; // bpm
+  maxHeartRate?: number; // bpm; estimated from age when unset
   onboardingComplete: boolean;
 }
 
 // Training
 export type ExerciseType = 'gym' | 'running' | 'cycling' | 'yoga' | 'swimming' | 'hiking' | 'other';
 export type Intensity = 'low' | 'medium' | 'high';
+export type RecurrenceType = 'none' | 'daily' | 'weekly' | 'custom' | 'monthly';
+export type MonthlyRecurrenceMode = 'day_of_month' | 'nth_weekday';
+export type OccurrenceStatus = 'planned' | 'completed' | 'missed';
+
+// Exercise catalogue
+export type MuscleGroup =
+  | 'chest' | 'back' | 'shoulders' | 'biceps' | 'triceps' | 'forearms'
+  | 'abs' | 'quads' | 'hamstrings' | 'glutes' | 'calves';
+export type Equipment = 'barbell' | 'dumbbell' | 'machine' | 'cable' | 'bodyweight' | 'kettlebell' | 'band' | 'other';
+
+export interface LibraryExercise {
+  id: string; // built-in ids are slugs, custom ones uuids
+  name: string;
+  primaryMuscles: MuscleGroup[];
+  secondaryMuscles: MuscleGroup[];
+  equipment: Equipment;
+  custom?: boolean; // added by the user
+}
+
+// Strength training log
+export interface StrengthSet {
+  reps: number;
+  weight: number; // kg, 0 for bodyweight
+  rpe?: number; // rate of perceived exertion, 1-10
+  rest?: number; // seconds before the next set
+}
+
+export interface StrengthExercise {
+  id: string;
+  exerciseId?: string; // catalogue entry; free-text exercises have none
+  name: string;
+  sets: StrengthSet[];
+  volume: number; // kg, weight × reps over all sets; computed when saved
+}
 
 export interface Workout {
   id: string;
@@ -22,12 +73,76 @@ export interface Workout {
   duration: number; // minutes
   intensity: Intensity;
   caloriesBurned: number;
+  avgHeartRate?: number; // bpm, average over the session
+  maxHeartRate?: number; // bpm, peak of the session
+  distance?: number; // km, for running, cycling, swimming and hiking
+  elevationGain?: number; // m
+  exercises?: StrengthExercise[]; // gym sessions
   notes?: string;
   recurring: boolean;
-  recurrenceType?: 'none' | 'daily' | 'weekly' | 'custom';
+  recurrenceType?: RecurrenceType;
   recurrenceInterval?: number; // for custom (every X days)
   recurrenceDays?: number[]; // for weekly (0-6, Sun-Sat)
+  recurrenceMonthlyMode?: MonthlyRecurrenceMode; // for monthly
+  recurrenceMonthDay?: number; // for monthly by day of month (1-31, -1 = last day)
+  recurrenceWeekOfMonth?: number; // for monthly by nth weekday (1-4, -1 = last)
+  recurrenceWeekday?: number; // for monthly by nth weekday (0-6, Sun-Sat)
   recurrenceEnd?: string; // YYYY-MM-DD
+  exceptions?: WorkoutException[];
+  programId?: string; // set on sessions generated by a training program
+  deletedAt?: string; // ISO timestamp, set while the workout is in the trash
+}
+
+// Per-occurrence change to a recurring workout, keyed by its original date
+export interface WorkoutException {
+  date: string; // YYYY-MM-DD, the date the occurrence was originally scheduled on
+  skipped?: boolean;
+  movedTo?: string; // YYYY-MM-DD
+  time?: string;
+  duration?: number;
+  intensity?: Intensity;
+  caloriesBurned?: number;
+  // null clears a value the series has, for this occurrence only
+  avgHeartRate?: number | null;
+  maxHeartRate?: number | null;
+  distance?: number | null;
+  elevationGain?: number | null;
+  exercises?: StrengthExercise[];
+  status?: Exclude<OccurrenceStatus, 'planned'>;
+}
+
+// A workout as it actually happens on a given day, with its exception applied
+export interface WorkoutOccurrence extends Workout {
+  occurrenceDate: string; // YYYY-MM-DD, original scheduled date
+  status: OccurrenceStatus;
+}
+
+// Named session to start workouts from and to build programs with
+export interface WorkoutTemplate {
+  id: string;
+  name: string;
+  exerciseType: ExerciseType;
+  time?: string; // HH:mm
+  duration: number; // minutes
+  intensity: Intensity;
+  exercises: StrengthExercise[]; // loads of the first week
+  notes?: string;
+}
+
+export interface ProgramDay {
+  weekday: number; // 0-6, Sun-Sat
+  templateId: string;
+}
+
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD, a Monday
+  weeks: number;
+  days: ProgramDay[];
+  weeklyIncrease: number; // kg added to every loaded set each week
+  deloadEvery?: number; // every Nth week is a deload week
+  deloadPercent: number; // share of the load kept on deload weeks
 }
 
 // Nutrition
@@ -54,6 +169,22 @@ export interface Meal {
   totalFat: number;
   notes?: string;
   imageUrl?: string;
+  deletedAt?: string; // ISO timestamp, set while the meal is in the trash
+}
+
+// Body metrics
+export type BodyMetricField = 'weight' | 'bodyFat' | 'waist' | 'hips' | 'chest' | 'arms';
+
+// One day's entry in the body-metrics log; any measurement may be left out
+export interface BodyMetricEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  weight?: number; // kg
+  bodyFat?: number; // %
+  waist?: number; // cm
+  hips?: number; // cm
+  chest?: number; // cm
+  arms?: number; // cm
 }
 
 // Calculated targets
@@ -63,3 +194,15 @@ export interface DailyTargets {
   carbs: number;
   fat: number;
 }
+
+// Edit history
+export type VersionOperation = 'insert' | 'update' | 'delete';
+
+// A saved state of a profile, meal or workout
+export interface RecordVersion<T> {
+  id: string;
+  operation: VersionOperation;
+  changedFields: string[]; // column names that changed in this version
+  value: T; // the record after the change (before it, for deletes)
+  changedAt: string; // ISO timestamp
+}
@@ -0,0 +1,87 @@
+-- Core tables: one profile per auth user, plus the user's workouts and meals.
+-- Every row is private to its owner through row-level security.
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  name text,
+  age integer,
+  weight numeric,
+  height numeric,
+  sex text check (sex in ('male', 'female')),
+  activity_level text check (activity_level in ('sedentary', 'light', 'moderate', 'active', 'very_active')),
+  goal text check (goal in ('lose_fat', 'gain_muscle', 'maintain')),
+  onboarding_complete boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table public.workouts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  date date not null,
+  time text,
+  exercise_type text not null default 'other'
+    check (exercise_type in ('gym', 'running', 'cycling', 'yoga', 'swimming', 'hiking', 'other')),
+  duration integer not null default 0,
+  intensity text not null default 'medium' check (intensity in ('low', 'medium', 'high')),
+  calories_burned integer not null default 0,
+  notes text,
+  recurring boolean not null default false,
+  recurrence_type text check (recurrence_type in ('none', 'daily', 'weekly', 'custom')),
+  recurrence_interval integer,
+  recurrence_days integer[],
+  recurrence_end date,
+  created_at timestamptz not null default now()
+);
+
+create index workouts_user_id_date_idx on public.workouts (user_id, date);
+
+create table public.meals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  date date not null,
+  time text,
+  meal_type text not null default 'lunch' check (meal_type in ('breakfast', 'lunch', 'dinner', 'snack')),
+  foods jsonb not null default '[]'::jsonb,
+  total_calories numeric not null default 0,
+  total_protein numeric not null default 0,
+  total_carbs numeric not null default 0,
+  total_fat numeric not null default 0,
+  notes text,
+  image_url text,
+  created_at timestamptz not null default now()
+);
+
+create index meals_user_id_date_idx on public.meals (user_id, date);
+
+-- ─── Row-level security ───
+
+alter table public.profiles enable row level security;
+alter table public.workouts enable row level security;
+alter table public.meals enable row level security;
+
+create policy "Users read their own profile" on public.profiles
+  for select using (auth.uid() = id);
+create policy "Users create their own profile" on public.profiles
+  for insert with check (auth.uid() = id);
+create policy "Users update their own profile" on public.profiles
+  for update using (auth.uid() = id) with check (auth.uid() = id);
+create policy "Users delete their own profile" on public.profiles
+  for delete using (auth.uid() = id);
+
+create policy "Users read their own workouts" on public.workouts
+  for select using (auth.uid() = user_id);
+create policy "Users create their own workouts" on public.workouts
+  for insert with check (auth.uid() = user_id);
+create policy "Users update their own workouts" on public.workouts
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users delete their own workouts" on public.workouts
+  for delete using (auth.uid() = user_id);
+
+create policy "Users read their own meals" on public.meals
+  for select using (auth.uid() = user_id);
+create policy "Users create their own meals" on public.meals
+  for insert with check (auth.uid() = user_id);
+create policy "Users update their own meals" on public.meals
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users delete their own meals" on public.meals
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+-- Monthly recurrence rules and per-occurrence exceptions (skip, move,
+-- override, completion status) for recurring workouts.
+
+alter table public.workouts
+  drop constraint workouts_recurrence_type_check,
+  add constraint workouts_recurrence_type_check
+    check (recurrence_type in ('none', 'daily', 'weekly', 'custom', 'monthly')),
+  add column recurrence_monthly_mode text
+    check (recurrence_monthly_mode in ('day_of_month', 'nth_weekday')),
+  add column recurrence_month_day integer
+    check (recurrence_month_day = -1 or recurrence_month_day between 1 and 31),
+  add column recurrence_week_of_month integer
+    check (recurrence_week_of_month = -1 or recurrence_week_of_month between 1 and 4),
+  add column recurrence_weekday integer check (recurrence_weekday between 0 and 6),
+  add column exceptions jsonb not null default '[]'::jsonb;
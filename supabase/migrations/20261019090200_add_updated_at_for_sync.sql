@@ -0,0 +1,6 @@
+-- Last-modified timestamp used by the offline sync to resolve conflicts
+-- (the most recent change wins). Clients set it when they edit a row.
+
+alter table public.profiles add column updated_at timestamptz not null default now();
+alter table public.workouts add column updated_at timestamptz not null default now();
+alter table public.meals add column updated_at timestamptz not null default now();
@@ -0,0 +1,5 @@
+-- Deleting a meal or workout moves it to the trash: the row is kept with
+-- deleted_at set until it's restored or purged from the Profile screen.
+
+alter table public.workouts add column deleted_at timestamptz;
+alter table public.meals add column deleted_at timestamptz;
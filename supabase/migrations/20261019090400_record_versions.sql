@@ -0,0 +1,68 @@
+-- Edit history: every insert, update and delete on profiles, workouts and
+-- meals is stored as a version holding the full row and the columns that
+-- changed, so older values can be inspected and restored.
+
+create table public.record_versions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  table_name text not null check (table_name in ('profiles', 'workouts', 'meals')),
+  record_id uuid not null,
+  operation text not null check (operation in ('insert', 'update', 'delete')),
+  changed_fields text[] not null default '{}',
+  data jsonb not null, -- the row after the change (before it, for deletes)
+  changed_at timestamptz not null default now()
+);
+
+create index record_versions_record_idx on public.record_versions (table_name, record_id, changed_at desc);
+
+alter table public.record_versions enable row level security;
+
+-- Versions are written only by the trigger below; users can just read theirs
+create policy "Users read their own history" on public.record_versions
+  for select using (auth.uid() = user_id);
+
+create or replace function public.record_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_data jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  new_data jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  row_data jsonb := coalesce(new_data, old_data);
+  owner_id uuid := coalesce((row_data ->> 'user_id')::uuid, (row_data ->> 'id')::uuid);
+  changed text[];
+begin
+  -- Rows removed because their user was deleted have nobody to keep history for
+  if tg_op = 'DELETE' and not exists (select 1 from auth.users where id = owner_id) then
+    return null;
+  end if;
+
+  select coalesce(array_agg(key order by key), '{}') into changed
+  from jsonb_object_keys(row_data) as key
+  where key not in ('created_at', 'updated_at')
+    and (old_data -> key) is distinct from (new_data -> key);
+
+  -- Saving identical data again (e.g. an offline change replayed) isn't a new version
+  if tg_op = 'UPDATE' and cardinality(changed) = 0 then
+    return null;
+  end if;
+
+  insert into public.record_versions (user_id, table_name, record_id, operation, changed_fields, data)
+  values (owner_id, tg_table_name, (row_data ->> 'id')::uuid, lower(tg_op), changed, row_data);
+  return null;
+end;
+$$;
+
+create trigger profiles_record_version
+  after insert or update or delete on public.profiles
+  for each row execute function public.record_version();
+
+create trigger workouts_record_version
+  after insert or update or delete on public.workouts
+  for each row execute function public.record_version();
+
+create trigger meals_record_version
+  after insert or update or delete on public.meals
+  for each row execute function public.record_version();
@@ -0,0 +1,39 @@
+-- Body-metrics log: dated weight and body measurements, one entry per day.
+-- profiles.weight stays the current weight; past days read theirs from here.
+
+create table public.body_metrics (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  date date not null,
+  weight numeric check (weight > 0), -- kg
+  body_fat numeric check (body_fat between 0 and 100), -- %
+  -- circumferences in cm
+  waist numeric check (waist > 0),
+  hips numeric check (hips > 0),
+  chest numeric check (chest > 0),
+  arms numeric check (arms > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index body_metrics_user_id_date_idx on public.body_metrics (user_id, date);
+
+alter table public.body_metrics enable row level security;
+
+create policy "Users read their own body metrics" on public.body_metrics
+  for select using (auth.uid() = user_id);
+create policy "Users create their own body metrics" on public.body_metrics
+  for insert with check (auth.uid() = user_id);
+create policy "Users update their own body metrics" on public.body_metrics
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users delete their own body metrics" on public.body_metrics
+  for delete using (auth.uid() = user_id);
+
+-- Entries keep an edit history like the other tables
+alter table public.record_versions drop constraint record_versions_table_name_check;
+alter table public.record_versions add constraint record_versions_table_name_check
+  check (table_name in ('profiles', 'workouts', 'meals', 'body_metrics'));
+
+create trigger body_metrics_record_version
+  after insert or update or delete on public.body_metrics
+  for each row execute function public.record_version();
@@ -0,0 +1,5 @@
+-- Goal weight and optional deadline; the daily deficit or surplus is derived
+-- from them in the app.
+
+alter table public.profiles add column target_weight numeric check (target_weight > 0);
+alter table public.profiles add column target_date date;
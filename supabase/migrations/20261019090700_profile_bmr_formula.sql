@@ -0,0 +1,5 @@
+-- Basal metabolic rate formula chosen in Profile. Katch-McArdle and
+-- Cunningham use the latest body-fat % from the body-metrics log.
+
+alter table public.profiles add column bmr_formula text not null default 'mifflin'
+  check (bmr_formula in ('mifflin', 'harris_benedict', 'katch_mcardle', 'cunningham'));
@@ -0,0 +1,5 @@
+-- Custom macro targets. Null keeps the goal's default split; otherwise a
+-- JSON object whose "mode" is percent, grams or protein_per_kg.
+
+alter table public.profiles add column macros jsonb
+  check (macros is null or macros ->> 'mode' in ('percent', 'grams', 'protein_per_kg'));
@@ -0,0 +1,5 @@
+-- Calorie and carb cycling: percent more calories on training days, given
+-- back on rest days. 0 keeps every day the same.
+
+alter table public.profiles add column training_day_boost integer not null default 0
+  check (training_day_boost between 0 and 50);
@@ -0,0 +1,5 @@
+-- Share of the calories burned in completed workouts that is added back to
+-- the day's calorie budget: 0 (none), 50 or 100 percent.
+
+alter table public.profiles add column exercise_eat_back integer not null default 0
+  check (exercise_eat_back in (0, 50, 100));
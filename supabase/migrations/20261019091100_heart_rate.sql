@@ -0,0 +1,10 @@
+-- Heart rate for workout calories: the session's average and peak, and the
+-- profile's resting and maximum heart rate (estimated from age when null).
+
+alter table public.workouts
+  add column avg_heart_rate integer check (avg_heart_rate between 30 and 240),
+  add column max_heart_rate integer check (max_heart_rate between 30 and 240);
+
+alter table public.profiles
+  add column resting_heart_rate integer check (resting_heart_rate between 30 and 120),
+  add column max_heart_rate integer check (max_heart_rate between 100 and 240);
@@ -0,0 +1,6 @@
+-- Distance (km) and elevation gain (m) for running, cycling, swimming and
+-- hiking; pace and speed are computed from them and the duration.
+
+alter table public.workouts
+  add column distance numeric check (distance > 0),
+  add column elevation_gain integer check (elevation_gain >= 0);
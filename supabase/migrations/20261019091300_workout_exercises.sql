@@ -0,0 +1,5 @@
+-- Structured gym log: the exercises of a session, each with its sets (reps,
+-- weight, RPE, rest) and the volume computed when saved.
+
+alter table public.workouts
+  add column exercises jsonb not null default '[]'::jsonb;
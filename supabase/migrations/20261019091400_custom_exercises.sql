@@ -0,0 +1,35 @@
+-- Exercises users add to the built-in catalogue, tagged like the built-in
+-- ones so they count towards weekly sets per muscle group.
+
+create table public.custom_exercises (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  primary_muscles text[] not null default '{}',
+  secondary_muscles text[] not null default '{}',
+  equipment text not null default 'other'
+    check (equipment in ('barbell', 'dumbbell', 'machine', 'cable', 'bodyweight', 'kettlebell', 'band', 'other')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index custom_exercises_user_id_idx on public.custom_exercises (user_id);
+
+alter table public.custom_exercises enable row level security;
+
+create policy "Users read their own exercises" on public.custom_exercises
+  for select using (auth.uid() = user_id);
+create policy "Users create their own exercises" on public.custom_exercises
+  for insert with check (auth.uid() = user_id);
+create policy "Users update their own exercises" on public.custom_exercises
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users delete their own exercises" on public.custom_exercises
+  for delete using (auth.uid() = user_id);
+
+alter table public.record_versions drop constraint record_versions_table_name_check;
+alter table public.record_versions add constraint record_versions_table_name_check
+  check (table_name in ('profiles', 'workouts', 'meals', 'body_metrics', 'custom_exercises'));
+
+create trigger custom_exercises_record_version
+  after insert or update or delete on public.custom_exercises
+  for each row execute function public.record_version();
@@ -0,0 +1,77 @@
+-- Named workout templates, and training programs that schedule them over a
+-- number of weeks with a weekly load increase and optional deload weeks.
+-- Starting a program writes its sessions as ordinary workouts tagged with
+-- the program's id.
+
+create table public.workout_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  exercise_type text not null default 'gym',
+  time text,
+  duration integer not null default 60 check (duration > 0),
+  intensity text not null default 'medium' check (intensity in ('low', 'medium', 'high')),
+  exercises jsonb not null default '[]',
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index workout_templates_user_id_idx on public.workout_templates (user_id);
+
+alter table public.workout_templates enable row level security;
+
+create policy "Users read their own templates" on public.workout_templates
+  for select using (auth.uid() = user_id);
+create policy "Users create their own templates" on public.workout_templates
+  for insert with check (auth.uid() = user_id);
+create policy "Users update their own templates" on public.workout_templates
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users delete their own templates" on public.workout_templates
+  for delete using (auth.uid() = user_id);
+
+create table public.training_programs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  start_date date not null,
+  weeks integer not null check (weeks between 1 and 52),
+  -- [{ "weekday": 0-6 (Sun-Sat), "templateId": uuid }]
+  days jsonb not null default '[]',
+  weekly_increase numeric not null default 0 check (weekly_increase >= 0),
+  deload_every integer check (deload_every between 2 and 12),
+  deload_percent integer not null default 60 check (deload_percent between 30 and 100),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index training_programs_user_id_idx on public.training_programs (user_id);
+
+alter table public.training_programs enable row level security;
+
+create policy "Users read their own programs" on public.training_programs
+  for select using (auth.uid() = user_id);
+create policy "Users create their own programs" on public.training_programs
+  for insert with check (auth.uid() = user_id);
+create policy "Users update their own programs" on public.training_programs
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users delete their own programs" on public.training_programs
+  for delete using (auth.uid() = user_id);
+
+-- No foreign key: changes made offline may reach Supabase before the program
+-- they belong to, and sessions outlive a stopped program
+alter table public.workouts add column program_id uuid;
+
+alter table public.record_versions drop constraint record_versions_table_name_check;
+alter table public.record_versions add constraint record_versions_table_name_check
+  check (table_name in (
+    'profiles', 'workouts', 'meals', 'body_metrics', 'custom_exercises', 'workout_templates', 'training_programs'
+  ));
+
+create trigger workout_templates_record_version
+  after insert or update or delete on public.workout_templates
+  for each row execute function public.record_version();
+
+create trigger training_programs_record_version
+  after insert or update or delete on public.training_programs
+  for each row execute function public.record_version();
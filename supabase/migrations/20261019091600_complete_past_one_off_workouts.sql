@@ -0,0 +1,23 @@
+-- One-off workouts logged before occurrences had a status show up as
+-- planned. A one-off dated in the past records something done, so mark it
+-- completed, keeping any other changes already made to that day.
+
+update public.workouts w
+set
+  exceptions = (
+    select coalesce(jsonb_agg(e), '[]'::jsonb)
+    from jsonb_array_elements(w.exceptions) e
+    where e ->> 'date' <> w.date::text
+  ) || jsonb_build_array(
+    coalesce(
+      (select e from jsonb_array_elements(w.exceptions) e where e ->> 'date' = w.date::text limit 1),
+      '{}'::jsonb
+    ) || jsonb_build_object('date', w.date::text, 'status', 'completed')
+  ),
+  updated_at = now()
+where not (w.recurring and coalesce(w.recurrence_type, 'none') <> 'none')
+  and w.date < current_date
+  and not exists (
+    select 1 from jsonb_array_elements(w.exceptions) e
+    where e ->> 'date' = w.date::text and e ? 'status'
+  );